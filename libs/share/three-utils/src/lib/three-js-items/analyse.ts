@@ -1,6 +1,5 @@
 import * as THREE from 'three';
 import { preparedConstructReturn, preparedSceneReturn } from './construct';
-import { traverseGroup } from './share';
 
 /**
  * Interface representing the return type of an analysis function.
@@ -25,33 +24,22 @@ export const analyse = (model: THREE.Group): analyseReturn => {
   const mapMeshes = new Map<string, THREE.Mesh>();
   const mapMaterials = new Map<string, THREE.Material>();
 
-  const groups = (model: THREE.Group): void => {
-    mapGroups.set(model.uuid, model);
-
-    traverseGroup(model, (obj: THREE.Object3D) => {
-      if (obj instanceof THREE.Group) {
-        mapGroups.set(obj.uuid, obj as THREE.Group);
-        groups(obj as THREE.Group);
-      }
-      if ((obj as unknown) instanceof THREE.Mesh) {
-        mapMeshes.set(obj.uuid, obj as THREE.Mesh);
-        if ((obj as THREE.Mesh).material instanceof Array) {
-          ((obj as THREE.Mesh).material as THREE.Material[]).forEach((m: THREE.Material) => {
-            mapMaterials.set(m.uuid, m);
-          });
-        } else {
-          const m = (obj as THREE.Mesh).material as THREE.Material;
+  model.traverse((obj: THREE.Object3D) => {
+    if (obj instanceof THREE.Group) {
+      mapGroups.set(obj.uuid, obj as THREE.Group);
+    }
+    if ((obj as unknown) instanceof THREE.Mesh) {
+      mapMeshes.set(obj.uuid, obj as THREE.Mesh);
+      if ((obj as THREE.Mesh).material instanceof Array) {
+        ((obj as THREE.Mesh).material as THREE.Material[]).forEach((m: THREE.Material) => {
           mapMaterials.set(m.uuid, m);
-        }
+        });
+      } else {
+        const m = (obj as THREE.Mesh).material as THREE.Material;
+        mapMaterials.set(m.uuid, m);
       }
-    });
-  };
-
-  groups(model);
-
-  console.log('objGroups', mapGroups.keys());
-  console.log('objMeshes', mapMeshes.keys());
-  console.log('objMaterials', mapMaterials.keys());
+    }
+  });
 
   return {
     analyse: {
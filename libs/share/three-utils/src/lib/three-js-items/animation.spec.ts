@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { addAnimationSupport, animationMixerEntry, handleAnimationSupport, hasAnimationSupport } from './animation';
+import { preparedConstructReturn, preparedSceneReturn } from './construct';
+
+describe('animation support', () => {
+  let mixers: Map<string, animationMixerEntry>;
+  let construct: preparedConstructReturn;
+  let scene: preparedSceneReturn;
+  let mesh: THREE.Mesh;
+
+  beforeEach(() => {
+    mixers = new Map<string, animationMixerEntry>();
+    construct = {
+      addAnimationMixer: (key: string, entry: animationMixerEntry) => mixers.set(key, entry),
+      deleteAnimationMixer: (key: string) => mixers.delete(key),
+      invalidate: jest.fn(),
+    } as unknown as preparedConstructReturn;
+
+    mesh = new THREE.Mesh();
+    mesh.name = 'carriage';
+    const group = new THREE.Group();
+    group.add(mesh);
+    group.animations = [
+      new THREE.AnimationClip('move', 2, [
+        new THREE.VectorKeyframeTrack('carriage.position', [0, 2], [0, 0, 0, 4, 0, 0]),
+      ]),
+      new THREE.AnimationClip('open', 1, []),
+    ];
+    scene = {
+      contentGroup: group,
+      animate: jest.fn(),
+      updateCameraWindowSize: jest.fn(),
+      visible: jest.fn(),
+      reCalculateDimensions: jest.fn(),
+      boundingBox: undefined,
+      dispose: jest.fn(),
+    };
+  });
+
+  it('should list the clips and register a mixer at the construct', () => {
+    const animated = addAnimationSupport(scene, construct);
+    expect(hasAnimationSupport(animated)).toBe(true);
+    expect((animated as unknown as handleAnimationSupport).animationSupportContainer.clips()).toEqual(['move', 'open']);
+    expect(mixers.size).toBe(1);
+  });
+
+  it('should report running actions until paused', () => {
+    const animated = addAnimationSupport(scene, construct) as unknown as handleAnimationSupport;
+    const [entry] = mixers.values();
+    expect(entry.isRunning()).toBe(false);
+    animated.animationSupportContainer.play('move');
+    expect(entry.isRunning()).toBe(true);
+    animated.animationSupportContainer.pause('move');
+    expect(entry.isRunning()).toBe(false);
+  });
+
+  it('should apply the pose of the clip when seeking', () => {
+    const animated = addAnimationSupport(scene, construct) as unknown as handleAnimationSupport;
+    animated.animationSupportContainer.seek('move', 1);
+    expect(mesh.position.x).toBeCloseTo(2);
+  });
+
+  it('should unregister the mixer when the scene is disposed', () => {
+    const animated = addAnimationSupport(scene, construct);
+    animated.dispose();
+    expect(mixers.size).toBe(0);
+    expect(scene.dispose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,206 @@
+import * as THREE from 'three';
+import { preparedConstructReturn, preparedSceneReturn } from './construct';
+
+/**
+ * Enum for the loop modes of an animation clip
+ */
+export enum animationLoopEnum {
+  ONCE,
+  REPEAT,
+  PING_PONG,
+}
+
+/**
+ * An animation mixer registered at the prepared construct.
+ * The construct updates the mixer in its animation loop and keeps rendering while `isRunning` returns `true`.
+ */
+export interface animationMixerEntry {
+  mixer: THREE.AnimationMixer;
+  isRunning: () => boolean;
+}
+
+/**
+ * Interface for handling the animation clips of a loaded model.
+ *
+ * Methods:
+ * - clips: Lists the names of the available clips.
+ * - play / pause / stop: Controls the playback of a clip.
+ * - setLoop: Sets the loop mode and the number of repetitions of a clip.
+ * - crossFade: Fades from one clip to another.
+ * - seek: Jumps to a point in time of a clip.
+ * - setTimeScale: Changes the playback speed of a clip.
+ */
+export interface handleAnimationSupport {
+  animationSupportContainer: {
+    mixer: THREE.AnimationMixer | undefined;
+    clips: () => string[];
+    play: (clipName: string) => void;
+    pause: (clipName: string) => void;
+    stop: (clipName: string) => void;
+    setLoop: (clipName: string, loop: animationLoopEnum, repetitions?: number) => void;
+    crossFade: (fromClipName: string, toClipName: string, duration: number) => void;
+    seek: (clipName: string, time: number) => void;
+    setTimeScale: (clipName: string, timeScale: number) => void;
+  };
+}
+
+/**
+ * Determines if the given object is of type `handleAnimationSupport`.
+ *
+ * @param {unknown} obj - The object to be checked.
+ * @returns {boolean} A boolean indicating whether the object is of type `handleAnimationSupport`.
+ */
+export const hasAnimationSupport = (obj: unknown): obj is handleAnimationSupport => {
+  if (obj === undefined) {
+    return false;
+  }
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-expect-error
+  return (obj as object).animationSupportContainer !== undefined;
+};
+
+const loopModes: Record<animationLoopEnum, THREE.AnimationActionLoopStyles> = {
+  [animationLoopEnum.ONCE]: THREE.LoopOnce,
+  [animationLoopEnum.REPEAT]: THREE.LoopRepeat,
+  [animationLoopEnum.PING_PONG]: THREE.LoopPingPong,
+};
+
+/**
+ * Creates the animation support for a scene whose content group carries animation clips
+ * (e.g. the `animations` of a loaded GLB). The mixer is registered at the construct so that it is
+ * updated in the animation loop.
+ *
+ * @param {preparedSceneReturn} scene - The scene whose content group is animated.
+ * @param {preparedConstructReturn} construct - The construct whose animation loop drives the mixer.
+ * @returns {handleAnimationSupport} The animation support container.
+ */
+export const animationSupport = (
+  scene: preparedSceneReturn,
+  construct: preparedConstructReturn,
+): handleAnimationSupport => {
+  const root = scene.contentGroup;
+  const mixer = root ? new THREE.AnimationMixer(root) : undefined;
+  const clips = new Map<string, THREE.AnimationClip>();
+  const actions = new Map<string, THREE.AnimationAction>();
+
+  root?.traverse((child) => {
+    for (const clip of child.animations) {
+      clips.set(clip.name, clip);
+    }
+  });
+
+  /**
+   * Retrieves the action of a clip, creating it on first use.
+   *
+   * @param {string} clipName - The name of the clip.
+   * @returns {THREE.AnimationAction | undefined} The action, or `undefined` if the clip does not exist.
+   */
+  const getAction = (clipName: string): THREE.AnimationAction | undefined => {
+    let action = actions.get(clipName);
+    const clip = clips.get(clipName);
+    if (!action && mixer && clip) {
+      action = mixer.clipAction(clip);
+      actions.set(clipName, action);
+    }
+    return action;
+  };
+
+  if (mixer && root) {
+    construct.addAnimationMixer(root.uuid, {
+      mixer,
+      isRunning: (): boolean => [...actions.values()].some((a) => a.isRunning()),
+    });
+  }
+
+  return {
+    animationSupportContainer: {
+      mixer,
+      clips: (): string[] => [...clips.keys()],
+      play: (clipName: string): void => {
+        const action = getAction(clipName);
+        if (action) {
+          action.paused = false;
+          action.enabled = true;
+          action.play();
+          construct.invalidate();
+        }
+      },
+      pause: (clipName: string): void => {
+        const action = actions.get(clipName);
+        if (action) {
+          action.paused = true;
+          construct.invalidate();
+        }
+      },
+      stop: (clipName: string): void => {
+        actions.get(clipName)?.stop();
+        construct.invalidate();
+      },
+      setLoop: (clipName: string, loop: animationLoopEnum, repetitions = Infinity): void => {
+        const action = getAction(clipName);
+        if (action) {
+          action.setLoop(loopModes[loop], repetitions);
+          action.clampWhenFinished = loop === animationLoopEnum.ONCE;
+        }
+      },
+      crossFade: (fromClipName: string, toClipName: string, duration: number): void => {
+        const from = getAction(fromClipName);
+        const to = getAction(toClipName);
+        if (from && to) {
+          to.reset();
+          to.enabled = true;
+          to.paused = false;
+          to.play();
+          from.crossFadeTo(to, duration, true);
+          construct.invalidate();
+        }
+      },
+      seek: (clipName: string, time: number): void => {
+        const action = getAction(clipName);
+        if (action && mixer) {
+          if (!action.isScheduled()) {
+            action.play();
+            action.paused = true;
+          }
+          action.time = time;
+          mixer.update(0);
+          construct.invalidate();
+        }
+      },
+      setTimeScale: (clipName: string, timeScale: number): void => {
+        getAction(clipName)?.setEffectiveTimeScale(timeScale);
+      },
+    },
+  };
+};
+
+/**
+ * Enhances the given scene with animation support if not already present.
+ * Disposing the enhanced scene also unregisters the mixer from the construct.
+ *
+ * @param {preparedSceneReturn} scene - The prepared scene to be evaluated and potentially enhanced.
+ * @param {preparedConstructReturn | undefined} construct - The construct whose animation loop drives the mixer.
+ * @returns {preparedSceneReturn} The resulting scene, enhanced with animation support if applicable.
+ */
+export const addAnimationSupport = (
+  scene: preparedSceneReturn,
+  construct: preparedConstructReturn | undefined,
+): preparedSceneReturn => {
+  if (hasAnimationSupport(scene)) {
+    return scene;
+  }
+  if (!construct || !scene.contentGroup) {
+    return scene;
+  }
+  const support = animationSupport(scene, construct);
+  const key = scene.contentGroup.uuid;
+  return {
+    ...scene,
+    ...support,
+    dispose: (): void => {
+      support.animationSupportContainer.mixer?.stopAllAction();
+      construct.deleteAnimationMixer(key);
+      scene.dispose();
+    },
+  };
+};
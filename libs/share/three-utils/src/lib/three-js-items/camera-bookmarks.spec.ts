@@ -0,0 +1,94 @@
+import { cameraTypeEnum } from './camera';
+import { createCameraBookmarks } from './camera-bookmarks';
+import { CameraBookmark } from './scene-document';
+
+const createBookmark = (name: string): CameraBookmark => ({
+  name,
+  type: cameraTypeEnum.PERSPECTIVE,
+  position: [0, 0, 5],
+  target: [0, 0, 0],
+  up: [0, 1, 0],
+  fov: 75,
+});
+
+describe('createCameraBookmarks', () => {
+  it('should create, replace, rename and delete bookmarks', () => {
+    const onChange = jest.fn();
+    const bookmarks = createCameraBookmarks(onChange);
+
+    bookmarks.set(createBookmark('front'));
+    bookmarks.set(createBookmark('top'));
+    bookmarks.set({ ...createBookmark('front'), position: [0, 0, 10] });
+    expect(bookmarks.list().map((b) => b.name)).toEqual(['front', 'top']);
+    expect(bookmarks.get('front')?.position).toEqual([0, 0, 10]);
+
+    expect(bookmarks.rename('top', 'above')).toBe(true);
+    expect(bookmarks.get('top')).toBeUndefined();
+    expect(bookmarks.delete('above')).toBe(true);
+    expect(bookmarks.delete('above')).toBe(false);
+    expect(bookmarks.list().map((b) => b.name)).toEqual(['front']);
+    expect(onChange).toHaveBeenCalledTimes(5);
+  });
+
+  it('should keep the order of the bookmarks when renaming', () => {
+    const bookmarks = createCameraBookmarks();
+    for (const name of ['front', 'top', 'side', 'back']) {
+      bookmarks.set(createBookmark(name));
+    }
+
+    bookmarks.rename('top', 'above');
+    expect(bookmarks.list().map((b) => b.name)).toEqual(['front', 'above', 'side', 'back']);
+    bookmarks.rename('front', 'back');
+    expect(bookmarks.list().map((b) => b.name)).toEqual(['back', 'above', 'side']);
+  });
+
+  it('should not expose the stored bookmarks', () => {
+    const bookmarks = createCameraBookmarks();
+    bookmarks.set(createBookmark('front'));
+    const bookmark = bookmarks.get('front');
+    bookmark?.position.fill(1);
+    expect(bookmarks.get('front')?.position).toEqual([0, 0, 5]);
+  });
+
+  it('should export and import bookmarks as JSON', () => {
+    const bookmarks = createCameraBookmarks();
+    bookmarks.set(createBookmark('front'));
+    bookmarks.set({ ...createBookmark('plan'), type: cameraTypeEnum.ORTHOGRAPHIC, fov: undefined, zoom: 2 });
+
+    const json = JSON.stringify(bookmarks.export());
+    const imported = createCameraBookmarks();
+    imported.import(JSON.parse(json));
+    expect(JSON.stringify(imported.export())).toBe(json);
+  });
+
+  it('should reject invalid bookmarks', () => {
+    const bookmarks = createCameraBookmarks();
+    expect(() => {
+      bookmarks.set({ ...createBookmark('front'), position: [0, 0] });
+    }).toThrow('Invalid camera bookmark');
+    expect(() => {
+      bookmarks.import([{ name: '' }]);
+    }).toThrow('Invalid camera bookmarks');
+  });
+
+  it('should generate names that do not replace a stored bookmark', () => {
+    const bookmarks = createCameraBookmarks();
+    expect(bookmarks.uniqueName()).toBe('View 1');
+    bookmarks.set(createBookmark('View 2'));
+    expect(bookmarks.uniqueName()).toBe('View 3');
+    bookmarks.set(createBookmark('View 3'));
+    expect(bookmarks.uniqueName('Detail')).toBe('Detail 3');
+    expect(bookmarks.uniqueName()).toBe('View 4');
+  });
+
+  it('should emit the names after every change including an import', () => {
+    const bookmarks = createCameraBookmarks();
+    const names: string[][] = [];
+    bookmarks.bookmarksChanged$.subscribe((value) => names.push(value));
+
+    bookmarks.set(createBookmark('front'));
+    bookmarks.rename('front', 'side');
+    bookmarks.import([createBookmark('top'), createBookmark('plan')]);
+    expect(names).toEqual([[], ['front'], ['side'], ['top', 'plan']]);
+  });
+});
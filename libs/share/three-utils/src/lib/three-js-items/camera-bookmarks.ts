@@ -0,0 +1,167 @@
+import { BehaviorSubject, Observable } from 'rxjs';
+import { z } from 'zod';
+import { CameraBookmark, cameraBookmarkSchema } from './scene-document';
+
+/**
+ * Interface representing the named camera bookmarks of a prepared construct.
+ *
+ * Methods:
+ * - set: Creates a bookmark or replaces the bookmark with the same name.
+ * - get / list: Query the bookmarks; `list` keeps the order in which they were created.
+ * - rename / delete / clear: Change the stored bookmarks.
+ * - export / import: Convert the bookmarks from and to a JSON serializable list.
+ * - uniqueName: Generates a numbered name that no stored bookmark uses yet.
+ * - bookmarksChanged$: Emits the names of the bookmarks on subscription and after every change.
+ */
+export interface cameraBookmarksReturn {
+  set: (bookmark: CameraBookmark) => void;
+  get: (name: string) => CameraBookmark | undefined;
+  list: () => CameraBookmark[];
+  rename: (name: string, newName: string) => boolean;
+  delete: (name: string) => boolean;
+  clear: () => void;
+  export: () => CameraBookmark[];
+  import: (bookmarks: unknown) => void;
+  uniqueName: (prefix?: string) => string;
+  bookmarksChanged$: Observable<string[]>;
+}
+
+/**
+ * Copies a bookmark, so that stored bookmarks cannot be changed from outside.
+ *
+ * @param {CameraBookmark} bookmark - The bookmark to copy.
+ * @returns {CameraBookmark} The copy.
+ */
+const copyBookmark = (bookmark: CameraBookmark): CameraBookmark => ({
+  ...bookmark,
+  position: [...bookmark.position],
+  target: [...bookmark.target],
+  up: [...bookmark.up],
+});
+
+/**
+ * Creates the store for the camera bookmarks of a prepared construct.
+ *
+ * @param {Function} onChange - Called after every change of the bookmarks.
+ * @returns {cameraBookmarksReturn} The bookmark store.
+ */
+export const createCameraBookmarks = (onChange: () => void = (): void => undefined): cameraBookmarksReturn => {
+  const bookmarks = new Map<string, CameraBookmark>();
+  const subject = new BehaviorSubject<string[]>([]);
+
+  /**
+   * Notifies the listener and the subscribers after the bookmarks have been changed.
+   *
+   * @returns {void}
+   */
+  const changed = (): void => {
+    onChange();
+    subject.next([...bookmarks.keys()]);
+  };
+
+  /**
+   * Creates a bookmark or replaces the bookmark with the same name.
+   *
+   * @param {CameraBookmark} bookmark - The bookmark to store.
+   * @returns {void}
+   * @throws {Error} Throws an error if the bookmark is invalid.
+   */
+  const set = (bookmark: CameraBookmark): void => {
+    const result = cameraBookmarkSchema.safeParse(bookmark);
+    if (!result.success) {
+      throw new Error('Invalid camera bookmark');
+    }
+    bookmarks.set(result.data.name, copyBookmark(result.data));
+    changed();
+  };
+
+  /**
+   * Renames a bookmark in place, keeping its position in the list. An existing bookmark with the new name is replaced.
+   *
+   * @param {string} name - The name of the bookmark.
+   * @param {string} newName - The new name of the bookmark.
+   * @returns {boolean} `true` if the bookmark exists.
+   */
+  const rename = (name: string, newName: string): boolean => {
+    const bookmark = bookmarks.get(name);
+    if (!bookmark) {
+      return false;
+    }
+    if (newName !== name) {
+      const result = cameraBookmarkSchema.safeParse({ ...bookmark, name: newName });
+      if (!result.success) {
+        throw new Error('Invalid camera bookmark');
+      }
+      const entries = [...bookmarks.entries()];
+      bookmarks.clear();
+      for (const [key, value] of entries) {
+        if (key === name) {
+          bookmarks.set(newName, result.data);
+        } else if (key !== newName) {
+          bookmarks.set(key, value);
+        }
+      }
+      changed();
+    }
+    return true;
+  };
+
+  /**
+   * Replaces all bookmarks by the given list, e.g. read from a file that travels with a model.
+   *
+   * @param {unknown} list - The bookmarks to import.
+   * @returns {void}
+   * @throws {Error} Throws an error if the list contains an invalid bookmark.
+   */
+  const importBookmarks = (list: unknown): void => {
+    const result = z.array(cameraBookmarkSchema).safeParse(list);
+    if (!result.success) {
+      throw new Error('Invalid camera bookmarks');
+    }
+    bookmarks.clear();
+    for (const bookmark of result.data) {
+      bookmarks.set(bookmark.name, bookmark);
+    }
+    changed();
+  };
+
+  /**
+   * Generates the name `<prefix> <n>` with the smallest number from the count of the bookmarks on,
+   * that is not used by a stored bookmark.
+   *
+   * @param {string} prefix - The text in front of the number.
+   * @returns {string} The unused name.
+   */
+  const uniqueName = (prefix = 'View'): string => {
+    let index = bookmarks.size + 1;
+    while (bookmarks.has(`${prefix} ${String(index)}`)) {
+      index++;
+    }
+    return `${prefix} ${String(index)}`;
+  };
+
+  return {
+    set,
+    get: (name: string): CameraBookmark | undefined => {
+      const bookmark = bookmarks.get(name);
+      return bookmark ? copyBookmark(bookmark) : undefined;
+    },
+    list: (): CameraBookmark[] => [...bookmarks.values()].map(copyBookmark),
+    rename,
+    delete: (name: string): boolean => {
+      const deleted = bookmarks.delete(name);
+      if (deleted) {
+        changed();
+      }
+      return deleted;
+    },
+    clear: (): void => {
+      bookmarks.clear();
+      changed();
+    },
+    export: (): CameraBookmark[] => [...bookmarks.values()].map(copyBookmark),
+    import: importBookmarks,
+    uniqueName,
+    bookmarksChanged$: subject.asObservable(),
+  };
+};
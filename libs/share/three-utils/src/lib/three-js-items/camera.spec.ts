@@ -46,4 +46,38 @@ describe('Camera', () => {
     cameraInstance.camera = customCamera;
     expect(cameraInstance.camera).toBe(customCamera);
   });
+
+  it('should return the current configuration including the window size', () => {
+    const cameraInstance = new Camera(config);
+    cameraInstance.updateCameraWindowSize(1920, 1080);
+    cameraInstance.applyConfig({ ...config, fov: 50 });
+    expect(cameraInstance.getConfig()).toEqual({ ...config, width: 1920, height: 1080, fov: 50 });
+  });
+
+  it('should keep the frustum height of an orthographic camera on resize', () => {
+    config.type = cameraTypeEnum.ORTHOGRAPHIC;
+    const cameraInstance = new Camera(config);
+    const orthographicCamera = cameraInstance.camera as THREE.OrthographicCamera;
+
+    cameraInstance.updateCameraWindowSize(1200, 600);
+    expect(orthographicCamera.top).toBeCloseTo(300);
+    expect(orthographicCamera.right).toBeCloseTo(600);
+  });
+
+  it('should keep the visual framing when switching the projection', () => {
+    const cameraInstance = new Camera(config);
+    const target = new THREE.Vector3(0, 0, 0);
+    cameraInstance.setPosition(new THREE.Vector3(0, 0, 10));
+
+    const orthographicCamera = cameraInstance.switchProjection(cameraTypeEnum.ORTHOGRAPHIC, target);
+    expect(orthographicCamera).toBeInstanceOf(THREE.OrthographicCamera);
+    expect(cameraInstance.getConfig().type).toBe(cameraTypeEnum.ORTHOGRAPHIC);
+    const halfHeight = 10 * Math.tan(THREE.MathUtils.degToRad(75) / 2);
+    expect((orthographicCamera as THREE.OrthographicCamera).top).toBeCloseTo(halfHeight);
+
+    (orthographicCamera as THREE.OrthographicCamera).zoom = 2;
+    const perspectiveCamera = cameraInstance.switchProjection(cameraTypeEnum.PERSPECTIVE, target);
+    expect(perspectiveCamera).toBeInstanceOf(THREE.PerspectiveCamera);
+    expect(cameraInstance.getPosition().z).toBeCloseTo(5);
+  });
 });
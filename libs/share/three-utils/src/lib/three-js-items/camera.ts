@@ -67,6 +67,11 @@ export class Camera {
    */
   #camera: THREE.Camera | undefined = undefined;
 
+  /**
+   * The configuration the camera was created with, kept in sync with the window size.
+   */
+  #config: cameraConfig;
+
   /**
    * Constructs a new instance of the class with the provided camera configuration.
    *
@@ -80,6 +85,7 @@ export class Camera {
       throw new Error('Invalid light configuration');
     }
     const config = result.data;
+    this.#config = config;
     this.#createCamera(config);
   }
 
@@ -123,16 +129,123 @@ export class Camera {
   }
 
   /**
-   * Update the camera's window size
+   * Update the camera's window size.
+   * An orthographic camera keeps the height of its frustum and adapts the width to the new aspect ratio.
+   *
    * @param newWidth New width for the camera
    * @param newHeight New height for the camera
    * @returns {void} This method does not return any value, but it sets up the camera instance.
    */
   updateCameraWindowSize = (newWidth: number, newHeight: number): void => {
+    this.#config = { ...this.#config, width: newWidth, height: newHeight };
     if (this.camera instanceof THREE.PerspectiveCamera) {
       this.camera.aspect = newWidth / newHeight;
       this.camera.updateProjectionMatrix();
       this.camera.updateMatrixWorld();
+    } else if (this.camera instanceof THREE.OrthographicCamera) {
+      const halfHeight = (this.camera.top - this.camera.bottom) / 2;
+      this.#setOrthographicFrustum(this.camera, halfHeight);
+      this.camera.updateMatrixWorld();
+    }
+  };
+
+  /**
+   * Replaces the camera by a camera of the other projection while keeping the visual framing: the frustum of
+   * an orthographic camera matches the view of the perspective camera at the distance of the target, and a
+   * perspective camera is moved along its viewing direction until the target plane shows the same extent
+   * as the orthographic frustum. Position, orientation and clipping planes are taken over.
+   *
+   * @param {cameraTypeEnum} type - The projection to switch to, either PERSPECTIVE or ORTHOGRAPHIC.
+   * @param {THREE.Vector3} target - The point the camera looks at, usually the OrbitControls target.
+   * @returns {THREE.Camera | undefined} The new camera, or the current one if it already has the projection.
+   */
+  switchProjection = (type: cameraTypeEnum, target: THREE.Vector3): THREE.Camera | undefined => {
+    const current = this.camera;
+    if (
+      type === this.#config.type ||
+      !(current instanceof THREE.PerspectiveCamera || current instanceof THREE.OrthographicCamera)
+    ) {
+      return current;
+    }
+    const distance = Math.max(current.position.distanceTo(target), current.near);
+    const config = { ...this.#config, type, near: current.near, far: current.far };
+    let next: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+    if (current instanceof THREE.PerspectiveCamera) {
+      const halfHeight = distance * Math.tan(THREE.MathUtils.degToRad(current.fov) / 2);
+      next = new THREE.OrthographicCamera(-1, 1, 1, -1, current.near, current.far);
+      this.#setOrthographicFrustum(next, halfHeight / current.zoom);
+      next.position.copy(current.position);
+      config.fov = current.fov;
+    } else {
+      const fov = this.#config.fov ?? 75;
+      const halfHeight = (current.top - current.bottom) / 2 / current.zoom;
+      next = new THREE.PerspectiveCamera(fov, this.#config.width / this.#config.height, current.near, current.far);
+      const direction = current.position.clone().sub(target).normalize();
+      next.position
+        .copy(target)
+        .add(direction.multiplyScalar(halfHeight / Math.tan(THREE.MathUtils.degToRad(fov) / 2)));
+    }
+    next.quaternion.copy(current.quaternion);
+    next.up.copy(current.up);
+    next.updateMatrixWorld();
+    this.#config = config;
+    this.camera = next;
+    return next;
+  };
+
+  /**
+   * Sets the frustum of an orthographic camera to the given half height and the aspect ratio of the window.
+   *
+   * @param {THREE.OrthographicCamera} camera - The orthographic camera.
+   * @param {number} halfHeight - Half the height of the frustum.
+   * @returns {void}
+   */
+  #setOrthographicFrustum(camera: THREE.OrthographicCamera, halfHeight: number): void {
+    const halfWidth = (halfHeight * this.#config.width) / this.#config.height;
+    camera.left = -halfWidth;
+    camera.right = halfWidth;
+    camera.top = halfHeight;
+    camera.bottom = -halfHeight;
+    camera.updateProjectionMatrix();
+  }
+
+  /**
+   * Retrieves the current camera configuration.
+   * Field of view, near and far planes are read from the underlying camera.
+   *
+   * @returns {cameraConfig} The current camera configuration.
+   */
+  getConfig = (): cameraConfig => {
+    if (this.camera instanceof THREE.PerspectiveCamera) {
+      return { ...this.#config, fov: this.camera.fov, near: this.camera.near, far: this.camera.far };
+    }
+    if (this.camera instanceof THREE.OrthographicCamera) {
+      return { ...this.#config, near: this.camera.near, far: this.camera.far };
+    }
+    return { ...this.#config };
+  };
+
+  /**
+   * Applies field of view, near and far planes of the given configuration to the current camera.
+   * The camera type and the window size are not changed.
+   *
+   * @param {cameraConfig} cf - The camera configuration to apply.
+   * @returns {void}
+   * @throws {Error} Throws an error if the provided camera configuration is invalid.
+   */
+  applyConfig = (cf: cameraConfig): void => {
+    const result = cameraConfigSchema.safeParse(cf);
+    if (!result.success) {
+      throw new Error('Invalid camera configuration');
+    }
+    const config = result.data;
+    if (this.camera instanceof THREE.PerspectiveCamera || this.camera instanceof THREE.OrthographicCamera) {
+      if (this.camera instanceof THREE.PerspectiveCamera && config.fov !== undefined) {
+        this.camera.fov = config.fov;
+      }
+      this.camera.near = config.near ?? this.camera.near;
+      this.camera.far = config.far ?? this.camera.far;
+      this.camera.updateProjectionMatrix();
     }
   };
 
@@ -144,9 +257,7 @@ export class Camera {
    * @returns {void}
    */
   setPosition = (newPosition: THREE.Vector3): void => {
-    if (this.camera instanceof THREE.PerspectiveCamera) {
-      this.camera.position.set(newPosition.x, newPosition.y, newPosition.z);
-    }
+    this.camera?.position.set(newPosition.x, newPosition.y, newPosition.z);
   };
 
   /**
@@ -154,9 +265,6 @@ export class Camera {
    * @returns {THREE.Vector3} The position of the camera as a THREE.Vector3 object.
    */
   getPosition = (): THREE.Vector3 => {
-    if (this.camera instanceof THREE.PerspectiveCamera) {
-      return this.camera.position.clone();
-    }
-    return new THREE.Vector3();
+    return this.camera?.position.clone() ?? new THREE.Vector3();
   };
 }
@@ -1,8 +1,53 @@
 // Importing necessary dependencies and functions
+import { Observable, Subscription } from 'rxjs';
 import * as THREE from 'three';
 // import { Camera, cameraTypeEnum } from './camera';
-import { construct, constructReturn } from './construct';
+import { construct, constructReturn, prepareConstruct, preparedConstructReturn } from './construct';
 // import { Light, lightTypeEnum } from './light';
+import { modelLoader } from './loader';
+import { sceneDocumentVersion } from './scene-document';
+
+// jeasings is only published as ES module; no tween runs in these tests
+jest.mock('jeasings', () => ({
+  __esModule: true,
+  default: { getLength: (): number => 0, update: jest.fn(), removeJEasing: jest.fn() },
+}));
+
+/**
+ * Creates a stand-in for an HTML element that only records the calls of the controls.
+ *
+ * @returns {HTMLElement} The element.
+ */
+const mockElement = (): HTMLElement =>
+  ({
+    style: {},
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+    appendChild: jest.fn(),
+    remove: jest.fn(),
+    ownerDocument: { addEventListener: jest.fn(), removeEventListener: jest.fn() },
+  }) as unknown as HTMLElement;
+
+// there is no WebGL context in the test environment
+jest.mock('three', () => {
+  const actual = jest.requireActual<typeof THREE>('three');
+  return {
+    ...actual,
+    WebGLRenderer: jest.fn(() => ({
+      domElement: mockElement(),
+      shadowMap: { enabled: false, type: actual.PCFShadowMap },
+      setSize: jest.fn(),
+      clear: jest.fn(),
+      clearDepth: jest.fn(),
+      clearStencil: jest.fn(),
+      render: jest.fn(),
+      dispose: jest.fn(),
+      forceContextLoss: jest.fn(),
+    })),
+  };
+});
+
+jest.mock('./loader', () => ({ ...jest.requireActual<object>('./loader'), modelLoader: jest.fn() }));
 
 // Start defining Jest tests
 describe('construct function tests', () => {
@@ -54,3 +99,95 @@ describe('construct function tests', () => {
     }
   });
 });
+
+describe('prepared construct', () => {
+  let prepared: preparedConstructReturn;
+  let canvas: HTMLCanvasElement;
+
+  beforeAll(() => {
+    // the transform controls compare their element with the document, which the node environment lacks
+    Object.defineProperty(globalThis, 'document', { value: undefined, configurable: true });
+  });
+
+  afterAll(() => {
+    Reflect.deleteProperty(globalThis, 'document');
+  });
+
+  beforeEach(() => {
+    canvas = { ...mockElement(), width: 600, height: 800 } as unknown as HTMLCanvasElement;
+    const result = prepareConstruct(construct(600, 800), canvas);
+    if (!result) {
+      throw new Error('Expected a prepared construct');
+    }
+    prepared = result;
+  });
+
+  afterEach(() => {
+    jest.mocked(modelLoader).mockReset();
+  });
+
+  it('should keep the scene when a content of a scene document fails to load', async () => {
+    const old = new THREE.Group();
+    prepared.addContent('old', old);
+    const loaded = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial());
+    const dispose = jest.spyOn(loaded.geometry, 'dispose');
+    jest
+      .mocked(modelLoader)
+      .mockResolvedValueOnce({ group: new THREE.Group().add(loaded), animations: [], format: 0 })
+      .mockRejectedValueOnce(new Error('Failed to fetch'));
+    const document = {
+      ...prepared.exportSceneDocument(),
+      version: sceneDocumentVersion,
+      lights: [],
+      content: [
+        { key: 'first', path: 'first.glb', position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] },
+        { key: 'second', path: 'second.glb', position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] },
+      ],
+    };
+
+    await expect(prepared.importSceneDocument(document)).rejects.toThrow('Failed to fetch');
+
+    expect(prepared.getContent('old')).toBe(old);
+    expect(prepared.getContent('first')).toBeUndefined();
+    expect(prepared.basicControls.lights.has('standard')).toBe(true);
+    expect(dispose).toHaveBeenCalled();
+  });
+
+  it('should stop the animation loop, close its subscriptions and remove the canvas on dispose', () => {
+    const requestAnimationFrame = jest.fn(() => 7);
+    const cancelAnimationFrame = jest.fn();
+    Object.assign(globalThis, { requestAnimationFrame, cancelAnimationFrame });
+    const appendChild = jest.spyOn(canvas, 'appendChild');
+    const subscribe = jest.spyOn(Observable.prototype, 'subscribe');
+    const disposed = prepareConstruct(construct(600, 800), canvas);
+    const subscriptions = subscribe.mock.results.map((result) => result.value as Subscription);
+    subscribe.mockRestore();
+    if (!disposed) {
+      throw new Error('Expected a prepared construct');
+    }
+    const { renderer } = disposed;
+    const removeCanvas = jest.spyOn(renderer.domElement, 'remove');
+    const disposeRenderer = jest.spyOn(renderer, 'dispose');
+    const content = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial());
+    const disposeGeometry = jest.spyOn(content.geometry, 'dispose');
+    disposed.addContent('box', new THREE.Group().add(content));
+
+    try {
+      disposed.animate(jest.fn());
+      disposed.dispose();
+    } finally {
+      Reflect.deleteProperty(globalThis, 'requestAnimationFrame');
+      Reflect.deleteProperty(globalThis, 'cancelAnimationFrame');
+    }
+
+    expect(requestAnimationFrame).toHaveBeenCalled();
+    expect(cancelAnimationFrame).toHaveBeenCalledWith(7);
+    expect(subscriptions.length).toBeGreaterThan(0);
+    expect(subscriptions.filter((subscription) => !subscription.closed)).toEqual([]);
+    expect(disposeGeometry).toHaveBeenCalled();
+    expect(disposed.basicControls.lights.size).toBe(0);
+    expect(appendChild).toHaveBeenCalledWith(renderer.domElement);
+    expect(removeCanvas).toHaveBeenCalled();
+    expect(disposeRenderer).toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,40 @@
 import JEASINGS from 'jeasings';
 import * as THREE from 'three';
-import { GLTF, OrbitControls } from 'three-stdlib';
+import { OrbitControls } from 'three-stdlib';
+import { animationMixerEntry } from './animation';
 import { Camera, cameraTypeEnum } from './camera';
+import { cameraBookmarksReturn, createCameraBookmarks } from './camera-bookmarks';
+import { disposeObject } from './dispose';
+import { createEnvironment, environmentReturn } from './environment';
+import { calculateFraming, calculateFramingBox, framingOptions } from './framing';
+import { createHighlight, highlightReturn } from './highlight';
+import { canvasToBlob, canvasToDataUrl, imageExportOptions, renderImage } from './image-export';
 import { createLightHelperReturn, createLightReturn, Light, lightTypeEnum } from './light';
-import { glbLoader } from './loader';
+import { createLightingRigs, lightingRigsReturn } from './lighting-rig';
+import { modelLoader, modelLoaderResult } from './loader';
+import { createMeasurements, measurementsReturn } from './measurement';
+import { releaseModelDecoderRenderer, setModelDecoderRenderer } from './model-decoders';
+import { createRenderLoop, renderModeEnum } from './render-loop';
+import {
+  applyMaterialConfigs,
+  findMaterialConfigs,
+  CameraBookmark,
+  parseSceneDocument,
+  SceneDocument,
+  sceneDocumentVersion,
+  toVector3Array,
+} from './scene-document';
+import { createSelection, markAsHelper, selectionReturn } from './selection';
+import {
+  applyShadowFlags,
+  createShadows,
+  defaultShadowFlags,
+  shadowFlags,
+  shadowQualityEnum,
+  shadowsReturn,
+} from './shadow';
 import { interfaceAnalyseResult, zeroPosition } from './share';
+import { createTransformGizmo, transformGizmoReturn } from './transform-gizmo';
 
 /**
  * Construct a scene, camera, light, and renderer
@@ -37,12 +67,67 @@ export interface preparedConstructReturn {
   addConstructedScene: (key: string, scene: preparedSceneReturn) => void;
   deleteConstructedScene: (key: string) => void;
   getConstructedScene: (key: string) => preparedSceneReturn | undefined;
+  getConstructedSceneKeys: () => string[];
   switchAllConstructedScenes: (on: boolean) => void;
   resetConstructedScene: () => void;
+  dispose: () => void;
+  invalidate: () => void;
+  setRenderMode: (mode: renderModeEnum) => void;
+  getRenderMode: () => renderModeEnum;
+  exportSceneDocument: () => SceneDocument;
+  importSceneDocument: (
+    document: unknown,
+    resolveConstructedScene?: (key: string) => Promise<preparedSceneReturn | undefined>,
+  ) => Promise<string[]>;
+  exportImage: (options: imageExportOptions) => Promise<Blob>;
+  exportImageDataUrl: (options: imageExportOptions) => string;
+  addAnimationMixer: (key: string, entry: animationMixerEntry) => void;
+  deleteAnimationMixer: (key: string) => void;
+  selection: selectionReturn;
+  highlight: highlightReturn;
+  transformGizmo: transformGizmoReturn;
+  measurements: measurementsReturn;
+  environment: environmentReturn;
+  shadows: shadowsReturn;
+  lightingRigs: lightingRigsReturn;
+  setContentShadows: (key: string, flags: shadowFlags) => boolean;
+  selectLight: (key: string) => boolean;
+  getCameraView: () => cameraView;
+  animateCamera: (view: cameraView, duration?: number) => void;
+  rollCamera: (angle: number, duration?: number) => void;
+  homeCamera: (duration?: number) => void;
+  bookmarks: cameraBookmarksReturn;
+  saveBookmark: (name?: string) => CameraBookmark;
+  goToBookmark: (name: string, duration?: number) => boolean;
+  setProjection: (type: cameraTypeEnum) => void;
+  getProjection: () => cameraTypeEnum;
+  fitAll: (options?: framingOptions, duration?: number) => boolean;
+  fitSelection: (options?: framingOptions, duration?: number) => boolean;
+  fitContent: (key: string, options?: framingOptions, duration?: number) => boolean;
 
   addGlb: (name: string, contentBase64: string | undefined, path: string) => void;
 }
 
+/**
+ * Options for preparing a construct
+ */
+export interface prepareConstructOptions {
+  renderMode?: renderModeEnum;
+  shadowQuality?: shadowQualityEnum;
+}
+
+/**
+ * A camera view given by the camera position, the OrbitControls target, the up direction of the camera,
+ * the field of view of a perspective camera and the zoom of an orthographic camera
+ */
+export interface cameraView {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  up?: THREE.Vector3;
+  fov?: number;
+  zoom?: number;
+}
+
 /**
  * Configuration for OrbitControls
  */
@@ -66,6 +151,7 @@ export interface preparedSceneReturn {
   visible: (vis: boolean) => void;
   reCalculateDimensions: (dimension: interfaceAnalyseResult) => void;
   boundingBox: interfaceAnalyseResult | undefined;
+  dispose: () => void;
 }
 
 /**
@@ -115,42 +201,181 @@ export const construct = (width: number, height: number): constructReturn => {
  *
  * @param {constructReturn} construct - An object containing the 3D scene, camera, lights, and other configurations.
  * @param {HTMLCanvasElement | undefined} canvasElement - The HTML canvas element where the 3D scene will be rendered.
+ * @param {prepareConstructOptions} options - Optional settings such as the render mode of the animation loop.
  * @returns {preparedConstructReturn | undefined} Returns an object containing the renderer, controls, and utility methods for managing the scene, or undefined if no canvas element is provided.
  */
 export const prepareConstruct = (
   construct: constructReturn,
   canvasElement: HTMLCanvasElement | undefined,
+  options: prepareConstructOptions = {},
 ): preparedConstructReturn | undefined => {
   if (!canvasElement) {
     return undefined;
   }
   const renderGroup = new THREE.Group();
   const constructedScenes: Map<string, preparedSceneReturn> = new Map<string, preparedSceneReturn>();
+  // sources of contents loaded from model files and keys of contents derived from them (e.g. view spheres)
+  const contentSources = new Map<string, { path: string; data?: string }>();
+  const derivedContentKeys = new Set<string>();
+  const animationMixers = new Map<string, animationMixerEntry>();
+  const clock = new THREE.Clock();
 
-  const renderer = new THREE.WebGLRenderer();
+  // the stencil buffer is used by the silhouette highlight
+  const renderer = new THREE.WebGLRenderer({ stencil: true });
   let controls: OrbitControls | undefined;
+  let animationFrameId: number | undefined;
+  const renderLoop = createRenderLoop(JEASINGS, animationMixers, () => controls, options.renderMode);
+  const { invalidate, setRenderMode, getRenderMode } = renderLoop;
+  let cameraTween: InstanceType<typeof JEASINGS.JEasing> | undefined;
   renderer.setSize(canvasElement.width, canvasElement.height);
+  // KTX2 textures are transcoded into a GPU format supported by this renderer
+  setModelDecoderRenderer(renderer);
+
+  const selection = createSelection(invalidate);
+  const bookmarks = createCameraBookmarks();
+  const highlight = createHighlight(invalidate);
+  const transformGizmo = createTransformGizmo(
+    construct.camera.camera ?? new THREE.PerspectiveCamera(),
+    renderer.domElement,
+    invalidate,
+  );
+  construct.scene.add(transformGizmo.object);
+  const measurements = createMeasurements(invalidate);
+  construct.scene.add(measurements.group);
+  const environment = createEnvironment(renderer, construct.scene, invalidate);
+
+  /**
+   * Determines what the transform gizmo is attached to for a selected object: the `Light` owning a
+   * selected light, or the content group or constructed scene containing a selected mesh.
+   *
+   * @param {THREE.Object3D} object - The selected object.
+   * @returns {THREE.Object3D | Light} The object or light to transform.
+   */
+  const findTransformTarget = (object: THREE.Object3D): THREE.Object3D | Light => {
+    for (const light of construct.lights.values()) {
+      if (light.getLight() === object) {
+        return light;
+      }
+    }
+    let root = object;
+    while (root.parent && root.parent !== renderGroup) {
+      root = root.parent;
+    }
+    return root.parent === renderGroup ? root : object;
+  };
+
+  const selectionSubscription = selection.selectionChanged$.subscribe((change) => {
+    highlight.setSelected(change.selected);
+    const last = change.selected.at(-1);
+    if (last) {
+      transformGizmo.attach(findTransformTarget(last));
+    } else {
+      transformGizmo.detach();
+    }
+  });
+
+  /**
+   * Removes objects from the selection that are no longer part of the scene.
+   *
+   * @returns {void}
+   */
+  const pruneSelection = (): void => {
+    selection.retain((object) => {
+      let root = object;
+      while (root.parent) {
+        root = root.parent;
+      }
+      return root === construct.scene;
+    });
+    highlight.setHover(undefined);
+  };
 
   construct.scene.add(renderGroup);
 
-  // renderer.shadowMap.enabled = true;
-  // renderer.shadowMap.type = THREE.PCFShadowMap;
+  const shadows = createShadows(
+    renderer,
+    construct.lights,
+    renderGroup,
+    options.shadowQuality ?? shadowQualityEnum.MEDIUM,
+    invalidate,
+  );
 
-  // Add OrbitControls if the camera is a PerspectiveCamera
-  if (construct.camera.camera instanceof THREE.PerspectiveCamera) {
+  // Add OrbitControls if the camera is a PerspectiveCamera or an OrthographicCamera
+  if (
+    construct.camera.camera instanceof THREE.PerspectiveCamera ||
+    construct.camera.camera instanceof THREE.OrthographicCamera
+  ) {
     controls = new OrbitControls(construct.camera.camera, renderer.domElement);
     controls.target.set(0, 0, 0);
     controls.enabled = false;
     controls.enableZoom = false;
     controls.enablePan = false;
     controls.enableRotate = false;
+    controls.addEventListener('change', invalidate);
 
     controls.saveState();
   }
+  // the OrbitControls orbit around the up direction of the camera they were created with
+  const controlsUp = construct.camera.camera?.up.clone() ?? new THREE.Vector3(0, 1, 0);
+
+  /**
+   * Recreates the OrbitControls for the current camera if the camera or its up direction changed since they
+   * were created, e.g. after a projection switch or a roll. Settings, target and saved state are kept.
+   *
+   * @returns {void}
+   */
+  const rebindControls = (): void => {
+    const camera = construct.camera.camera;
+    if (
+      !controls ||
+      !(camera instanceof THREE.PerspectiveCamera || camera instanceof THREE.OrthographicCamera) ||
+      (camera === controls.object && camera.up.equals(controlsUp))
+    ) {
+      return;
+    }
+    const previous = controls;
+    previous.removeEventListener('change', invalidate);
+    previous.dispose();
+    controls = new OrbitControls(camera, renderer.domElement);
+    controls.enabled = previous.enabled;
+    controls.enableZoom = previous.enableZoom;
+    controls.enablePan = previous.enablePan;
+    controls.enableRotate = previous.enableRotate;
+    controls.enableDamping = previous.enableDamping;
+    controls.dampingFactor = previous.dampingFactor;
+    controls.autoRotate = previous.autoRotate;
+    controls.autoRotateSpeed = previous.autoRotateSpeed;
+    controls.minDistance = previous.minDistance;
+    controls.maxDistance = previous.maxDistance;
+    controls.minZoom = previous.minZoom;
+    controls.maxZoom = previous.maxZoom;
+    controls.target.copy(previous.target);
+    controls.target0.copy(previous.target0);
+    controls.position0.copy(previous.position0);
+    controls.zoom0 = previous.zoom0;
+    controls.addEventListener('change', invalidate);
+    controlsUp.copy(camera.up);
+    controls.update();
+  };
+
+  // orbiting is paused while the transform gizmo is dragged
+  let orbitEnabled = false;
+  const draggingSubscription = transformGizmo.draggingChanged$.subscribe((dragging) => {
+    if (!controls) {
+      return;
+    }
+    if (dragging) {
+      orbitEnabled = controls.enabled;
+      controls.enabled = false;
+    } else {
+      controls.enabled = orbitEnabled;
+    }
+  });
   // Append the renderer to the canvas element
   canvasElement.appendChild(renderer.domElement);
   // Add the standard light to the scene
   for (const l of construct.lights.values()) {
+    l.setOnChange(invalidate);
     const light = l.getLight();
     if (light) {
       construct.scene.add(light);
@@ -169,6 +394,18 @@ export const prepareConstruct = (
     }
   };
 
+  /**
+   * Stops a running camera animation at its current state.
+   *
+   * @returns {void}
+   */
+  const stopCameraTween = (): void => {
+    if (cameraTween) {
+      JEASINGS.removeJEasing(cameraTween);
+      cameraTween = undefined;
+    }
+  };
+
   /**
    * Resets the constructed scene to its initial state.
    * This function performs the following actions:
@@ -182,9 +419,13 @@ export const prepareConstruct = (
    */
   const resetConstructedScene = (): void => {
     console.log('resetConstructedScene -- ');
+    stopCameraTween();
+    construct.camera.camera?.up.set(0, 1, 0);
+    rebindControls();
     controls?.reset();
     construct.scene.rotation.set(0, 0, 0);
     renderGroup.rotation.set(0, 0, 0);
+    invalidate();
   };
 
   resetConstructedScene();
@@ -197,8 +438,12 @@ export const prepareConstruct = (
    * @returns {void}
    */
   const addConstructedScene = (key: string, scene: preparedSceneReturn): void => {
+    if (scene.contentGroup) {
+      applyShadowFlags(scene.contentGroup, defaultShadowFlags);
+    }
     addToRenderGroup(scene.contentGroup);
     constructedScenes.set(key, scene);
+    invalidate();
   };
 
   /**
@@ -212,7 +457,16 @@ export const prepareConstruct = (
   };
 
   /**
-   * Deletes a constructed scene from the collection of constructed scenes.
+   * Lists the keys of the constructed scenes in the order they were added.
+   *
+   * @returns {string[]} The keys of the constructed scenes.
+   */
+  const getConstructedSceneKeys = (): string[] => {
+    return [...constructedScenes.keys()];
+  };
+
+  /**
+   * Deletes a constructed scene from the collection of constructed scenes and releases its resources.
    *
    * @param {string} key - The unique identifier for the constructed scene to be removed.
    * @returns {void}
@@ -220,7 +474,11 @@ export const prepareConstruct = (
   const deleteConstructedScene = (key: string): void => {
     const scene = constructedScenes.get(key);
     removeFromRenderGroup(scene?.contentGroup);
+    // restores the original materials before they are disposed
+    pruneSelection();
+    scene?.dispose();
     constructedScenes.delete(key);
+    invalidate();
   };
 
   /**
@@ -234,34 +492,39 @@ export const prepareConstruct = (
     for (const l of constructedScenes.values()) {
       l.visible(on);
     }
+    invalidate();
   };
 
   /**
-   * A function that continuously animates a given callback function (`pfkt`)
+   * A function that animates a given callback function (`pfkt`)
    * and renders a 3D scene using a camera and renderer if available.
    *
    * The animation loop is achieved using `requestAnimationFrame` to ensure smooth rendering
    * synchronized with the display refresh rate. The provided callback function is executed
-   * within the loop, allowing custom logic to be performed during each frame.
+   * within the loop, allowing custom logic to be performed during each rendered frame.
+   * Depending on the render mode, a frame is rendered continuously or only after an invalidation.
    *
    * The rendering process uses a `construct` object containing a `scene` and a `camera` object.
    * If the camera is defined, the renderer will render the scene from the camera's perspective.
    *
-   * @param {Function} pfkt - A callback function that is executed during each frame of the animation.
+   * @param {Function} pfkt - A callback function that is executed during each rendered frame of the animation.
    * @returns {void} This function does not return any value.
    */
   const animate = (pfkt: (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) => void): void => {
     const anim = (): void => {
       // Request the next frame of the animation loop
-      requestAnimationFrame(anim);
-      JEASINGS.update();
+      animationFrameId = requestAnimationFrame(anim);
+      if (!renderLoop.updateFrame(clock.getDelta())) {
+        return;
+      }
+      shadows.update();
 
       // Render the scene using the camera
       if (construct.camera.camera) {
         renderer.autoClear = false;
         renderer.clear();
-        controls?.update();
         renderer.render(construct.scene, construct.camera.camera);
+        highlight.render(renderer, construct.camera.camera);
         renderer.clearDepth();
 
         for (const l of constructedScenes.values()) {
@@ -292,6 +555,7 @@ export const prepareConstruct = (
       controls.minDistance = orbitConfig.minDistance ?? 0;
       controls.maxDistance = orbitConfig.maxDistance ?? Infinity;
       controls.saveState();
+      invalidate();
     }
   };
 
@@ -306,6 +570,7 @@ export const prepareConstruct = (
     for (const l of construct.lights.values()) {
       l.switch(on, onHelper);
     }
+    invalidate();
   };
 
   /**
@@ -316,23 +581,23 @@ export const prepareConstruct = (
    *
    * This function performs the following:
    * 1. Associates the given light with the specified key in the construct's lights map.
-   * 2. Switches the light off with the initial `switch` method.
-   * 3. Adds the light source to the construct's scene using its `getLight` method.
-   *    If `getLight` returns `null`, a default ambient light is added with a predefined color and intensity.
+   * 2. Applies the current shadow quality to the light and renders its changes.
+   * 3. Adds the light source and its helper to the construct's scene. The helper is removed again
+   *    by `deleteLight`, which disposes the light.
    */
   const addLight = (key: string, light: Light): void => {
     construct.lights.set(key, light);
-    // light.switch(false, false);
+    light.setOnChange(invalidate);
+    shadows.configureLight(light);
     const helper: createLightHelperReturn = light.getHelper();
     const lightObj: createLightReturn = light.getLight();
-
-    // if (helper) construct.scene.add(helper);
     if (lightObj) {
-      construct.scene.add(
-        lightObj, // light.getLight()  // ?? new THREE.AmbientLight(defaultLightColor as number, defaultLightIntensity as number),
-      );
+      construct.scene.add(lightObj);
+    }
+    if (helper) {
+      construct.scene.add(helper);
     }
-    console.log('addLight', light, helper, construct.scene);
+    invalidate();
   };
 
   /**
@@ -340,8 +605,7 @@ export const prepareConstruct = (
    *
    * This function removes a light from the `construct.lights` map using the provided key.
    * If the light exists and has a valid THREE.Light instance, it is also removed from the
-   * `construct.scene`. The function ensures that the light is properly removed from both
-   * the data structure and the 3D scene to maintain consistency.
+   * `construct.scene` and its resources (including the helper) are released.
    *
    * @param {string} key - The unique identifier for the light object to be removed.
    * @returns {void}
@@ -351,6 +615,9 @@ export const prepareConstruct = (
     if (light?.getLight()) {
       construct.lights.delete(key);
       construct.scene.remove(light.getLight() as THREE.Light);
+      pruneSelection();
+      light.dispose();
+      invalidate();
     }
   };
 
@@ -364,6 +631,23 @@ export const prepareConstruct = (
     return construct.lights.get(key);
   };
 
+  const lightingRigs = createLightingRigs(construct.lights, addLight, deleteLight, invalidate);
+
+  /**
+   * Selects a light, so that it can be moved with the transform gizmo.
+   *
+   * @param {string} key - The unique identifier of the light.
+   * @returns {boolean} `true` if the light exists.
+   */
+  const selectLight = (key: string): boolean => {
+    const light = construct.lights.get(key)?.getLight();
+    if (!light) {
+      return false;
+    }
+    selection.select([light]);
+    return true;
+  };
+
   /**
    * Adds a content group to the construct's scene and initializes its state.
    *
@@ -374,7 +658,9 @@ export const prepareConstruct = (
   const addContent = (key: string, content: THREE.Group): void => {
     console.log('addContent', key, content);
     construct.content.set(key, content);
+    applyShadowFlags(content, defaultShadowFlags);
     renderGroup.add(content);
+    invalidate();
   };
 
   /**
@@ -387,13 +673,29 @@ export const prepareConstruct = (
     return construct.content.get(key);
   };
 
+  /**
+   * Sets whether the meshes of a content or a constructed scene cast and receive shadows.
+   *
+   * @param {string} key - The key of the content or the constructed scene.
+   * @param {shadowFlags} flags - Whether the meshes cast and receive shadows.
+   * @returns {boolean} `true` if a content or constructed scene with the key exists.
+   */
+  const setContentShadows = (key: string, flags: shadowFlags): boolean => {
+    const group = construct.content.get(key) ?? constructedScenes.get(key)?.contentGroup;
+    if (!group) {
+      return false;
+    }
+    applyShadowFlags(group, flags);
+    invalidate();
+    return true;
+  };
+
   /**
    * Deletes a content group from the scene and its associated collection.
    *
    * This function removes a content group from the `construct.content` map using the provided key.
    * If the content group exists and has a valid THREE.Group instance, it is also removed from the
-   * `construct.scene`. The function ensures that the content group is properly removed from both
-   * the data structure and the 3D scene to maintain consistency.
+   * `construct.scene` and its geometries, materials and textures are disposed.
    *
    * @param {string} key - The unique identifier for the content group to be removed.
    * @returns {void}
@@ -402,7 +704,12 @@ export const prepareConstruct = (
     const content = construct.content.get(key);
     if (content) {
       construct.content.delete(key);
+      contentSources.delete(key);
+      derivedContentKeys.delete(key);
       renderGroup.remove(content);
+      pruneSelection();
+      disposeObject(content);
+      invalidate();
     }
   };
 
@@ -419,6 +726,88 @@ export const prepareConstruct = (
       l.updateCameraWindowSize(newWidth, newHeight);
     }
     renderer.setSize(newWidth, newHeight);
+    invalidate();
+  };
+
+  /**
+   * Asynchronously loads a model (GLB or any other format supported by `modelLoader`) into a content group
+   * without adding it to the scene.
+   *
+   * @param {string} name - The name of the content.
+   * @param {string} contentBase64 - The base64-encoded model content to be loaded.
+   * @param {string} path - The path to the model file to be loaded, or the file name of the base64 content.
+   * @returns {Promise<THREE.Group>} A promise that resolves with the content group.
+   */
+  const loadContentGroup = async (
+    name: string,
+    contentBase64: string | undefined,
+    path: string,
+  ): Promise<THREE.Group> => {
+    const input = contentBase64 ? { base64: contentBase64, fileName: path } : { url: path };
+    return modelLoader(input).then((model: modelLoaderResult) => {
+      const contentGroup = new THREE.Group();
+      model.group.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          const m = child as THREE.Mesh;
+          m.material = new THREE.MeshStandardMaterial({
+            color: 0x01a1a1,
+            roughness: 5,
+            metalness: 0.2,
+          });
+        }
+      });
+
+      contentGroup.add(model.group);
+      contentGroup.name = name;
+      contentGroup.animations = model.animations;
+      return contentGroup;
+    });
+  };
+
+  /**
+   * Adds a loaded content group to the scene together with its view sphere. The path and the base64 content
+   * are remembered so that the content can be restored from a scene document.
+   *
+   * @param {string} name - The name of the content.
+   * @param {THREE.Group} contentGroup - The loaded content group.
+   * @param {string} contentBase64 - The base64-encoded model content the group was loaded from.
+   * @param {string} path - The path to the model file, or the file name of the base64 content.
+   * @returns {void}
+   */
+  const addLoadedContent = (
+    name: string,
+    contentGroup: THREE.Group,
+    contentBase64: string | undefined,
+    path: string,
+  ): void => {
+    addContent(name, contentGroup);
+    if (path) {
+      contentSources.set(name, contentBase64 ? { path, data: contentBase64 } : { path });
+    }
+
+    // Add a view sphere to the content
+    const viewSphere = createViewSphere(contentGroup);
+    viewSphere.visible = false;
+    addContent(`${name}-view-sphere`, viewSphere);
+    derivedContentKeys.add(`${name}-view-sphere`);
+  };
+
+  /**
+   * Asynchronously loads a model (GLB or any other format supported by `modelLoader`) and adds it to the scene.
+   *
+   * @param {string} name - The name of the content to be added.
+   * @param {string} contentBase64 - The base64-encoded model content to be loaded.
+   * @param {string} path - The path to the model file to be loaded, or the file name of the base64 content.
+   * @returns {Promise<THREE.Group>} A promise that resolves with the added content group.
+   */
+  const loadGlbContent = async (
+    name: string,
+    contentBase64: string | undefined,
+    path: string,
+  ): Promise<THREE.Group> => {
+    const contentGroup = await loadContentGroup(name, contentBase64, path);
+    addLoadedContent(name, contentGroup, contentBase64, path);
+    return contentGroup;
   };
 
   /**
@@ -429,29 +818,8 @@ export const prepareConstruct = (
    * @param {string} path - The path to the GLB file to be loaded.
    */
   const addGlb = (name: string, contentBase64: string | undefined, path: string): void => {
-    void glbLoader(contentBase64, path).then((gltf: GLTF | undefined) => {
-      if (gltf?.scene) {
-        const contentGroup = new THREE.Group();
-        gltf.scene.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
-            const m = child as THREE.Mesh;
-            m.material = new THREE.MeshStandardMaterial({
-              color: 0x01a1a1,
-              roughness: 5,
-              metalness: 0.2,
-            });
-          }
-        });
-
-        contentGroup.add(gltf.scene);
-        contentGroup.name = name;
-        addContent(name, contentGroup);
-
-        // Add a view sphere to the content
-        const viewSphere = createViewSphere(contentGroup);
-        viewSphere.visible = false;
-        addContent(`${name}-view-sphere`, viewSphere);
-      }
+    loadGlbContent(name, contentBase64, path).catch((error: unknown) => {
+      console.error('addGlb', name, error);
     });
   };
 
@@ -472,14 +840,551 @@ export const prepareConstruct = (
     const edges = new THREE.EdgesGeometry(geometry);
     const material = new THREE.LineBasicMaterial({ color: 0xffff00 });
     const lines = new THREE.LineSegments(edges, material);
-    return new THREE.Group().add(lines);
+    return markAsHelper(new THREE.Group().add(lines));
+  };
+
+  /**
+   * Captures the current state of the studio as a versioned scene document.
+   *
+   * The document contains the camera configuration, the OrbitControls target and camera position,
+   * the camera bookmarks, the custom lighting rigs, all lights with their configuration, the contents with their model paths (and the
+   * embedded model for contents loaded from base64), transforms and the materials of every mesh slot, and the
+   * keys of the constructed scenes. Highlighted meshes are exported with their original materials.
+   * Contents derived from other contents (e.g. view spheres) are not exported because they are recreated
+   * when their source is loaded.
+   *
+   * @returns {SceneDocument} A JSON serializable scene document.
+   */
+  const exportSceneDocument = (): SceneDocument => {
+    const position = construct.camera.getPosition();
+    return {
+      version: sceneDocumentVersion,
+      camera: construct.camera.getConfig(),
+      controls: {
+        target: toVector3Array(controls?.target ?? new THREE.Vector3()),
+        position: toVector3Array(position),
+      },
+      lights: [...construct.lights.entries()].map(([key, light]) => ({
+        key,
+        on: light.isOn(),
+        config: { ...light.getConfig() },
+      })),
+      content: [...construct.content.entries()]
+        .filter(([key]) => !derivedContentKeys.has(key))
+        .map(([key, content]) => ({
+          key,
+          path: contentSources.get(key)?.path,
+          data: contentSources.get(key)?.data,
+          position: toVector3Array(content.position),
+          rotation: toVector3Array(content.rotation),
+          scale: toVector3Array(content.scale),
+          materials: findMaterialConfigs(content, highlight.getOriginalMaterial),
+        })),
+      constructedScenes: [...constructedScenes.entries()].map(([key, scene]) => ({
+        key,
+        visible: scene.contentGroup?.visible ?? true,
+        materials: findMaterialConfigs(scene.contentGroup, highlight.getOriginalMaterial),
+      })),
+      bookmarks: bookmarks.export(),
+      lightingRigs: lightingRigs.export(),
+    };
+  };
+
+  /**
+   * Restores the studio from a scene document.
+   *
+   * The contents are reloaded from their model paths or their embedded data and the missing constructed scenes
+   * are created through the optional resolver first; contents without path are skipped. Only when all of them
+   * have been loaded, the selection is cleared and all lights, camera bookmarks, custom lighting rigs and
+   * contents are replaced by the ones of the document. If a content fails to load, the studio is left unchanged.
+   * The visibility and materials of the constructed scenes are restored afterwards. Materials that differ from
+   * the loaded ones are replaced and disposed.
+   *
+   * @param {unknown} document - The scene document, e.g. the result of `JSON.parse`.
+   * @param {Function} resolveConstructedScene - Optional factory for constructed scenes that do not exist yet.
+   * @returns {Promise<string[]>} A promise that resolves with the keys of the skipped contents when all contents are loaded.
+   * @throws {Error} Throws an error if the document is not a valid scene document, contains a lighting rig
+   * with the name of a preset, or a content or constructed scene cannot be loaded.
+   */
+  const importSceneDocument = async (
+    document: unknown,
+    resolveConstructedScene?: (key: string) => Promise<preparedSceneReturn | undefined>,
+  ): Promise<string[]> => {
+    const doc = parseSceneDocument(document);
+    const skipped = doc.content.filter((entry) => !entry.path).map((entry) => entry.key);
+
+    // everything is loaded before the current state is touched, so that a failing load keeps the studio intact
+    const sources = doc.content.flatMap((entry) => (entry.path ? [{ entry, path: entry.path }] : []));
+    const loadedContents = await Promise.allSettled(
+      sources.map(async ({ entry, path }) => ({
+        entry,
+        path,
+        group: await loadContentGroup(entry.key, entry.data, path),
+      })),
+    );
+    const resolvedScenes = await Promise.allSettled(
+      doc.constructedScenes.map(async (entry) => {
+        const existing = constructedScenes.get(entry.key);
+        return { entry, existing, scene: existing ?? (await resolveConstructedScene?.(entry.key)) };
+      }),
+    );
+    const failure = [...loadedContents, ...resolvedScenes].find((result) => result.status === 'rejected');
+    if (failure) {
+      for (const result of loadedContents) {
+        if (result.status === 'fulfilled') {
+          disposeObject(result.value.group);
+        }
+      }
+      for (const result of resolvedScenes) {
+        if (result.status === 'fulfilled' && !result.value.existing) {
+          result.value.scene?.dispose();
+        }
+      }
+      throw failure.reason;
+    }
+
+    // the highlights are removed so that the original materials are compared and replaced
+    selection.clear();
+    // a running crossfade would otherwise remove imported lights with the same keys
+    lightingRigs.finishCrossfade();
+    // rigs with the name of a preset are rejected before anything else is replaced
+    lightingRigs.import(doc.lightingRigs ?? []);
+    for (const key of [...construct.lights.keys()]) {
+      deleteLight(key);
+    }
+    for (const entry of doc.lights) {
+      const light = new Light({ ...entry.config });
+      addLight(entry.key, light);
+      light.switch(entry.on, false);
+    }
+
+    setProjection(doc.camera.type);
+    construct.camera.applyConfig(doc.camera);
+    construct.camera.setPosition(new THREE.Vector3().fromArray(doc.controls.position));
+    if (controls) {
+      controls.target.fromArray(doc.controls.target);
+      controls.update();
+    }
+    bookmarks.import(doc.bookmarks ?? []);
+
+    for (const key of [...construct.content.keys()]) {
+      deleteContent(key);
+    }
+    for (const result of loadedContents) {
+      if (result.status === 'fulfilled') {
+        const { entry, group, path } = result.value;
+        addLoadedContent(entry.key, group, entry.data, path);
+        group.position.fromArray(entry.position);
+        group.rotation.set(entry.rotation[0], entry.rotation[1], entry.rotation[2]);
+        group.scale.fromArray(entry.scale);
+        if (entry.materials) {
+          applyMaterialConfigs(group, entry.materials);
+        }
+      }
+    }
+
+    for (const result of resolvedScenes) {
+      if (result.status === 'fulfilled' && result.value.scene) {
+        const { entry, existing, scene } = result.value;
+        if (!existing) {
+          addConstructedScene(entry.key, scene);
+        }
+        scene.visible(entry.visible);
+        if (entry.materials && scene.contentGroup) {
+          applyMaterialConfigs(scene.contentGroup, entry.materials);
+        }
+      }
+    }
+    invalidate();
+    return skipped;
+  };
+
+  /**
+   * Renders the current scene from the current camera into a canvas of the requested size, without helpers.
+   *
+   * @param {imageExportOptions} options - The export options.
+   * @returns {HTMLCanvasElement} The canvas containing the rendered image.
+   * @throws {Error} Throws an error if no camera is available or the options are invalid.
+   */
+  const renderExportCanvas = (options: imageExportOptions): HTMLCanvasElement => {
+    if (!construct.camera.camera) {
+      throw new Error('No camera available for the image export');
+    }
+    return renderImage(renderer, construct.scene, construct.camera.camera, constructedScenes, options);
+  };
+
+  /**
+   * Exports the current view as an image blob (PNG, JPEG or WebP) in an arbitrary resolution.
+   * The live renderer is reused and its size and viewport are restored afterwards.
+   *
+   * @param {imageExportOptions} options - Size, format, quality, background and the constructed scenes to exclude.
+   * @returns {Promise<Blob>} A promise that resolves with the encoded image.
+   */
+  const exportImage = async (options: imageExportOptions): Promise<Blob> => {
+    return canvasToBlob(renderExportCanvas(options), options);
+  };
+
+  /**
+   * Exports the current view as a data URL (PNG, JPEG or WebP) in an arbitrary resolution.
+   * The live renderer is reused and its size and viewport are restored afterwards.
+   *
+   * @param {imageExportOptions} options - Size, format, quality, background and the constructed scenes to exclude.
+   * @returns {string} The encoded image as data URL.
+   */
+  const exportImageDataUrl = (options: imageExportOptions): string => {
+    return canvasToDataUrl(renderExportCanvas(options), options);
+  };
+
+  /**
+   * Registers an animation mixer that is updated in the animation loop.
+   *
+   * @param {string} key - A unique identifier for the mixer.
+   * @param {animationMixerEntry} entry - The mixer and a function telling whether any of its actions is running.
+   * @returns {void}
+   */
+  const addAnimationMixer = (key: string, entry: animationMixerEntry): void => {
+    animationMixers.set(key, entry);
+    invalidate();
+  };
+
+  /**
+   * Unregisters an animation mixer from the animation loop.
+   *
+   * @param {string} key - The unique identifier of the mixer to be removed.
+   * @returns {void}
+   */
+  const deleteAnimationMixer = (key: string): void => {
+    animationMixers.delete(key);
+  };
+
+  /**
+   * Retrieves the current camera view.
+   *
+   * @returns {cameraView} Copies of the camera position, the OrbitControls target and the camera up direction.
+   */
+  const getCameraView = (): cameraView => {
+    const camera = construct.camera.camera;
+    return {
+      position: construct.camera.getPosition().clone(),
+      target: controls?.target.clone() ?? new THREE.Vector3(),
+      up: camera?.up.clone() ?? new THREE.Vector3(0, 1, 0),
+      fov: camera instanceof THREE.PerspectiveCamera ? camera.fov : undefined,
+      zoom: camera instanceof THREE.OrthographicCamera ? camera.zoom : undefined,
+    };
+  };
+
+  /**
+   * Animates the camera to the given view. The direction from the target to the camera is rotated on the
+   * shortest path while target, distance and up direction are interpolated, so the camera orbits around the
+   * target instead of cutting through the scene. The field of view of a perspective camera and the zoom of an
+   * orthographic camera are interpolated as well.
+   * A running camera animation is replaced.
+   *
+   * @param {cameraView} view - The camera view to animate to.
+   * @param {number} duration - The duration of the animation in milliseconds; 0 jumps to the view.
+   * @returns {void}
+   */
+  const animateCamera = (view: cameraView, duration = 600): void => {
+    const camera = construct.camera.camera;
+    if (!camera) {
+      return;
+    }
+    const start = getCameraView();
+    const startOffset = start.position.clone().sub(start.target);
+    const endOffset = view.position.clone().sub(view.target);
+    const startUp = camera.up.clone().normalize();
+    const endUp = (view.up ?? startUp).clone().normalize();
+    const rotation = new THREE.Quaternion().setFromUnitVectors(
+      startOffset.clone().normalize(),
+      endOffset.clone().normalize(),
+    );
+    const upRotation = new THREE.Quaternion().setFromUnitVectors(startUp, endUp);
+    const startZoom = start.zoom;
+    const endZoom = view.zoom ?? startZoom;
+    const startFov = start.fov;
+    const endFov = view.fov ?? startFov;
+    const identity = new THREE.Quaternion();
+    const progress = { t: 0 };
+
+    const apply = (): void => {
+      const t = progress.t;
+      const target = start.target.clone().lerp(view.target, t);
+      const distance = THREE.MathUtils.lerp(startOffset.length(), endOffset.length(), t);
+      const offset = startOffset
+        .clone()
+        .normalize()
+        .applyQuaternion(identity.clone().slerp(rotation, t))
+        .multiplyScalar(distance);
+      camera.up.copy(startUp).applyQuaternion(identity.clone().slerp(upRotation, t));
+      camera.position.copy(target).add(offset);
+      camera.lookAt(target);
+      if (camera instanceof THREE.OrthographicCamera && startZoom !== undefined && endZoom !== undefined) {
+        camera.zoom = THREE.MathUtils.lerp(startZoom, endZoom, t);
+        camera.updateProjectionMatrix();
+      }
+      if (camera instanceof THREE.PerspectiveCamera && startFov !== undefined && endFov !== undefined) {
+        camera.fov = THREE.MathUtils.lerp(startFov, endFov, t);
+        camera.updateProjectionMatrix();
+      }
+      controls?.target.copy(target);
+      controls?.update();
+      invalidate();
+    };
+
+    stopCameraTween();
+    if (duration <= 0) {
+      progress.t = 1;
+      apply();
+      rebindControls();
+      return;
+    }
+    cameraTween = new JEASINGS.JEasing(progress)
+      .to({ t: 1 }, duration)
+      .easing(JEASINGS.Sinusoidal.InOut)
+      .onUpdate(apply)
+      .onComplete(() => {
+        cameraTween = undefined;
+        // a changed up direction needs new OrbitControls
+        rebindControls();
+      })
+      .start();
+  };
+
+  /**
+   * Rolls the camera around its viewing direction.
+   *
+   * @param {number} angle - The roll angle in radians; positive values roll counterclockwise.
+   * @param {number} duration - The duration of the animation in milliseconds.
+   * @returns {void}
+   */
+  const rollCamera = (angle: number, duration = 400): void => {
+    const view = getCameraView();
+    const axis = view.target.clone().sub(view.position).normalize();
+    animateCamera({ ...view, up: (view.up ?? new THREE.Vector3(0, 1, 0)).applyAxisAngle(axis, -angle) }, duration);
+  };
+
+  /**
+   * Animates the camera back to the view saved with the OrbitControls and resets the rotation of the scene.
+   * Without OrbitControls the scene is reset at once.
+   *
+   * @param {number} duration - The duration of the animation in milliseconds.
+   * @returns {void}
+   */
+  const homeCamera = (duration = 600): void => {
+    if (!controls) {
+      resetConstructedScene();
+      return;
+    }
+    construct.scene.rotation.set(0, 0, 0);
+    renderGroup.rotation.set(0, 0, 0);
+    animateCamera(
+      {
+        position: controls.position0.clone(),
+        target: controls.target0.clone(),
+        up: new THREE.Vector3(0, 1, 0),
+        zoom: controls.zoom0,
+      },
+      duration,
+    );
+  };
+
+  /**
+   * Switches the camera between perspective and orthographic projection. The visual framing around the
+   * OrbitControls target is kept and the OrbitControls are recreated for the new camera.
+   *
+   * @param {cameraTypeEnum} type - The projection to switch to, either PERSPECTIVE or ORTHOGRAPHIC.
+   * @returns {void}
+   */
+  const setProjection = (type: cameraTypeEnum): void => {
+    stopCameraTween();
+    const camera = construct.camera.switchProjection(type, controls?.target ?? new THREE.Vector3());
+    rebindControls();
+    if (camera) {
+      transformGizmo.setCamera(camera);
+    }
+    invalidate();
+  };
+
+  /**
+   * Retrieves the current projection of the camera.
+   *
+   * @returns {cameraTypeEnum} The camera type, either PERSPECTIVE or ORTHOGRAPHIC.
+   */
+  const getProjection = (): cameraTypeEnum => {
+    return construct.camera.getConfig().type;
+  };
+
+  /**
+   * Stores the current camera view as named bookmark. A bookmark with the same name is replaced.
+   *
+   * @param {string} name - The name of the bookmark, a numbered name not used yet if omitted.
+   * @returns {CameraBookmark} The stored bookmark.
+   */
+  const saveBookmark = (name = bookmarks.uniqueName()): CameraBookmark => {
+    const view = getCameraView();
+    const bookmark: CameraBookmark = {
+      name,
+      type: getProjection(),
+      position: toVector3Array(view.position),
+      target: toVector3Array(view.target),
+      up: toVector3Array(view.up ?? new THREE.Vector3(0, 1, 0)),
+      fov: view.fov,
+      zoom: view.zoom,
+    };
+    bookmarks.set(bookmark);
+    return bookmark;
+  };
+
+  /**
+   * Animates the camera to a bookmark. If the bookmark was taken with the other projection, the projection
+   * is switched first.
+   *
+   * @param {string} name - The name of the bookmark.
+   * @param {number} duration - The duration of the animation in milliseconds.
+   * @returns {boolean} `true` if the bookmark exists.
+   */
+  const goToBookmark = (name: string, duration = 800): boolean => {
+    const bookmark = bookmarks.get(name);
+    if (!bookmark) {
+      return false;
+    }
+    if (bookmark.type !== getProjection()) {
+      setProjection(bookmark.type);
+    }
+    animateCamera(
+      {
+        position: new THREE.Vector3().fromArray(bookmark.position),
+        target: new THREE.Vector3().fromArray(bookmark.target),
+        up: new THREE.Vector3().fromArray(bookmark.up),
+        fov: bookmark.fov,
+        zoom: bookmark.zoom,
+      },
+      duration,
+    );
+    return true;
+  };
+
+  /**
+   * Animates the camera to frame the given objects. The clipping planes of the camera and the distance
+   * limits of the OrbitControls are adapted to the size of the framed content.
+   *
+   * @param {THREE.Object3D[]} objects - The objects to frame.
+   * @param {framingOptions} options - The viewing direction and the margin around the content.
+   * @param {number} duration - The duration of the animation in milliseconds; 0 jumps to the view.
+   * @returns {boolean} `true` if the objects contain a visible mesh that could be framed.
+   */
+  const frameObjects = (objects: THREE.Object3D[], options: framingOptions, duration: number): boolean => {
+    const camera = construct.camera.camera;
+    if (!camera) {
+      return false;
+    }
+    const view = getCameraView();
+    const framing = calculateFraming(calculateFramingBox(objects), camera, {
+      ...options,
+      direction: options.direction ?? view.position.clone().sub(view.target),
+    });
+    if (!framing) {
+      return false;
+    }
+    if (camera instanceof THREE.PerspectiveCamera || camera instanceof THREE.OrthographicCamera) {
+      camera.near = framing.near;
+      camera.far = framing.far;
+      camera.updateProjectionMatrix();
+    }
+    if (controls) {
+      controls.minDistance = framing.minDistance;
+      controls.maxDistance = framing.maxDistance;
+    }
+    animateCamera({ position: framing.position, target: framing.target, zoom: framing.zoom }, duration);
+    return true;
+  };
+
+  /**
+   * Frames all visible contents and constructed scenes, ignoring helpers such as the ground grid.
+   *
+   * @param {framingOptions} options - The viewing direction and the margin around the content.
+   * @param {number} duration - The duration of the animation in milliseconds.
+   * @returns {boolean} `true` if there was something to frame.
+   */
+  const fitAll = (options: framingOptions = {}, duration = 600): boolean => {
+    return frameObjects([renderGroup], options, duration);
+  };
+
+  /**
+   * Frames the selected objects.
+   *
+   * @param {framingOptions} options - The viewing direction and the margin around the content.
+   * @param {number} duration - The duration of the animation in milliseconds.
+   * @returns {boolean} `true` if there was something to frame, `false` if the selection is empty.
+   */
+  const fitSelection = (options: framingOptions = {}, duration = 600): boolean => {
+    return frameObjects(selection.getSelected(), options, duration);
+  };
+
+  /**
+   * Frames a content or a constructed scene.
+   *
+   * @param {string} key - The key of the content or of the constructed scene.
+   * @param {framingOptions} options - The viewing direction and the margin around the content.
+   * @param {number} duration - The duration of the animation in milliseconds.
+   * @returns {boolean} `true` if there was something to frame, `false` if the key is unknown.
+   */
+  const fitContent = (key: string, options: framingOptions = {}, duration = 600): boolean => {
+    const group = construct.content.get(key) ?? constructedScenes.get(key)?.contentGroup;
+    return group ? frameObjects([group], options, duration) : false;
+  };
+
+  /**
+   * Tears down the prepared construct and releases every resource it holds.
+   *
+   * The animation loop is cancelled, all constructed scenes, contents and lights are disposed,
+   * the OrbitControls and the renderer are released and the renderer's canvas is removed
+   * from the canvas element. The construct must not be used after calling this function.
+   *
+   * @returns {void}
+   */
+  const dispose = (): void => {
+    if (animationFrameId !== undefined) {
+      cancelAnimationFrame(animationFrameId);
+      animationFrameId = undefined;
+    }
+    for (const key of [...constructedScenes.keys()]) {
+      deleteConstructedScene(key);
+    }
+    for (const key of [...construct.content.keys()]) {
+      deleteContent(key);
+    }
+    lightingRigs.finishCrossfade();
+    for (const key of [...construct.lights.keys()]) {
+      deleteLight(key);
+    }
+    stopCameraTween();
+    animationMixers.clear();
+    selectionSubscription.unsubscribe();
+    draggingSubscription.unsubscribe();
+    transformGizmo.dispose();
+    measurements.dispose();
+    environment.dispose();
+    highlight.dispose();
+    selection.dispose();
+    controls?.removeEventListener('change', invalidate);
+    controls?.dispose();
+    disposeObject(renderGroup);
+    construct.scene.clear();
+    releaseModelDecoderRenderer(renderer);
+    renderer.dispose();
+    renderer.forceContextLoss();
+    renderer.domElement.remove();
   };
 
   // Return the prepared construct
   return {
     contentGroup: renderGroup,
     basicControls: construct,
-    controls,
+    // the OrbitControls are recreated for a new camera or up direction
+    get controls(): OrbitControls | undefined {
+      return controls;
+    },
     renderer,
     addLight,
     deleteLight,
@@ -494,9 +1399,41 @@ export const prepareConstruct = (
     addGlb,
     addConstructedScene,
     getConstructedScene,
+    getConstructedSceneKeys,
     deleteConstructedScene,
     resetConstructedScene,
     switchAllConstructedScenes,
+    dispose,
+    invalidate,
+    setRenderMode,
+    getRenderMode,
+    exportSceneDocument,
+    importSceneDocument,
+    exportImage,
+    exportImageDataUrl,
+    addAnimationMixer,
+    deleteAnimationMixer,
+    selection,
+    highlight,
+    transformGizmo,
+    measurements,
+    environment,
+    shadows,
+    lightingRigs,
+    setContentShadows,
+    selectLight,
+    getCameraView,
+    animateCamera,
+    rollCamera,
+    homeCamera,
+    bookmarks,
+    saveBookmark,
+    goToBookmark,
+    setProjection,
+    getProjection,
+    fitAll,
+    fitSelection,
+    fitContent,
   };
 };
 
@@ -556,6 +1493,15 @@ const _constructItem = (_renderer: THREE.WebGLRenderer): preparedSceneReturn =>
     console.log('reCalculateDimensions -- ', dimension);
   };
 
+  /**
+   * Releases the resources held by the scene.
+   *
+   * @returns {void}
+   */
+  const dispose = (): void => {
+    console.log('dispose -- ');
+  };
+
   console.log('constructItem -- ');
   return {
     contentGroup: undefined,
@@ -564,5 +1510,6 @@ const _constructItem = (_renderer: THREE.WebGLRenderer): preparedSceneReturn =>
     updateCameraWindowSize,
     reCalculateDimensions,
     boundingBox: undefined,
+    dispose,
   };
 };
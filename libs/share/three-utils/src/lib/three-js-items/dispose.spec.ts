@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+import { disposeMaterial, disposeObject } from './dispose';
+
+describe('dispose', () => {
+  it('should dispose materials and their textures', () => {
+    const map = new THREE.Texture();
+    const materials = [new THREE.MeshStandardMaterial({ map }), new THREE.MeshBasicMaterial()];
+    const disposeTexture = jest.spyOn(map, 'dispose');
+    const disposeMaterials = materials.map((material) => jest.spyOn(material, 'dispose'));
+
+    disposeMaterial(materials);
+
+    expect(disposeTexture).toHaveBeenCalled();
+    for (const dispose of disposeMaterials) {
+      expect(dispose).toHaveBeenCalled();
+    }
+  });
+
+  it('should free the resources of all children and detach the object', () => {
+    const parent = new THREE.Group();
+    const object = new THREE.Group();
+    const map = new THREE.Texture();
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ map }));
+    const line = new THREE.Line(new THREE.BufferGeometry(), new THREE.LineBasicMaterial());
+    const sprite = new THREE.Sprite(new THREE.SpriteMaterial());
+    const light = new THREE.DirectionalLight();
+    object.add(mesh, line, sprite, light);
+    parent.add(object);
+    const spies = [
+      jest.spyOn(mesh.geometry, 'dispose'),
+      jest.spyOn(mesh.material, 'dispose'),
+      jest.spyOn(map, 'dispose'),
+      jest.spyOn(line.geometry, 'dispose'),
+      jest.spyOn(line.material, 'dispose'),
+      jest.spyOn(sprite.material, 'dispose'),
+      jest.spyOn(light, 'dispose'),
+    ];
+    const disposeSpriteGeometry = jest.spyOn(sprite.geometry, 'dispose');
+
+    disposeObject(object);
+
+    for (const spy of spies) {
+      expect(spy).toHaveBeenCalled();
+    }
+    // the geometry of sprites is shared by all sprites
+    expect(disposeSpriteGeometry).not.toHaveBeenCalled();
+    expect(object.parent).toBeNull();
+    expect(parent.children).toHaveLength(0);
+  });
+
+  it('should ignore a missing object', () => {
+    expect(() => {
+      disposeObject(undefined);
+    }).not.toThrow();
+  });
+});
@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+
+/**
+ * Disposes all textures referenced by the given material.
+ *
+ * @param {THREE.Material} material - The material whose texture slots are checked.
+ * @returns {void}
+ */
+const disposeTextures = (material: THREE.Material): void => {
+  for (const value of Object.values(material)) {
+    if (value instanceof THREE.Texture) {
+      value.dispose();
+    }
+  }
+};
+
+/**
+ * Disposes a single material or an array of materials including their textures.
+ *
+ * @param {THREE.Material | THREE.Material[]} material - The material(s) to dispose.
+ * @returns {void}
+ */
+export const disposeMaterial = (material: THREE.Material | THREE.Material[]): void => {
+  const materials = material instanceof Array ? material : [material];
+  for (const m of materials) {
+    disposeTextures(m);
+    m.dispose();
+  }
+};
+
+/**
+ * Recursively frees the GPU resources (geometries, materials, textures) held by an object and its children.
+ * The object is detached from its parent afterward.
+ *
+ * @param {THREE.Object3D | undefined} object - The root object to dispose.
+ * @returns {void}
+ */
+export const disposeObject = (object: THREE.Object3D | undefined): void => {
+  if (!object) {
+    return;
+  }
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Points) {
+      (child.geometry as THREE.BufferGeometry).dispose();
+      disposeMaterial(child.material as THREE.Material | THREE.Material[]);
+    }
+    // the geometry of sprites is shared by all sprites
+    if (child instanceof THREE.Sprite) {
+      disposeMaterial(child.material);
+    }
+    if (child instanceof THREE.Light) {
+      child.dispose();
+    }
+  });
+  object.removeFromParent();
+};
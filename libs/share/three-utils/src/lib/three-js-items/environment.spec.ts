@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { RGBELoader } from 'three-stdlib';
+import {
+  createEnvironment,
+  detectEnvironmentFormat,
+  environmentFormatEnum,
+  environmentSourceEnum,
+} from './environment';
+import { EnvironmentError, environmentErrorEnum } from './errors/environment-error';
+
+describe('environment', () => {
+  // the PMREM generator compiles its shaders when created
+  const renderer = { compile: jest.fn() } as unknown as THREE.WebGLRenderer;
+  let scene: THREE.Scene;
+  let targets: THREE.WebGLRenderTarget[];
+
+  beforeEach(() => {
+    scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x7f7e80);
+    targets = [];
+    const prefilter = (): THREE.WebGLRenderTarget => {
+      const target = new THREE.WebGLRenderTarget(1, 1);
+      targets.push(target);
+      return target;
+    };
+    jest.spyOn(THREE.PMREMGenerator.prototype, 'fromScene').mockImplementation(prefilter);
+    jest.spyOn(THREE.PMREMGenerator.prototype, 'fromEquirectangular').mockImplementation(prefilter);
+    jest.spyOn(THREE.PMREMGenerator.prototype, 'fromCubemap').mockImplementation(prefilter);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('detects the format from the extension of the URL', () => {
+    expect(detectEnvironmentFormat('studio.HDR')).toBe(environmentFormatEnum.HDR);
+    expect(detectEnvironmentFormat('https://example.com/sky.exr?v=2')).toBe(environmentFormatEnum.EXR);
+    expect(detectEnvironmentFormat('panorama.jpg')).toBe(environmentFormatEnum.LDR);
+  });
+
+  it('lights the scene by the room environment and keeps the background color by default', () => {
+    const onChange = jest.fn();
+    const environment = createEnvironment(renderer, scene, onChange);
+
+    environment.useRoomEnvironment();
+
+    expect(environment.getSource()).toBe(environmentSourceEnum.ROOM);
+    expect(scene.environment).toBe(targets[0].texture);
+    expect(scene.background).toBeInstanceOf(THREE.Color);
+    expect(onChange).toHaveBeenCalled();
+  });
+
+  it('applies background, blur, intensity and rotation', () => {
+    const environment = createEnvironment(renderer, scene);
+    environment.useRoomEnvironment();
+
+    environment.setOptions({ background: true, backgroundBlurriness: 0.3, intensity: 0.5, rotation: Math.PI });
+
+    expect(scene.background).toBe(targets[0].texture);
+    expect(scene.backgroundBlurriness).toBe(0.3);
+    expect(scene.environmentIntensity).toBe(0.5);
+    expect(scene.environmentRotation.y).toBe(Math.PI);
+    expect(environment.getOptions().background).toBe(true);
+  });
+
+  it('restores the background color and releases the map on clear', () => {
+    const environment = createEnvironment(renderer, scene);
+    environment.useRoomEnvironment();
+    environment.setOptions({ background: true });
+    const dispose = jest.spyOn(targets[0], 'dispose');
+
+    environment.clear();
+
+    expect(environment.getSource()).toBe(environmentSourceEnum.NONE);
+    expect(scene.environment).toBeNull();
+    expect(scene.background).toBeInstanceOf(THREE.Color);
+    expect(dispose).toHaveBeenCalled();
+  });
+
+  it('shows the unfiltered equirectangular map as background', async () => {
+    const texture = new THREE.DataTexture();
+    jest.spyOn(RGBELoader.prototype, 'loadAsync').mockResolvedValue(texture);
+    const environment = createEnvironment(renderer, scene);
+    environment.setOptions({ background: true });
+
+    await environment.loadEquirectangular('studio.hdr');
+
+    expect(environment.getSource()).toBe(environmentSourceEnum.EQUIRECTANGULAR);
+    expect(texture.mapping).toBe(THREE.EquirectangularReflectionMapping);
+    expect(scene.environment).toBe(targets[0].texture);
+    expect(scene.background).toBe(texture);
+  });
+
+  it('drops a load replaced by a newer one', async () => {
+    const texture = new THREE.DataTexture();
+    const dispose = jest.spyOn(texture, 'dispose');
+    jest.spyOn(RGBELoader.prototype, 'loadAsync').mockResolvedValue(texture);
+    const environment = createEnvironment(renderer, scene);
+
+    const pending = environment.loadEquirectangular('studio.hdr');
+    environment.useRoomEnvironment();
+
+    await expect(pending).rejects.toMatchObject({ reason: environmentErrorEnum.ABORTED });
+    expect(dispose).toHaveBeenCalled();
+    expect(environment.getSource()).toBe(environmentSourceEnum.ROOM);
+  });
+
+  it('reports failed loads and invalid input', async () => {
+    jest.spyOn(RGBELoader.prototype, 'loadAsync').mockRejectedValue(new Error('404'));
+    const environment = createEnvironment(renderer, scene);
+
+    await expect(environment.loadEquirectangular('missing.hdr')).rejects.toBeInstanceOf(EnvironmentError);
+    await expect(environment.loadEquirectangular('missing.hdr')).rejects.toMatchObject({
+      reason: environmentErrorEnum.FETCH_FAILED,
+    });
+    await expect(environment.loadCubeMap(['px.jpg'])).rejects.toMatchObject({
+      reason: environmentErrorEnum.INVALID_INPUT,
+    });
+    expect(environment.getSource()).toBe(environmentSourceEnum.NONE);
+  });
+});
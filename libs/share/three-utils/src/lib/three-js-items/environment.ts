@@ -0,0 +1,283 @@
+import * as THREE from 'three';
+import { EXRLoader, RGBELoader, RoomEnvironment } from 'three-stdlib';
+import { disposeObject } from './dispose';
+import { EnvironmentError, environmentErrorEnum } from './errors/environment-error';
+
+/**
+ * Enum for the sources of the environment map
+ *
+ * - NONE: No environment map; the scene keeps its plain background color.
+ * - ROOM: A procedural studio room, generated without any download.
+ * - EQUIRECTANGULAR: A panorama image in HDR, EXR or an 8-bit image format.
+ * - CUBE_MAP: Six images, one for each side of a cube.
+ */
+export enum environmentSourceEnum {
+  NONE,
+  ROOM,
+  EQUIRECTANGULAR,
+  CUBE_MAP,
+}
+
+/**
+ * Enum for the file formats of equirectangular environment maps
+ */
+export enum environmentFormatEnum {
+  HDR,
+  EXR,
+  LDR,
+}
+
+/**
+ * Options for displaying the environment map
+ *
+ * - background: Whether the environment map is shown as background instead of the background color.
+ * - backgroundBlurriness: Blurs the background between 0 (sharp) and 1.
+ * - backgroundIntensity: Brightness of the background.
+ * - intensity: Brightness of the image-based lighting of physical materials.
+ * - rotation: Rotation of environment and background around the y-axis in radians.
+ */
+export interface environmentOptions {
+  background: boolean;
+  backgroundBlurriness: number;
+  backgroundIntensity: number;
+  intensity: number;
+  rotation: number;
+}
+
+/**
+ * Default options for displaying the environment map
+ */
+export const defaultEnvironmentOptions: environmentOptions = {
+  background: false,
+  backgroundBlurriness: 0,
+  backgroundIntensity: 1,
+  intensity: 1,
+  rotation: 0,
+};
+
+/**
+ * Interface representing the environment map of a prepared construct.
+ *
+ * Methods:
+ * - useRoomEnvironment: Lights the scene by a procedural studio room; works offline.
+ * - loadEquirectangular / loadCubeMap: Load an environment map; a newer load replaces a pending one.
+ * - clear: Removes the environment map and restores the background color.
+ * - getSource: The source of the current environment map.
+ * - setOptions / getOptions: Change background, blur, intensity and rotation.
+ * - dispose: Releases the environment map and the PMREM generator.
+ */
+export interface environmentReturn {
+  useRoomEnvironment: () => void;
+  loadEquirectangular: (url: string, format?: environmentFormatEnum) => Promise<void>;
+  loadCubeMap: (urls: string[]) => Promise<void>;
+  clear: () => void;
+  getSource: () => environmentSourceEnum;
+  setOptions: (options: Partial<environmentOptions>) => void;
+  getOptions: () => environmentOptions;
+  dispose: () => void;
+}
+
+/**
+ * Detects the format of an equirectangular environment map from the extension of its URL.
+ *
+ * @param {string} url - The URL of the environment map.
+ * @returns {environmentFormatEnum} The format; URLs without a known HDR extension are treated as 8-bit images.
+ */
+export const detectEnvironmentFormat = (url: string): environmentFormatEnum => {
+  const path = (url.split(/[?#]/).at(0) ?? '').toLowerCase();
+  if (path.endsWith('.hdr')) {
+    return environmentFormatEnum.HDR;
+  }
+  return path.endsWith('.exr') ? environmentFormatEnum.EXR : environmentFormatEnum.LDR;
+};
+
+/**
+ * Creates the environment map of a scene. The maps are prefiltered by a PMREM generator, so that rough
+ * and smooth physical materials reflect them correctly.
+ *
+ * @param {THREE.WebGLRenderer} renderer - The renderer prefiltering the environment maps.
+ * @param {THREE.Scene} scene - The scene lit by the environment map.
+ * @param {() => void} onChange - Called whenever the environment map or its options change, e.g. to request a new frame.
+ * @returns {environmentReturn} The environment map.
+ */
+export const createEnvironment = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  onChange: () => void = (): void => undefined,
+): environmentReturn => {
+  const backgroundColor = scene.background;
+  // created on first use, as the generator compiles its shaders right away
+  let pmrem: THREE.PMREMGenerator | undefined;
+  let options = { ...defaultEnvironmentOptions };
+  let source = environmentSourceEnum.NONE;
+  let target: THREE.WebGLRenderTarget | undefined;
+  // the unfiltered texture is shown as background, as the prefiltered one has a low resolution
+  let backgroundTexture: THREE.Texture | undefined;
+  let loadId = 0;
+
+  /**
+   * Retrieves the PMREM generator, creating it if necessary.
+   *
+   * @returns {THREE.PMREMGenerator} The generator.
+   */
+  const generator = (): THREE.PMREMGenerator => {
+    pmrem ??= new THREE.PMREMGenerator(renderer);
+    return pmrem;
+  };
+
+  /**
+   * Applies the environment map and the options to the scene.
+   *
+   * @returns {void}
+   */
+  const apply = (): void => {
+    const environment = target?.texture ?? null;
+    scene.environment = environment;
+    scene.environmentIntensity = options.intensity;
+    scene.environmentRotation.set(0, options.rotation, 0);
+    scene.background = options.background && environment ? (backgroundTexture ?? environment) : backgroundColor;
+    scene.backgroundBlurriness = options.backgroundBlurriness;
+    scene.backgroundIntensity = options.backgroundIntensity;
+    scene.backgroundRotation.set(0, options.rotation, 0);
+    onChange();
+  };
+
+  /**
+   * Replaces the current environment map, releasing the textures of the previous one.
+   *
+   * @param {environmentSourceEnum} newSource - The source of the new environment map.
+   * @param {THREE.WebGLRenderTarget | undefined} newTarget - The prefiltered environment map.
+   * @param {THREE.Texture | undefined} newBackground - The unfiltered texture shown as background.
+   * @returns {void}
+   */
+  const use = (
+    newSource: environmentSourceEnum,
+    newTarget: THREE.WebGLRenderTarget | undefined,
+    newBackground: THREE.Texture | undefined,
+  ): void => {
+    target?.dispose();
+    backgroundTexture?.dispose();
+    source = newSource;
+    target = newTarget;
+    backgroundTexture = newBackground;
+    apply();
+  };
+
+  /**
+   * Waits for a texture to be loaded. The texture is dropped if another environment map has been requested meanwhile.
+   *
+   * @param {number} id - The number of the load.
+   * @param {string} description - The URL of the texture, used in error messages.
+   * @param {Promise<T>} pending - The pending load.
+   * @returns {Promise<T>} A promise that resolves with the texture.
+   * @throws {EnvironmentError} Rejects if the texture cannot be loaded or the load has been replaced.
+   */
+  const awaitTexture = async <T extends THREE.Texture>(
+    id: number,
+    description: string,
+    pending: Promise<T>,
+  ): Promise<T> => {
+    let texture: T;
+    try {
+      texture = await pending;
+    } catch (error) {
+      throw new EnvironmentError(
+        `Environment map could not be loaded from ${description}`,
+        environmentErrorEnum.FETCH_FAILED,
+        error,
+      );
+    }
+    if (id !== loadId) {
+      texture.dispose();
+      throw new EnvironmentError('Environment map load has been replaced by a newer one', environmentErrorEnum.ABORTED);
+    }
+    return texture;
+  };
+
+  /**
+   * Lights the scene by a procedural studio room.
+   *
+   * @returns {void}
+   */
+  const useRoomEnvironment = (): void => {
+    loadId++;
+    const room = RoomEnvironment();
+    const roomTarget = generator().fromScene(room, 0.04);
+    disposeObject(room);
+    use(environmentSourceEnum.ROOM, roomTarget, undefined);
+  };
+
+  /**
+   * Loads an equirectangular environment map.
+   *
+   * @param {string} url - The URL of the panorama image.
+   * @param {environmentFormatEnum} format - The file format; detected from the extension if not given, e.g. for blob URLs.
+   * @returns {Promise<void>} A promise that resolves when the environment map is applied.
+   * @throws {EnvironmentError} Rejects if no URL is given, the image cannot be loaded or the load has been replaced.
+   */
+  const loadEquirectangular = async (url: string, format = detectEnvironmentFormat(url)): Promise<void> => {
+    if (!url) {
+      throw new EnvironmentError('No environment map URL given', environmentErrorEnum.INVALID_INPUT);
+    }
+    const id = ++loadId;
+    let pending: Promise<THREE.Texture>;
+    if (format === environmentFormatEnum.HDR) {
+      pending = new RGBELoader().loadAsync(url);
+    } else if (format === environmentFormatEnum.EXR) {
+      pending = new EXRLoader().loadAsync(url);
+    } else {
+      pending = new THREE.TextureLoader().loadAsync(url);
+    }
+    const texture = await awaitTexture(id, url, pending);
+    if (format === environmentFormatEnum.LDR) {
+      texture.colorSpace = THREE.SRGBColorSpace;
+    }
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    use(environmentSourceEnum.EQUIRECTANGULAR, generator().fromEquirectangular(texture), texture);
+  };
+
+  /**
+   * Loads a cube map environment.
+   *
+   * @param {string[]} urls - The URLs of the images in the order +x, -x, +y, -y, +z, -z.
+   * @returns {Promise<void>} A promise that resolves when the environment map is applied.
+   * @throws {EnvironmentError} Rejects if not exactly six URLs are given, an image cannot be loaded or the load has been replaced.
+   */
+  const loadCubeMap = async (urls: string[]): Promise<void> => {
+    if (urls.length !== 6) {
+      throw new EnvironmentError('A cube map needs exactly six images', environmentErrorEnum.INVALID_INPUT);
+    }
+    const id = ++loadId;
+    const texture = await awaitTexture(id, urls.join(', '), new THREE.CubeTextureLoader().loadAsync(urls));
+    texture.colorSpace = THREE.SRGBColorSpace;
+    use(environmentSourceEnum.CUBE_MAP, generator().fromCubemap(texture), texture);
+  };
+
+  /**
+   * Removes the environment map. Pending loads are dropped.
+   *
+   * @returns {void}
+   */
+  const clear = (): void => {
+    loadId++;
+    use(environmentSourceEnum.NONE, undefined, undefined);
+  };
+
+  return {
+    useRoomEnvironment,
+    loadEquirectangular,
+    loadCubeMap,
+    clear,
+    getSource: (): environmentSourceEnum => source,
+    setOptions: (newOptions: Partial<environmentOptions>): void => {
+      options = { ...options, ...newOptions };
+      apply();
+    },
+    getOptions: (): environmentOptions => ({ ...options }),
+    dispose: (): void => {
+      clear();
+      pmrem?.dispose();
+      pmrem = undefined;
+    },
+  };
+};
@@ -0,0 +1,34 @@
+/**
+ * Enum for the reasons an environment map could not be loaded
+ */
+export enum environmentErrorEnum {
+  INVALID_INPUT,
+  FETCH_FAILED,
+  ABORTED,
+}
+
+/**
+ * Represents a custom error type for handling environment map loading errors.
+ * Extends the built-in Error class by the reason of the failure so that callers
+ * can distinguish e.g. missing files from loads replaced by a newer one.
+ *
+ * @class
+ * @augments Error
+ */
+export class EnvironmentError extends Error {
+  /**
+   * Creates a new environment error.
+   *
+   * @param {string} message - A descriptive error message providing additional context about the error.
+   * @param {environmentErrorEnum} reason - The reason of the failure.
+   * @param {unknown} cause - The original error reported by the underlying loader, if any.
+   */
+  constructor(
+    message: string,
+    readonly reason: environmentErrorEnum,
+    cause?: unknown,
+  ) {
+    super(message, { cause });
+    this.name = 'EnvironmentError';
+  }
+}
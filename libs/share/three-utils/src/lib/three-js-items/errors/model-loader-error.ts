@@ -0,0 +1,37 @@
+/**
+ * Enum for the reasons a model could not be loaded
+ */
+export enum modelLoaderErrorEnum {
+  INVALID_INPUT,
+  UNKNOWN_FORMAT,
+  FETCH_FAILED,
+  PARSE_FAILED,
+  MISSING_DECODER,
+  ABORTED,
+}
+
+/**
+ * Represents a custom error type for handling model loading errors.
+ * Extends the built-in Error class by the reason of the failure so that callers
+ * can distinguish e.g. unsupported files from network problems.
+ *
+ * @class
+ * @augments Error
+ */
+export class ModelLoaderError extends Error {
+  /**
+   * Creates a new model loader error.
+   *
+   * @param {string} message - A descriptive error message providing additional context about the error.
+   * @param {modelLoaderErrorEnum} reason - The reason of the failure.
+   * @param {unknown} cause - The original error reported by the underlying loader, if any.
+   */
+  constructor(
+    message: string,
+    readonly reason: modelLoaderErrorEnum,
+    cause?: unknown,
+  ) {
+    super(message, { cause });
+    this.name = 'ModelLoaderError';
+  }
+}
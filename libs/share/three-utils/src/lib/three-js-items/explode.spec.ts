@@ -0,0 +1,123 @@
+import { Subject } from 'rxjs';
+import * as THREE from 'three';
+import { analyse } from './analyse';
+import { preparedConstructReturn, preparedSceneReturn } from './construct';
+import {
+  addExplodeSupport,
+  calculateExplodeOffsets,
+  explodeModeEnum,
+  handleExplodeSupport,
+  hasExplodeSupport,
+} from './explode';
+import { transformChange } from './transform-gizmo';
+
+// jeasings is only published as ES module; the tests apply the explode factor without animation
+jest.mock('jeasings', () => ({ __esModule: true, default: { removeJEasing: jest.fn() } }));
+
+describe('exploded view', () => {
+  let root: THREE.Group;
+  let wheel: THREE.Mesh;
+  let axle: THREE.Mesh;
+  let bracket: THREE.Group;
+  let plate: THREE.Mesh;
+  let scene: preparedSceneReturn;
+  let construct: preparedConstructReturn;
+  let transformChanged: Subject<transformChange>;
+  let draggingChanged: Subject<boolean>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    wheel = new THREE.Mesh(geometry);
+    wheel.position.set(2, 0, 0);
+    axle = new THREE.Mesh(geometry);
+    axle.position.set(-2, 0, 0);
+    plate = new THREE.Mesh(geometry);
+    plate.position.set(0, 1, 0);
+    bracket = new THREE.Group();
+    bracket.add(plate, new THREE.Mesh(geometry));
+    bracket.position.set(0, 0, 4);
+    bracket.rotation.set(0, Math.PI / 2, 0);
+    root = new THREE.Group();
+    root.add(wheel, axle, bracket);
+    scene = {
+      contentGroup: root,
+      animate: jest.fn(),
+      updateCameraWindowSize: jest.fn(),
+      visible: jest.fn(),
+      reCalculateDimensions: jest.fn(),
+      boundingBox: undefined,
+      dispose: jest.fn(),
+    };
+    transformChanged = new Subject<transformChange>();
+    draggingChanged = new Subject<boolean>();
+    construct = {
+      invalidate: jest.fn(),
+      transformGizmo: { transformChanged$: transformChanged, draggingChanged$: draggingChanged },
+    } as unknown as preparedConstructReturn;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should move the parts away from the center of their parent', () => {
+    const offsets = calculateExplodeOffsets(root, analyse(root).analyse, explodeModeEnum.HIERARCHY);
+    const wheelOffset = offsets.find((entry) => entry.object === wheel);
+    expect(wheelOffset?.offset.x).toBeGreaterThan(0);
+    expect(offsets.find((entry) => entry.object === axle)?.offset.x).toBeLessThan(0);
+    // the plate moves upwards within the rotated bracket
+    const plateOffset = offsets.find((entry) => entry.object === plate)?.offset;
+    expect(plateOffset?.y).toBeCloseTo(0.5);
+  });
+
+  it('should move the meshes away from the center of the assembly', () => {
+    const offsets = calculateExplodeOffsets(root, analyse(root).analyse, explodeModeEnum.RADIAL);
+    expect(offsets.map((entry) => entry.object)).not.toContain(bracket);
+    expect(offsets.map((entry) => entry.object)).toContain(plate);
+  });
+
+  it('should restore the original transforms exactly', () => {
+    const exploded = addExplodeSupport(scene, construct);
+    expect(hasExplodeSupport(exploded)).toBe(true);
+    const container = (exploded as unknown as handleExplodeSupport).explodeSupportContainer;
+    const original = root.children.map((child) => child.position.clone());
+
+    container.explode(1, 0);
+    expect(container.getFactor()).toBe(1);
+    expect(wheel.position.x).toBeGreaterThan(2);
+
+    container.setMode(explodeModeEnum.RADIAL);
+    expect(container.getMode()).toBe(explodeModeEnum.RADIAL);
+    expect(wheel.position.x).toBeGreaterThan(2);
+
+    container.explode(0.37, 0);
+    container.explode(0, 0);
+    expect(root.children.map((child) => child.position)).toEqual(original);
+
+    container.explode(1, 0);
+    exploded.dispose();
+    expect(root.children.map((child) => child.position)).toEqual(original);
+    expect(scene.dispose).toHaveBeenCalled();
+  });
+
+  it('should keep a part moved with the transform gizmo at its new position', () => {
+    const exploded = addExplodeSupport(scene, construct) as preparedSceneReturn & handleExplodeSupport;
+    const container = exploded.explodeSupportContainer;
+    container.explode(1, 0);
+    const explodedX = wheel.position.x;
+
+    draggingChanged.next(true);
+    wheel.position.y += 3;
+    transformChanged.next({ object: wheel, light: undefined });
+    draggingChanged.next(false);
+    container.explode(0, 0);
+    expect(wheel.position.toArray()).toEqual([2, 3, 0]);
+    expect(axle.position.toArray()).toEqual([-2, 0, 0]);
+
+    container.explode(1, 0);
+    expect(wheel.position.x).toBeCloseTo(explodedX);
+    exploded.dispose();
+    expect(transformChanged.observed).toBe(false);
+  });
+});
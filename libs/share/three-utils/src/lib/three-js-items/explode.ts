@@ -0,0 +1,326 @@
+import JEASINGS from 'jeasings';
+import * as THREE from 'three';
+import { analyse, analyseReturn, hasAnalyseSupport } from './analyse';
+import { preparedConstructReturn, preparedSceneReturn } from './construct';
+
+/**
+ * Enum for the ways the parts of an assembly are moved apart
+ *
+ * - HIERARCHY: Every part moves away from the center of its parent group, so that sub-assemblies
+ *   separate first and their parts spread within them.
+ * - RADIAL: Every mesh moves away from the center of the whole assembly.
+ */
+export enum explodeModeEnum {
+  HIERARCHY,
+  RADIAL,
+}
+
+/**
+ * Interface for the exploded view of a multi-part assembly.
+ *
+ * Methods:
+ * - explode: Animates the parts to the given explode factor between 0 (assembled) and 1 (exploded).
+ * - getFactor: The explode factor the parts are moved to.
+ * - setMode / getMode: How the parts are moved apart.
+ * - reset: Restores the original transforms immediately.
+ * - dispose: Restores the original transforms and stops following the moves of the transform gizmo.
+ */
+export interface handleExplodeSupport {
+  explodeSupportContainer: {
+    explode: (factor: number, duration?: number) => void;
+    getFactor: () => number;
+    setMode: (mode: explodeModeEnum) => void;
+    getMode: () => explodeModeEnum;
+    reset: () => void;
+    dispose: () => void;
+  };
+}
+
+/**
+ * Determines if the given object is of type `handleExplodeSupport`.
+ *
+ * @param {unknown} obj - The object to be checked.
+ * @returns {boolean} A boolean indicating whether the object is of type `handleExplodeSupport`.
+ */
+export const hasExplodeSupport = (obj: unknown): obj is handleExplodeSupport => {
+  if (obj === undefined) {
+    return false;
+  }
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-expect-error
+  return (obj as object).explodeSupportContainer !== undefined;
+};
+
+/**
+ * A part moved by the exploded view, with its original position and its offset at full explosion,
+ * both in the coordinates of its parent
+ */
+export interface explodeOffset {
+  object: THREE.Object3D;
+  origin: THREE.Vector3;
+  offset: THREE.Vector3;
+}
+
+/**
+ * Calculates the world space center of the bounding box of an object.
+ *
+ * @param {THREE.Object3D} object - The object.
+ * @returns {THREE.Vector3 | undefined} The center, or `undefined` if the object has no geometry.
+ */
+const worldCenter = (object: THREE.Object3D): THREE.Vector3 | undefined => {
+  const box = new THREE.Box3().setFromObject(object);
+  return box.isEmpty() ? undefined : box.getCenter(new THREE.Vector3());
+};
+
+/**
+ * Calculates how far a part moves at full explosion: by its distance from the given center, converted
+ * into the coordinates of its parent. Parts lying in the center stay where they are.
+ *
+ * @param {THREE.Object3D} object - The part.
+ * @param {THREE.Vector3} center - The world space center the part moves away from.
+ * @returns {explodeOffset | undefined} The offset, or `undefined` if the part has no parent or no geometry.
+ */
+const partOffset = (object: THREE.Object3D, center: THREE.Vector3): explodeOffset | undefined => {
+  const partCenter = worldCenter(object);
+  const parent = object.parent;
+  if (!partCenter || !parent) {
+    return undefined;
+  }
+  const target = parent.worldToLocal(partCenter.clone().multiplyScalar(2).sub(center));
+  const offset = target.sub(parent.worldToLocal(partCenter.clone()));
+  return { object, origin: object.position.clone(), offset };
+};
+
+/**
+ * Calculates the offsets of the parts of an assembly from its current, assembled transforms.
+ *
+ * @param {THREE.Group} root - The content group of the assembly.
+ * @param {analyseReturn['analyse']} parts - The groups and meshes of the assembly collected by `analyse()`.
+ * @param {explodeModeEnum} mode - How the parts are moved apart.
+ * @returns {explodeOffset[]} The offsets of the parts that move.
+ */
+export const calculateExplodeOffsets = (
+  root: THREE.Group,
+  parts: analyseReturn['analyse'],
+  mode: explodeModeEnum,
+): explodeOffset[] => {
+  root.updateWorldMatrix(true, true);
+  const offsets: explodeOffset[] = [];
+  /**
+   * Adds the offset of a part if it moves.
+   *
+   * @param {explodeOffset | undefined} entry - The offset of the part.
+   * @returns {void}
+   */
+  const add = (entry: explodeOffset | undefined): void => {
+    if (entry && entry.offset.lengthSq() > 0) {
+      offsets.push(entry);
+    }
+  };
+
+  if (mode === explodeModeEnum.RADIAL) {
+    const center = worldCenter(root);
+    if (center) {
+      for (const mesh of parts.meshes.values()) {
+        add(partOffset(mesh, center));
+      }
+    }
+    return offsets;
+  }
+
+  // the levels of the hierarchy are the ancestors of the meshes, whatever type of node the loader created
+  const assemblies = new Set<THREE.Object3D>([root]);
+  for (const mesh of parts.meshes.values()) {
+    let parent = mesh.parent;
+    while (parent && parent !== root && !assemblies.has(parent)) {
+      assemblies.add(parent);
+      parent = parent.parent;
+    }
+  }
+  for (const assembly of assemblies) {
+    const center = worldCenter(assembly);
+    // a single child moves together with its parent
+    if (center && assembly.children.length > 1) {
+      for (const child of assembly.children) {
+        add(partOffset(child, center));
+      }
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Creates the exploded view for a scene whose content group holds a multi-part assembly. The parts are taken
+ * from the analysis of the scene, or analysed on the first explosion if the scene has no analyse support.
+ * Parts moved with the transform gizmo keep their new position when the view is collapsed.
+ *
+ * @param {preparedSceneReturn} scene - The scene holding the assembly.
+ * @param {preparedConstructReturn} construct - The construct rendering the scene.
+ * @returns {handleExplodeSupport} The explode support container.
+ */
+export const explodeSupport = (
+  scene: preparedSceneReturn,
+  construct: preparedConstructReturn,
+): handleExplodeSupport => {
+  const progress = { factor: 0 };
+  let targetFactor = 0;
+  let mode = explodeModeEnum.HIERARCHY;
+  let offsets: explodeOffset[] | undefined;
+  let tween: InstanceType<typeof JEASINGS.JEasing> | undefined;
+  const moved = new Set<THREE.Object3D>();
+
+  /**
+   * Moves the parts to the current explode factor. At factor 0 the original positions are restored exactly.
+   *
+   * @returns {void}
+   */
+  const apply = (): void => {
+    for (const entry of offsets ?? []) {
+      entry.object.position.copy(entry.origin);
+      if (progress.factor !== 0) {
+        entry.object.position.addScaledVector(entry.offset, progress.factor);
+      }
+    }
+    construct.invalidate();
+  };
+
+  /**
+   * Stops a running explode animation.
+   *
+   * @returns {void}
+   */
+  const stopTween = (): void => {
+    if (tween) {
+      JEASINGS.removeJEasing(tween);
+      tween = undefined;
+    }
+  };
+
+  /**
+   * Restores the original transforms and forgets the offsets, so that they are calculated again from the
+   * assembled state on the next explosion.
+   *
+   * @returns {void}
+   */
+  const reset = (): void => {
+    stopTween();
+    progress.factor = 0;
+    targetFactor = 0;
+    apply();
+    offsets = undefined;
+  };
+
+  /**
+   * Takes the positions of the parts moved with the transform gizmo as their new positions, so that exploding
+   * and collapsing the view keeps the moves.
+   *
+   * @returns {void}
+   */
+  const recaptureOrigins = (): void => {
+    for (const entry of offsets ?? []) {
+      if (moved.has(entry.object)) {
+        entry.origin.copy(entry.object.position).addScaledVector(entry.offset, -progress.factor);
+      }
+    }
+    moved.clear();
+  };
+
+  const transformSubscription = construct.transformGizmo.transformChanged$.subscribe(({ object }) => {
+    moved.add(object);
+  });
+  const draggingSubscription = construct.transformGizmo.draggingChanged$.subscribe((dragging) => {
+    if (!dragging) {
+      recaptureOrigins();
+    }
+  });
+
+  /**
+   * Animates the parts to the given explode factor.
+   *
+   * @param {number} factor - The explode factor between 0 (assembled) and 1 (exploded).
+   * @param {number} duration - The duration of the animation in milliseconds.
+   * @returns {void}
+   */
+  const explode = (factor: number, duration = 800): void => {
+    const root = scene.contentGroup;
+    if (!root) {
+      return;
+    }
+    if (!offsets) {
+      const parts = hasAnalyseSupport(scene) ? scene.analyse : analyse(root).analyse;
+      offsets = calculateExplodeOffsets(root, parts, mode);
+    }
+    stopTween();
+    targetFactor = THREE.MathUtils.clamp(factor, 0, 1);
+    if (duration <= 0) {
+      progress.factor = targetFactor;
+      apply();
+      return;
+    }
+    tween = new JEASINGS.JEasing(progress)
+      .to({ factor: targetFactor }, duration)
+      .easing(JEASINGS.Sinusoidal.InOut)
+      .onUpdate(apply)
+      .onComplete(() => {
+        tween = undefined;
+        // lands exactly on the original positions at factor 0
+        progress.factor = targetFactor;
+        apply();
+      })
+      .start();
+  };
+
+  return {
+    explodeSupportContainer: {
+      explode,
+      getFactor: (): number => targetFactor,
+      setMode: (newMode: explodeModeEnum): void => {
+        if (newMode === mode) {
+          return;
+        }
+        const factor = targetFactor;
+        reset();
+        mode = newMode;
+        if (factor > 0) {
+          explode(factor, 0);
+        }
+      },
+      getMode: (): explodeModeEnum => mode,
+      reset,
+      dispose: (): void => {
+        transformSubscription.unsubscribe();
+        draggingSubscription.unsubscribe();
+        reset();
+      },
+    },
+  };
+};
+
+/**
+ * Enhances the given scene with an exploded view if not already present.
+ * Disposing the enhanced scene restores the original transforms first.
+ *
+ * @param {preparedSceneReturn} scene - The prepared scene to be evaluated and potentially enhanced.
+ * @param {preparedConstructReturn | undefined} construct - The construct rendering the scene.
+ * @returns {preparedSceneReturn} The resulting scene, enhanced with explode support if applicable.
+ */
+export const addExplodeSupport = (
+  scene: preparedSceneReturn,
+  construct: preparedConstructReturn | undefined,
+): preparedSceneReturn => {
+  if (hasExplodeSupport(scene)) {
+    return scene;
+  }
+  if (!construct || !scene.contentGroup) {
+    return scene;
+  }
+  const support = explodeSupport(scene, construct);
+  return {
+    ...scene,
+    ...support,
+    dispose: (): void => {
+      support.explodeSupportContainer.dispose();
+      scene.dispose();
+    },
+  };
+};
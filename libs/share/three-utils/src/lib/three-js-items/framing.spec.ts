@@ -0,0 +1,46 @@
+import * as THREE from 'three';
+import { calculateFraming, calculateFramingBox } from './framing';
+import { markAsHelper } from './selection';
+
+const createBox = (size: number): THREE.Mesh =>
+  new THREE.Mesh(new THREE.BoxGeometry(size, size, size), new THREE.MeshBasicMaterial());
+
+describe('calculateFramingBox', () => {
+  it('should ignore helpers and hidden meshes', () => {
+    const group = new THREE.Group();
+    const model = createBox(2);
+    const hidden = createBox(100);
+    hidden.visible = false;
+    group.add(model, hidden, markAsHelper(new THREE.Group().add(createBox(50))));
+
+    const box = calculateFramingBox([group]);
+    expect(box.min.toArray()).toEqual([-1, -1, -1]);
+    expect(box.max.toArray()).toEqual([1, 1, 1]);
+  });
+});
+
+describe('calculateFraming', () => {
+  it('should fit the bounding sphere into the field of view of a perspective camera', () => {
+    const camera = new THREE.PerspectiveCamera(60, 2, 0.1, 1000);
+    const box = new THREE.Box3(new THREE.Vector3(9, -1, -1), new THREE.Vector3(11, 1, 1));
+
+    const framing = calculateFraming(box, camera, { direction: new THREE.Vector3(0, 0, 2), margin: 1 });
+    const radius = Math.sqrt(3);
+    expect(framing?.target.toArray()).toEqual([10, 0, 0]);
+    expect(framing?.position.x).toBeCloseTo(10);
+    expect(framing?.position.z).toBeCloseTo(radius / Math.sin(Math.PI / 6));
+    expect(framing?.near).toBeLessThan(framing?.minDistance ?? 0);
+    expect(framing?.far).toBeGreaterThan(framing?.maxDistance ?? Infinity);
+  });
+
+  it('should zoom an orthographic camera', () => {
+    const camera = new THREE.OrthographicCamera(-200, 200, 100, -100);
+    const box = new THREE.Box3(new THREE.Vector3(-5, 0, 0), new THREE.Vector3(5, 0, 0));
+
+    expect(calculateFraming(box, camera, { margin: 1 })?.zoom).toBeCloseTo(20);
+  });
+
+  it('should not frame an empty box', () => {
+    expect(calculateFraming(new THREE.Box3(), new THREE.PerspectiveCamera())).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import { isHelperObject, isObjectVisible } from './selection';
+import { calculateBoundingBox } from './share';
+
+/**
+ * Default factor by which the framed bounding sphere is enlarged, leaving some space around the content
+ */
+export const defaultFramingMargin = 1.2;
+
+/**
+ * Options for framing content with the camera
+ *
+ * - direction: Direction from the target to the camera; defaults to the current viewing direction.
+ * - margin: Factor by which the bounding sphere is enlarged.
+ */
+export interface framingOptions {
+  direction?: THREE.Vector3;
+  margin?: number;
+}
+
+/**
+ * Camera placement framing a bounding box, together with clipping planes and OrbitControls distances
+ * suiting the size of the framed content
+ */
+export interface framingResult {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  zoom?: number;
+  near: number;
+  far: number;
+  minDistance: number;
+  maxDistance: number;
+}
+
+/**
+ * Calculates the bounding box of the visible meshes of the given objects. Helpers such as grids,
+ * view spheres or the rotation cube are ignored.
+ *
+ * @param {THREE.Object3D[]} objects - The objects to frame.
+ * @returns {THREE.Box3} The bounding box, empty if no visible mesh was found.
+ */
+export const calculateFramingBox = (objects: THREE.Object3D[]): THREE.Box3 => {
+  const box = new THREE.Box3();
+  for (const object of objects) {
+    object.updateWorldMatrix(true, true);
+    object.traverse((child) => {
+      if ((child as unknown) instanceof THREE.Mesh && isObjectVisible(child) && !isHelperObject(child)) {
+        box.union(calculateBoundingBox(child).boundingBox);
+      }
+    });
+  }
+  return box;
+};
+
+/**
+ * Calculates the camera placement framing a bounding box. A perspective camera is moved away from the
+ * center of the box until the bounding sphere fits into the smaller of the vertical and horizontal field
+ * of view; an orthographic camera keeps its distance and is zoomed instead.
+ *
+ * @param {THREE.Box3} box - The bounding box to frame.
+ * @param {THREE.Camera} camera - The camera, either a perspective or an orthographic camera.
+ * @param {framingOptions} options - The viewing direction and the margin around the content.
+ * @returns {framingResult | undefined} The camera placement, or `undefined` if the box is empty.
+ */
+export const calculateFraming = (
+  box: THREE.Box3,
+  camera: THREE.Camera,
+  options: framingOptions = {},
+): framingResult | undefined => {
+  if (box.isEmpty()) {
+    return undefined;
+  }
+  const sphere = box.getBoundingSphere(new THREE.Sphere());
+  // a flat or point-like content still needs some extent to compute the planes from
+  const radius = Math.max(sphere.radius, 1e-3) * (options.margin ?? defaultFramingMargin);
+  const direction = (options.direction ?? new THREE.Vector3(0, 0, 1)).clone().normalize();
+  if (direction.lengthSq() === 0) {
+    direction.set(0, 0, 1);
+  }
+
+  let distance = radius * 2;
+  let zoom: number | undefined;
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const verticalFov = THREE.MathUtils.degToRad(camera.fov);
+    const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * camera.aspect);
+    distance = radius / Math.sin(Math.min(verticalFov, horizontalFov) / 2);
+  } else if (camera instanceof THREE.OrthographicCamera) {
+    zoom = Math.min(camera.right - camera.left, camera.top - camera.bottom) / (2 * radius);
+  }
+
+  const maxDistance = distance * 10;
+  return {
+    position: sphere.center.clone().add(direction.multiplyScalar(distance)),
+    target: sphere.center.clone(),
+    zoom,
+    near: radius * 0.01,
+    far: maxDistance + radius * 2,
+    minDistance: radius * 0.1,
+    maxDistance,
+  };
+};
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { createHighlight, emissiveHighlight, highlightStateEnum, highlightStrategy } from './highlight';
+import { markAsHelper } from './selection';
+
+const createMesh = (): THREE.Mesh =>
+  new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ color: 0x808080 }));
+
+describe('emissiveHighlight', () => {
+  it('should restore the exact original material', () => {
+    const strategy = emissiveHighlight({ hoverColor: 0x00ff00 });
+    const mesh = createMesh();
+    const original = mesh.material;
+
+    strategy.apply(mesh, highlightStateEnum.HOVER);
+    expect(mesh.material).not.toBe(original);
+    expect((mesh.material as THREE.MeshStandardMaterial).emissive.getHex()).toBe(0x00ff00);
+    expect((original as THREE.MeshStandardMaterial).emissive.getHex()).toBe(0x000000);
+
+    strategy.apply(mesh, highlightStateEnum.SELECTED);
+    strategy.remove(mesh);
+    expect(mesh.material).toBe(original);
+  });
+
+  it('should keep a material replaced while highlighted', () => {
+    const strategy = emissiveHighlight();
+    const mesh = createMesh();
+    const replacement = new THREE.MeshStandardMaterial();
+
+    strategy.apply(mesh, highlightStateEnum.SELECTED);
+    mesh.material = replacement;
+    strategy.remove(mesh);
+    expect(mesh.material).toBe(replacement);
+  });
+});
+
+describe('createHighlight', () => {
+  const recordingStrategy = (): highlightStrategy & { states: Map<THREE.Mesh, highlightStateEnum> } => {
+    const states = new Map<THREE.Mesh, highlightStateEnum>();
+    return {
+      states,
+      apply: (mesh, state): void => {
+        states.set(mesh, state);
+      },
+      remove: (mesh): void => {
+        states.delete(mesh);
+      },
+      dispose: (): void => {
+        states.clear();
+      },
+    };
+  };
+
+  it('should highlight the meshes of hovered and selected objects', () => {
+    const strategy = recordingStrategy();
+    const highlight = createHighlight(undefined, strategy);
+    const group = new THREE.Group().add(createMesh(), createMesh());
+    const single = createMesh();
+
+    highlight.setHover(group);
+    highlight.setSelected([single]);
+    expect(strategy.states.size).toBe(3);
+    expect(strategy.states.get(single)).toBe(highlightStateEnum.SELECTED);
+
+    highlight.setHover(single);
+    expect([...strategy.states.entries()]).toEqual([[single, highlightStateEnum.SELECTED]]);
+
+    highlight.setSelected([]);
+    expect(strategy.states.get(single)).toBe(highlightStateEnum.HOVER);
+  });
+
+  it('should not highlight helpers such as the handle of a light', () => {
+    const strategy = recordingStrategy();
+    const highlight = createHighlight(undefined, strategy);
+    const handle = markAsHelper(createMesh());
+    const light = new THREE.PointLight().add(handle);
+    const part = createMesh();
+
+    highlight.setSelected([light, new THREE.Group().add(part, markAsHelper(new THREE.Group().add(createMesh())))]);
+    expect([...strategy.states.keys()]).toEqual([part]);
+  });
+
+  it('should transfer the highlights to a new strategy', () => {
+    const first = recordingStrategy();
+    const second = recordingStrategy();
+    const highlight = createHighlight(undefined, first);
+    const mesh = createMesh();
+
+    highlight.setSelected([mesh]);
+    highlight.setStrategy(second);
+    expect(first.states.size).toBe(0);
+    expect(second.states.get(mesh)).toBe(highlightStateEnum.SELECTED);
+  });
+});
@@ -0,0 +1,481 @@
+import * as THREE from 'three';
+import { isHelperObject, isObjectVisible } from './selection';
+
+/**
+ * Enum for the built-in highlight strategies
+ *
+ * - EMISSIVE: Tints the mesh with an emissive color.
+ * - OUTLINE: Draws an outline around the visible parts of the mesh in an overlay pass.
+ * - WIREFRAME: Draws a wireframe of the mesh in an overlay pass.
+ * - SILHOUETTE: Draws a stencil-based silhouette that stays visible behind other objects.
+ */
+export enum highlightStrategyEnum {
+  EMISSIVE,
+  OUTLINE,
+  WIREFRAME,
+  SILHOUETTE,
+}
+
+/**
+ * Enum for the states a mesh can be highlighted in
+ */
+export enum highlightStateEnum {
+  HOVER,
+  SELECTED,
+}
+
+/**
+ * Options of the built-in highlight strategies
+ */
+export interface highlightOptions {
+  hoverColor?: THREE.ColorRepresentation;
+  selectionColor?: THREE.ColorRepresentation;
+  thickness?: number;
+}
+
+/**
+ * A highlight strategy. Strategies must leave the original material of a mesh untouched or restore
+ * exactly the original material in `remove`.
+ *
+ * Methods:
+ * - apply: Highlights a mesh in the given state; called again when the state of a highlighted mesh changes.
+ * - remove: Removes the highlight from a mesh.
+ * - render: Optional overlay pass, rendered after the scene with the depth buffer of the scene.
+ * - getOriginal: Optional, the original material of a mesh whose material has been replaced by the highlight.
+ * - dispose: Releases the resources of the strategy.
+ */
+export interface highlightStrategy {
+  apply: (mesh: THREE.Mesh, state: highlightStateEnum) => void;
+  remove: (mesh: THREE.Mesh) => void;
+  getOriginal?: (mesh: THREE.Mesh) => THREE.Material | THREE.Material[] | undefined;
+  render?: (renderer: THREE.WebGLRenderer, camera: THREE.Camera) => void;
+  dispose: () => void;
+}
+
+/**
+ * Interface representing the highlighting of a prepared construct.
+ *
+ * Methods:
+ * - setStrategy: Replaces the highlight strategy; highlighted meshes are transferred to the new strategy.
+ * - setHover / setSelected: Set the hovered and the selected objects. Selected objects take precedence.
+ * - getOriginalMaterial: The material of a mesh without highlight, e.g. to edit it.
+ * - refresh: Highlights all meshes again after their original materials have been edited.
+ * - render: Renders the overlay pass of the active strategy.
+ * - dispose: Removes all highlights and releases the strategy.
+ */
+export interface highlightReturn {
+  setStrategy: (strategy: highlightStrategyEnum | highlightStrategy) => void;
+  setHover: (object: THREE.Object3D | undefined) => void;
+  setSelected: (objects: THREE.Object3D[]) => void;
+  getOriginalMaterial: (mesh: THREE.Mesh) => THREE.Material | THREE.Material[];
+  refresh: () => void;
+  render: (renderer: THREE.WebGLRenderer, camera: THREE.Camera) => void;
+  dispose: () => void;
+}
+
+const defaultHoverColor = 0x4fc3f7;
+const defaultSelectionColor = 0xffa000;
+const defaultThickness = 3;
+
+/**
+ * Resolves the highlight colors of both states from the options.
+ *
+ * @param {highlightOptions} options - The highlight options.
+ * @returns {Record<highlightStateEnum, THREE.Color>} The colors per state.
+ */
+const highlightColors = (options: highlightOptions): Record<highlightStateEnum, THREE.Color> => ({
+  [highlightStateEnum.HOVER]: new THREE.Color(options.hoverColor ?? defaultHoverColor),
+  [highlightStateEnum.SELECTED]: new THREE.Color(options.selectionColor ?? defaultSelectionColor),
+});
+
+/**
+ * Creates a strategy that replaces the material of a mesh by a tinted copy while it is highlighted.
+ * Materials with an emissive color get the highlight color as emissive, all others are blended towards it.
+ *
+ * @param {highlightOptions} options - Colors of the highlight states.
+ * @returns {highlightStrategy} The emissive highlight strategy.
+ */
+export const emissiveHighlight = (options: highlightOptions = {}): highlightStrategy => {
+  const colors = highlightColors(options);
+  const highlighted = new Map<
+    THREE.Mesh,
+    { original: THREE.Material | THREE.Material[]; tinted: THREE.Material | THREE.Material[] }
+  >();
+
+  /**
+   * Creates the tinted copy of a material.
+   *
+   * @param {THREE.Material} material - The original material.
+   * @param {THREE.Color} color - The highlight color.
+   * @returns {THREE.Material} The tinted copy.
+   */
+  const tint = (material: THREE.Material, color: THREE.Color): THREE.Material => {
+    const copy = material.clone();
+    if ('emissive' in copy && copy.emissive instanceof THREE.Color) {
+      copy.emissive.copy(color);
+      if ('emissiveIntensity' in copy) {
+        copy.emissiveIntensity = 0.6;
+      }
+    } else if ('color' in copy && copy.color instanceof THREE.Color) {
+      copy.color.lerp(color, 0.6);
+    }
+    return copy;
+  };
+
+  /**
+   * Restores the original material of a mesh. If the material has been replaced while the mesh was
+   * highlighted, the replacement is kept.
+   *
+   * @param {THREE.Mesh} mesh - The highlighted mesh.
+   * @returns {void}
+   */
+  const remove = (mesh: THREE.Mesh): void => {
+    const entry = highlighted.get(mesh);
+    if (entry) {
+      for (const material of entry.tinted instanceof Array ? entry.tinted : [entry.tinted]) {
+        material.dispose();
+      }
+      if (mesh.material === entry.tinted) {
+        mesh.material = entry.original;
+      }
+      highlighted.delete(mesh);
+    }
+  };
+
+  return {
+    apply: (mesh: THREE.Mesh, state: highlightStateEnum): void => {
+      remove(mesh);
+      const original = mesh.material;
+      const tinted =
+        original instanceof Array ? original.map((m) => tint(m, colors[state])) : tint(original, colors[state]);
+      highlighted.set(mesh, { original, tinted });
+      mesh.material = tinted;
+    },
+    remove,
+    getOriginal: (mesh: THREE.Mesh): THREE.Material | THREE.Material[] | undefined => {
+      const entry = highlighted.get(mesh);
+      return entry && mesh.material === entry.tinted ? entry.original : undefined;
+    },
+    dispose: (): void => {
+      for (const mesh of [...highlighted.keys()]) {
+        remove(mesh);
+      }
+    },
+  };
+};
+
+const hullVertexShader = `
+uniform float thickness;
+uniform vec2 resolution;
+void main() {
+  vec4 clip = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  vec2 direction = (projectionMatrix * vec4(normalize(normalMatrix * normal), 0.0)).xy;
+  if (length(direction) > 0.0) {
+    clip.xy += normalize(direction) * thickness * clip.w * 2.0 / resolution;
+  }
+  gl_Position = clip;
+}`;
+
+const hullFragmentShader = `
+uniform vec3 color;
+void main() {
+  gl_FragColor = vec4(color, 1.0);
+}`;
+
+/**
+ * Creates a material that draws the mesh pushed outwards along its normals by a thickness in pixels.
+ *
+ * @param {THREE.Color} color - The color of the hull.
+ * @param {number} thickness - The thickness in pixels.
+ * @returns {THREE.ShaderMaterial} The hull material.
+ */
+const createHullMaterial = (color: THREE.Color, thickness: number): THREE.ShaderMaterial => {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      color: { value: color },
+      thickness: { value: thickness },
+      resolution: { value: new THREE.Vector2(1, 1) },
+    },
+    vertexShader: hullVertexShader,
+    fragmentShader: hullFragmentShader,
+  });
+};
+
+/**
+ * Creates a strategy that draws proxies of the highlighted meshes into a separate overlay scene.
+ * The proxies share the geometry of the mesh, so the mesh itself is never modified.
+ *
+ * @param {Function} createMaterials - Creates the overlay materials of a state, drawn in the given order.
+ * @param {Function} beforeRender - Optional preparation of the renderer before the overlay is drawn.
+ * @returns {highlightStrategy} The overlay highlight strategy.
+ */
+const overlayHighlight = (
+  createMaterials: (state: highlightStateEnum) => THREE.Material[],
+  beforeRender?: (renderer: THREE.WebGLRenderer) => void,
+): highlightStrategy => {
+  const overlay = new THREE.Scene();
+  const materials: Record<highlightStateEnum, THREE.Material[]> = {
+    [highlightStateEnum.HOVER]: createMaterials(highlightStateEnum.HOVER),
+    [highlightStateEnum.SELECTED]: createMaterials(highlightStateEnum.SELECTED),
+  };
+  const proxies = new Map<THREE.Mesh, THREE.Mesh[]>();
+  const resolution = new THREE.Vector2();
+
+  /**
+   * Removes the proxies of a mesh from the overlay.
+   *
+   * @param {THREE.Mesh} mesh - The highlighted mesh.
+   * @returns {void}
+   */
+  const remove = (mesh: THREE.Mesh): void => {
+    for (const proxy of proxies.get(mesh) ?? []) {
+      overlay.remove(proxy);
+    }
+    proxies.delete(mesh);
+  };
+
+  return {
+    apply: (mesh: THREE.Mesh, state: highlightStateEnum): void => {
+      remove(mesh);
+      const meshProxies = materials[state].map((material, index) => {
+        const proxy = new THREE.Mesh(mesh.geometry, material);
+        proxy.matrixAutoUpdate = false;
+        proxy.renderOrder = index;
+        overlay.add(proxy);
+        return proxy;
+      });
+      proxies.set(mesh, meshProxies);
+    },
+    remove,
+    render: (renderer: THREE.WebGLRenderer, camera: THREE.Camera): void => {
+      if (proxies.size === 0) {
+        return;
+      }
+      for (const [mesh, meshProxies] of proxies.entries()) {
+        const visible = isObjectVisible(mesh);
+        for (const proxy of meshProxies) {
+          proxy.visible = visible;
+          proxy.matrix.copy(mesh.matrixWorld);
+          proxy.matrixWorldNeedsUpdate = true;
+        }
+      }
+      renderer.getDrawingBufferSize(resolution);
+      for (const material of [...materials[highlightStateEnum.HOVER], ...materials[highlightStateEnum.SELECTED]]) {
+        if (material instanceof THREE.ShaderMaterial) {
+          (material.uniforms['resolution'].value as THREE.Vector2).copy(resolution);
+        }
+      }
+      beforeRender?.(renderer);
+      renderer.render(overlay, camera);
+    },
+    dispose: (): void => {
+      overlay.clear();
+      proxies.clear();
+      for (const material of [...materials[highlightStateEnum.HOVER], ...materials[highlightStateEnum.SELECTED]]) {
+        material.dispose();
+      }
+    },
+  };
+};
+
+/**
+ * Creates a strategy that outlines the visible parts of the highlighted meshes. The back faces of the mesh,
+ * pushed outwards along the normals, are drawn against the depth buffer of the scene.
+ *
+ * @param {highlightOptions} options - Colors of the highlight states and the thickness of the outline in pixels.
+ * @returns {highlightStrategy} The outline highlight strategy.
+ */
+export const outlineHighlight = (options: highlightOptions = {}): highlightStrategy => {
+  const colors = highlightColors(options);
+  return overlayHighlight((state) => {
+    const hull = createHullMaterial(colors[state], options.thickness ?? defaultThickness);
+    hull.side = THREE.BackSide;
+    return [hull];
+  });
+};
+
+/**
+ * Creates a strategy that draws a wireframe of the highlighted meshes on top of the scene.
+ *
+ * @param {highlightOptions} options - Colors of the highlight states.
+ * @returns {highlightStrategy} The wireframe highlight strategy.
+ */
+export const wireframeHighlight = (options: highlightOptions = {}): highlightStrategy => {
+  const colors = highlightColors(options);
+  return overlayHighlight((state) => [
+    new THREE.MeshBasicMaterial({
+      color: colors[state],
+      wireframe: true,
+      transparent: true,
+      opacity: 0.6,
+      depthTest: false,
+      depthWrite: false,
+    }),
+  ]);
+};
+
+/**
+ * Creates a strategy that draws the silhouette of the highlighted meshes, also where they are hidden by other
+ * objects. The meshes are first written into the stencil buffer, then the enlarged hull is drawn where the
+ * stencil is not set. The renderer has to be created with a stencil buffer.
+ *
+ * @param {highlightOptions} options - Colors of the highlight states and the thickness of the silhouette in pixels.
+ * @returns {highlightStrategy} The silhouette highlight strategy.
+ */
+export const silhouetteHighlight = (options: highlightOptions = {}): highlightStrategy => {
+  const colors = highlightColors(options);
+  return overlayHighlight(
+    (state) => {
+      const mask = new THREE.MeshBasicMaterial({
+        colorWrite: false,
+        depthTest: false,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+        stencilWrite: true,
+        stencilRef: 1,
+        stencilFunc: THREE.AlwaysStencilFunc,
+        stencilZPass: THREE.ReplaceStencilOp,
+      });
+      const hull = createHullMaterial(colors[state], options.thickness ?? defaultThickness);
+      hull.depthTest = false;
+      hull.depthWrite = false;
+      hull.side = THREE.DoubleSide;
+      hull.stencilWrite = true;
+      hull.stencilRef = 1;
+      hull.stencilFunc = THREE.NotEqualStencilFunc;
+      hull.stencilZPass = THREE.KeepStencilOp;
+      return [mask, hull];
+    },
+    (renderer) => {
+      renderer.clearStencil();
+    },
+  );
+};
+
+/**
+ * Creates one of the built-in highlight strategies.
+ *
+ * @param {highlightStrategyEnum} strategy - The strategy to create.
+ * @param {highlightOptions} options - Colors and thickness of the highlight.
+ * @returns {highlightStrategy} The highlight strategy.
+ */
+export const createHighlightStrategy = (
+  strategy: highlightStrategyEnum,
+  options: highlightOptions = {},
+): highlightStrategy => {
+  switch (strategy) {
+    case highlightStrategyEnum.OUTLINE:
+      return outlineHighlight(options);
+    case highlightStrategyEnum.WIREFRAME:
+      return wireframeHighlight(options);
+    case highlightStrategyEnum.SILHOUETTE:
+      return silhouetteHighlight(options);
+    default:
+      return emissiveHighlight(options);
+  }
+};
+
+/**
+ * Collects the meshes of the given objects and their children. Helpers such as the handles of lights are skipped.
+ *
+ * @param {THREE.Object3D[]} objects - The highlighted objects.
+ * @returns {THREE.Mesh[]} The meshes.
+ */
+const collectMeshes = (objects: THREE.Object3D[]): THREE.Mesh[] => {
+  const meshes: THREE.Mesh[] = [];
+  for (const object of objects) {
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh && !isHelperObject(child)) {
+        meshes.push(child as THREE.Mesh);
+      }
+    });
+  }
+  return meshes;
+};
+
+/**
+ * Creates the highlighting of a prepared construct, keeping track of the hovered and selected objects.
+ *
+ * @param {Function} onChange - Called after every change of the highlights, e.g. to invalidate the frame.
+ * @param {highlightStrategyEnum | highlightStrategy} strategy - The initial highlight strategy.
+ * @returns {highlightReturn} The highlighting.
+ */
+export const createHighlight = (
+  onChange: () => void = (): void => undefined,
+  strategy: highlightStrategyEnum | highlightStrategy = highlightStrategyEnum.EMISSIVE,
+): highlightReturn => {
+  let active = typeof strategy === 'object' ? strategy : createHighlightStrategy(strategy);
+  let hovered: THREE.Object3D | undefined;
+  let selected: THREE.Object3D[] = [];
+  let states = new Map<THREE.Mesh, highlightStateEnum>();
+
+  /**
+   * Computes the highlight state of every mesh and applies the differences to the strategy.
+   *
+   * @returns {void}
+   */
+  const update = (): void => {
+    const next = new Map<THREE.Mesh, highlightStateEnum>();
+    for (const mesh of collectMeshes(hovered ? [hovered] : [])) {
+      next.set(mesh, highlightStateEnum.HOVER);
+    }
+    for (const mesh of collectMeshes(selected)) {
+      next.set(mesh, highlightStateEnum.SELECTED);
+    }
+    for (const mesh of states.keys()) {
+      if (!next.has(mesh)) {
+        active.remove(mesh);
+      }
+    }
+    for (const [mesh, state] of next.entries()) {
+      if (states.get(mesh) !== state) {
+        active.apply(mesh, state);
+      }
+    }
+    states = next;
+    onChange();
+  };
+
+  return {
+    setStrategy: (next: highlightStrategyEnum | highlightStrategy): void => {
+      for (const mesh of states.keys()) {
+        active.remove(mesh);
+      }
+      active.dispose();
+      active = typeof next === 'object' ? next : createHighlightStrategy(next);
+      for (const [mesh, state] of states.entries()) {
+        active.apply(mesh, state);
+      }
+      onChange();
+    },
+    setHover: (object: THREE.Object3D | undefined): void => {
+      if (object === hovered) {
+        return;
+      }
+      hovered = object;
+      update();
+    },
+    setSelected: (objects: THREE.Object3D[]): void => {
+      selected = [...objects];
+      update();
+    },
+    getOriginalMaterial: (mesh: THREE.Mesh): THREE.Material | THREE.Material[] =>
+      active.getOriginal?.(mesh) ?? mesh.material,
+    refresh: (): void => {
+      for (const [mesh, state] of states.entries()) {
+        active.apply(mesh, state);
+      }
+      onChange();
+    },
+    render: (renderer: THREE.WebGLRenderer, camera: THREE.Camera): void => {
+      active.render?.(renderer, camera);
+    },
+    dispose: (): void => {
+      for (const mesh of states.keys()) {
+        active.remove(mesh);
+      }
+      states.clear();
+      active.dispose();
+    },
+  };
+};
@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import { preparedSceneReturn } from './construct';
+import { imageExportKey, renderImagePixels } from './image-export';
+import { markAsHelper } from './selection';
+
+describe('image export', () => {
+  let renderer: THREE.WebGLRenderer;
+  let scene: THREE.Scene;
+  let part: THREE.Mesh;
+  let gizmo: THREE.Object3D;
+  let caps: THREE.Group;
+  let cube: THREE.Group;
+  let grid: THREE.Group;
+  let overlay: preparedSceneReturn;
+  let ground: preparedSceneReturn;
+  let setViewport: jest.Mock;
+  let readRenderTargetPixels: jest.Mock;
+  let visibleWhileRendering: Map<THREE.Object3D, boolean>;
+  let renderTarget: THREE.WebGLRenderTarget | null;
+
+  const createScene = (contentGroup: THREE.Group): preparedSceneReturn => ({
+    contentGroup,
+    animate: jest.fn(),
+    updateCameraWindowSize: jest.fn(),
+    visible: jest.fn(),
+    reCalculateDimensions: jest.fn(),
+    boundingBox: undefined,
+    dispose: jest.fn(),
+  });
+
+  beforeEach(() => {
+    scene = new THREE.Scene();
+    part = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial());
+    gizmo = markAsHelper(new THREE.Object3D());
+    caps = markAsHelper(new THREE.Group());
+    caps.userData[imageExportKey] = true;
+    cube = markAsHelper(new THREE.Group());
+    grid = markAsHelper(new THREE.Group());
+    scene.add(part, gizmo, caps, cube, grid);
+    overlay = createScene(cube);
+    ground = createScene(grid);
+    visibleWhileRendering = new Map();
+    renderTarget = null;
+    setViewport = jest.fn();
+    readRenderTargetPixels = jest.fn(
+      (_target: THREE.WebGLRenderTarget, _x: number, _y: number, width: number, height: number, buffer: Uint8Array) => {
+        // the first row of the render target is the bottom row of the image
+        buffer.fill(1, 0, width * 4);
+        buffer.fill(2, width * 4, width * height * 4);
+      },
+    );
+
+    let size = new THREE.Vector2(640, 480);
+    let pixelRatio = 2;
+    renderer = {
+      autoClear: true,
+      toneMapping: THREE.ACESFilmicToneMapping,
+      toneMappingExposure: 1,
+      outputColorSpace: THREE.SRGBColorSpace,
+      getSize: (target: THREE.Vector2) => target.copy(size),
+      setSize: jest.fn((width: number, height: number) => {
+        size = new THREE.Vector2(width, height);
+      }),
+      getPixelRatio: () => pixelRatio,
+      setPixelRatio: jest.fn((ratio: number) => {
+        pixelRatio = ratio;
+      }),
+      getViewport: (target: THREE.Vector4) => target.set(0, 0, 640, 480),
+      setViewport,
+      getRenderTarget: () => renderTarget,
+      setRenderTarget: jest.fn((target: THREE.WebGLRenderTarget | null) => {
+        renderTarget = target;
+      }),
+      getClearColor: (target: THREE.Color) => target.set(0x7f7e80),
+      getClearAlpha: () => 1,
+      setClearColor: jest.fn(),
+      clear: jest.fn(),
+      clearDepth: jest.fn(),
+      render: jest.fn((object: THREE.Object3D) => {
+        if (object === scene) {
+          for (const child of scene.children) {
+            visibleWhileRendering.set(child, child.visible);
+          }
+        }
+      }),
+      readRenderTargetPixels,
+    } as unknown as THREE.WebGLRenderer;
+  });
+
+  const exportImage = (): ReturnType<typeof renderImagePixels> =>
+    renderImagePixels(
+      renderer,
+      scene,
+      new THREE.PerspectiveCamera(),
+      new Map([
+        ['rotationCube', overlay],
+        ['ground', ground],
+      ]),
+      { width: 4, height: 2, excludeConstructedScenes: ['ground'] },
+    );
+
+  it('should render into a render target of the image size and read the rows top down', () => {
+    const image = exportImage();
+
+    expect(image.width).toBe(4);
+    expect(image.height).toBe(2);
+    expect([...image.data.subarray(0, 16)].every((value) => value === 2)).toBe(true);
+    expect([...image.data.subarray(16)].every((value) => value === 1)).toBe(true);
+    const [[target]] = readRenderTargetPixels.mock.calls as [THREE.WebGLRenderTarget][];
+    expect([target.width, target.height]).toEqual([4, 2]);
+  });
+
+  it('should hide helpers and excluded scenes only while rendering', () => {
+    exportImage();
+
+    expect(visibleWhileRendering.get(part)).toBe(true);
+    expect(visibleWhileRendering.get(gizmo)).toBe(false);
+    expect(visibleWhileRendering.get(caps)).toBe(true);
+    expect(visibleWhileRendering.get(cube)).toBe(true);
+    expect(visibleWhileRendering.get(grid)).toBe(false);
+    expect(scene.children.every((child) => child.visible)).toBe(true);
+  });
+
+  it('should render the overlays in the image size and restore the live renderer', () => {
+    exportImage();
+
+    expect(overlay.animate).toHaveBeenCalled();
+    expect(ground.animate).not.toHaveBeenCalled();
+    expect((overlay.updateCameraWindowSize as jest.Mock).mock.calls).toEqual([
+      [4, 2],
+      [640, 480],
+    ]);
+    expect(renderTarget).toBeNull();
+    expect(renderer.getPixelRatio()).toBe(2);
+    expect(renderer.getSize(new THREE.Vector2()).toArray()).toEqual([640, 480]);
+    expect(setViewport).toHaveBeenLastCalledWith(new THREE.Vector4(0, 0, 640, 480));
+    expect(renderer.autoClear).toBe(true);
+  });
+
+  it('should reject invalid options without touching the renderer', () => {
+    expect(() =>
+      renderImagePixels(renderer, scene, new THREE.PerspectiveCamera(), new Map(), { width: 0, height: 2 }),
+    ).toThrow('Invalid image export options');
+    expect(renderer.getSize(new THREE.Vector2()).toArray()).toEqual([640, 480]);
+    expect(setViewport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,368 @@
+import * as THREE from 'three';
+import { z } from 'zod';
+import { preparedSceneReturn } from './construct';
+import { isHelperObject } from './selection';
+
+/**
+ * Enum for the supported image formats
+ */
+export enum imageFormatEnum {
+  PNG,
+  JPEG,
+  WEBP,
+}
+
+/**
+ * Options for exporting an image of the scene
+ */
+export interface imageExportOptions {
+  width: number;
+  height: number;
+  format?: imageFormatEnum;
+  quality?: number;
+  transparentBackground?: boolean;
+  excludeConstructedScenes?: string[];
+}
+
+/**
+ * Zod schema for the image export options
+ */
+export const imageExportOptionsSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  format: z.nativeEnum(imageFormatEnum).optional(),
+  quality: z.number().min(0).max(1).optional(),
+  transparentBackground: z.boolean().optional(),
+  excludeConstructedScenes: z.array(z.string()).optional(),
+});
+
+/**
+ * Mime types of the supported image formats
+ */
+const imageMimeTypes: Record<imageFormatEnum, string> = {
+  [imageFormatEnum.PNG]: 'image/png',
+  [imageFormatEnum.JPEG]: 'image/jpeg',
+  [imageFormatEnum.WEBP]: 'image/webp',
+};
+
+/**
+ * Creates a copy of the camera whose projection matches the aspect ratio of the exported image.
+ *
+ * @param {THREE.Camera} camera - The live camera.
+ * @param {number} width - The width of the image.
+ * @param {number} height - The height of the image.
+ * @returns {THREE.Camera} The adapted camera copy.
+ */
+const createExportCamera = (camera: THREE.Camera, width: number, height: number): THREE.Camera => {
+  const exportCamera = camera.clone();
+  if (exportCamera instanceof THREE.PerspectiveCamera) {
+    exportCamera.aspect = width / height;
+    exportCamera.updateProjectionMatrix();
+  }
+  if (exportCamera instanceof THREE.OrthographicCamera) {
+    const halfHeight = (exportCamera.top - exportCamera.bottom) / 2;
+    const centerX = (exportCamera.left + exportCamera.right) / 2;
+    exportCamera.left = centerX - halfHeight * (width / height);
+    exportCamera.right = centerX + halfHeight * (width / height);
+    exportCamera.updateProjectionMatrix();
+  }
+  return exportCamera;
+};
+
+/**
+ * The pixels of a rendered image, row by row from the top, four unpremultiplied RGBA bytes per pixel
+ */
+export interface renderedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const outputVertexShader = `
+precision highp float;
+uniform mat4 modelViewMatrix;
+uniform mat4 projectionMatrix;
+attribute vec3 position;
+attribute vec2 uv;
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}`;
+
+const outputFragmentShader = `
+precision highp float;
+uniform sampler2D tDiffuse;
+#include <tonemapping_pars_fragment>
+#include <colorspace_pars_fragment>
+varying vec2 vUv;
+void main() {
+  gl_FragColor = texture2D(tDiffuse, vUv);
+  #if defined(LINEAR_TONE_MAPPING)
+    gl_FragColor.rgb = LinearToneMapping(gl_FragColor.rgb);
+  #elif defined(REINHARD_TONE_MAPPING)
+    gl_FragColor.rgb = ReinhardToneMapping(gl_FragColor.rgb);
+  #elif defined(CINEON_TONE_MAPPING)
+    gl_FragColor.rgb = CineonToneMapping(gl_FragColor.rgb);
+  #elif defined(ACES_FILMIC_TONE_MAPPING)
+    gl_FragColor.rgb = ACESFilmicToneMapping(gl_FragColor.rgb);
+  #elif defined(AGX_TONE_MAPPING)
+    gl_FragColor.rgb = AgXToneMapping(gl_FragColor.rgb);
+  #elif defined(NEUTRAL_TONE_MAPPING)
+    gl_FragColor.rgb = NeutralToneMapping(gl_FragColor.rgb);
+  #endif
+  #ifdef SRGB_TRANSFER
+    gl_FragColor = sRGBTransferOETF(gl_FragColor);
+  #endif
+}`;
+
+const toneMappingDefines: Partial<Record<THREE.ToneMapping, string>> = {
+  [THREE.LinearToneMapping]: 'LINEAR_TONE_MAPPING',
+  [THREE.ReinhardToneMapping]: 'REINHARD_TONE_MAPPING',
+  [THREE.CineonToneMapping]: 'CINEON_TONE_MAPPING',
+  [THREE.ACESFilmicToneMapping]: 'ACES_FILMIC_TONE_MAPPING',
+  [THREE.AgXToneMapping]: 'AGX_TONE_MAPPING',
+  [THREE.NeutralToneMapping]: 'NEUTRAL_TONE_MAPPING',
+};
+
+/**
+ * Creates the material applying tone mapping and output color space of the renderer to a linear image.
+ * Both are skipped by three.js when rendering into a render target.
+ *
+ * @param {THREE.WebGLRenderer} renderer - The renderer whose output settings are applied.
+ * @param {THREE.Texture} texture - The linear image.
+ * @returns {THREE.RawShaderMaterial} The output material.
+ */
+const createOutputMaterial = (renderer: THREE.WebGLRenderer, texture: THREE.Texture): THREE.RawShaderMaterial => {
+  const defines: Record<string, string> = {};
+  const toneMapping = toneMappingDefines[renderer.toneMapping];
+  if (toneMapping) {
+    defines[toneMapping] = '';
+  }
+  if (THREE.ColorManagement.getTransfer(renderer.outputColorSpace) === THREE.SRGBTransfer) {
+    defines['SRGB_TRANSFER'] = '';
+  }
+  return new THREE.RawShaderMaterial({
+    defines,
+    uniforms: {
+      tDiffuse: { value: texture },
+      toneMappingExposure: { value: renderer.toneMappingExposure },
+    },
+    vertexShader: outputVertexShader,
+    fragmentShader: outputFragmentShader,
+    depthTest: false,
+    depthWrite: false,
+  });
+};
+
+/**
+ * Key in `userData` deciding whether an object and its children appear in image exports
+ */
+export const imageExportKey = 'imageExport';
+
+/**
+ * Determines whether an object appears in image exports. The nearest flag set on the object or one of its
+ * ancestors decides, and the contents of included constructed scenes always appear; otherwise helpers such as
+ * the transform gizmo, measurement annotations and light helpers are left out.
+ *
+ * @param {THREE.Object3D} object - The object to check.
+ * @param {Set<THREE.Object3D>} included - The content groups of the constructed scenes in the export.
+ * @returns {boolean} `true` if the object is rendered into the image.
+ */
+const isExported = (object: THREE.Object3D, included: Set<THREE.Object3D>): boolean => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    const exported: unknown = current.userData[imageExportKey];
+    if (typeof exported === 'boolean') {
+      return exported;
+    }
+    if (included.has(current)) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return !isHelperObject(object);
+};
+
+/**
+ * Renders the scene into an offscreen render target of the requested size and reads back its pixels.
+ *
+ * The live renderer and its WebGL context are reused, so uploaded geometries, textures and the PMREM environment
+ * map are shared with the viewport. Its size, pixel ratio, viewport, render target and clear color are restored
+ * afterwards. Tone mapping and output color space of the live renderer are applied in a separate output pass.
+ * Helpers are hidden unless they belong to an included constructed scene or are flagged with `imageExportKey`.
+ * Constructed scenes listed in `excludeConstructedScenes` are hidden and their overlay pass is skipped; all other
+ * visible constructed scenes render their overlays (e.g. the rotation cube) exactly as in the animation loop,
+ * with their overlay cameras adapted to the size of the image.
+ *
+ * @param {THREE.WebGLRenderer} renderer - The renderer of the viewport.
+ * @param {THREE.Scene} scene - The scene to render.
+ * @param {THREE.Camera} camera - The camera to render from.
+ * @param {Map<string, preparedSceneReturn>} constructedScenes - The constructed scenes of the construct.
+ * @param {imageExportOptions} options - The export options.
+ * @returns {renderedImage} The pixels of the rendered image.
+ * @throws {Error} Throws an error if the export options are invalid.
+ */
+export const renderImagePixels = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  constructedScenes: Map<string, preparedSceneReturn>,
+  options: imageExportOptions,
+): renderedImage => {
+  const result = imageExportOptionsSchema.safeParse(options);
+  if (!result.success) {
+    throw new Error('Invalid image export options');
+  }
+  const { width, height, ...config } = result.data;
+  const transparent = config.transparentBackground ?? false;
+  const excluded = new Set(config.excludeConstructedScenes ?? []);
+  const overlays = [...constructedScenes.entries()].filter(([key]) => !excluded.has(key)).map(([, s]) => s);
+  const included = new Set(overlays.flatMap((s) => (s.contentGroup ? [s.contentGroup] : [])));
+
+  const size = renderer.getSize(new THREE.Vector2());
+  const pixelRatio = renderer.getPixelRatio();
+  const viewport = renderer.getViewport(new THREE.Vector4());
+  const renderTarget = renderer.getRenderTarget();
+  const autoClear = renderer.autoClear;
+  const clearColor = renderer.getClearColor(new THREE.Color());
+  const clearAlpha = renderer.getClearAlpha();
+  const background = scene.background;
+
+  // the scene is rendered linear with high precision, the output pass converts it into 8 bit
+  const sceneTarget = new THREE.WebGLRenderTarget(width, height, {
+    type: THREE.HalfFloatType,
+    samples: 4,
+    stencilBuffer: true,
+  });
+  const outputTarget = new THREE.WebGLRenderTarget(width, height);
+  const outputMaterial = createOutputMaterial(renderer, sceneTarget.texture);
+  const outputQuad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), outputMaterial);
+  const outputCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  const pixels = new Uint8Array(width * height * 4);
+  const hidden: THREE.Object3D[] = [];
+
+  try {
+    if (transparent) {
+      scene.background = null;
+    }
+    for (const [key, s] of constructedScenes.entries()) {
+      if (excluded.has(key) && s.contentGroup?.visible) {
+        s.contentGroup.visible = false;
+        hidden.push(s.contentGroup);
+      }
+    }
+    scene.traverse((object) => {
+      if (object.visible && !isExported(object, included)) {
+        object.visible = false;
+        hidden.push(object);
+      }
+    });
+    // overlay passes such as the highlight read the size of the drawing buffer
+    renderer.setPixelRatio(1);
+    renderer.setSize(width, height, false);
+    for (const s of overlays) {
+      s.updateCameraWindowSize(width, height);
+    }
+
+    const exportCamera = createExportCamera(camera, width, height);
+    renderer.setRenderTarget(sceneTarget);
+    renderer.setClearColor(0x000000, transparent ? 0 : 1);
+    renderer.autoClear = false;
+    renderer.clear();
+    renderer.render(scene, exportCamera);
+    renderer.clearDepth();
+    for (const s of overlays) {
+      s.animate(renderer, scene, exportCamera);
+    }
+    renderer.setRenderTarget(outputTarget);
+    renderer.render(outputQuad, outputCamera);
+    renderer.readRenderTargetPixels(outputTarget, 0, 0, width, height, pixels);
+  } finally {
+    scene.background = background;
+    for (const object of hidden) {
+      object.visible = true;
+    }
+    for (const s of overlays) {
+      s.updateCameraWindowSize(size.x, size.y);
+    }
+    renderer.setRenderTarget(renderTarget);
+    renderer.setPixelRatio(pixelRatio);
+    renderer.setSize(size.x, size.y, false);
+    renderer.setViewport(viewport);
+    renderer.setClearColor(clearColor, clearAlpha);
+    renderer.autoClear = autoClear;
+    sceneTarget.dispose();
+    outputTarget.dispose();
+    outputQuad.geometry.dispose();
+    outputMaterial.dispose();
+  }
+
+  // the rows of a render target start at the bottom
+  const data = new Uint8ClampedArray(pixels.length);
+  const rowLength = width * 4;
+  for (let row = 0; row < height; row++) {
+    data.set(pixels.subarray(row * rowLength, (row + 1) * rowLength), (height - row - 1) * rowLength);
+  }
+  return { width, height, data };
+};
+
+/**
+ * Renders the scene into a canvas of the requested size, see `renderImagePixels`.
+ *
+ * @param {THREE.WebGLRenderer} renderer - The renderer of the viewport.
+ * @param {THREE.Scene} scene - The scene to render.
+ * @param {THREE.Camera} camera - The camera to render from.
+ * @param {Map<string, preparedSceneReturn>} constructedScenes - The constructed scenes of the construct.
+ * @param {imageExportOptions} options - The export options.
+ * @returns {HTMLCanvasElement} The canvas containing the rendered image.
+ * @throws {Error} Throws an error if the export options are invalid.
+ */
+export const renderImage = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  constructedScenes: Map<string, preparedSceneReturn>,
+  options: imageExportOptions,
+): HTMLCanvasElement => {
+  const image = renderImagePixels(renderer, scene, camera, constructedScenes, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Converts a rendered canvas into an image blob.
+ *
+ * @param {HTMLCanvasElement} canvas - The canvas to convert.
+ * @param {imageExportOptions} options - The export options defining format and quality.
+ * @returns {Promise<Blob>} A promise that resolves with the encoded image.
+ */
+export const canvasToBlob = async (canvas: HTMLCanvasElement, options: imageExportOptions): Promise<Blob> => {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Image could not be encoded'));
+        }
+      },
+      imageMimeTypes[options.format ?? imageFormatEnum.PNG],
+      options.quality,
+    );
+  });
+};
+
+/**
+ * Converts a rendered canvas into a data URL.
+ *
+ * @param {HTMLCanvasElement} canvas - The canvas to convert.
+ * @param {imageExportOptions} options - The export options defining format and quality.
+ * @returns {string} The encoded image as data URL.
+ */
+export const canvasToDataUrl = (canvas: HTMLCanvasElement, options: imageExportOptions): string => {
+  return canvas.toDataURL(imageMimeTypes[options.format ?? imageFormatEnum.PNG], options.quality);
+};
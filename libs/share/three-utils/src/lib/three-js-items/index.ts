@@ -1,10 +1,32 @@
 export * from './light';
+export * from './lighting-rig';
 export * from './camera';
+export * from './camera-bookmarks';
 export * from './construct';
+export * from './render-loop';
 export * from './loader';
+export * from './model-decoders';
 export * from './text';
 export * from './share';
 export * from './analyse';
 export * from './mouse';
 export * from './effects';
 export * from './material';
+export * from './dispose';
+export * from './scene-document';
+export * from './image-export';
+export * from './animation';
+export * from './selection';
+export * from './highlight';
+export * from './framing';
+export * from './view-cube';
+export * from './transform-gizmo';
+export * from './measurement';
+export * from './section';
+export * from './explode';
+export * from './scene-tree';
+export * from './property-inspector';
+export * from './environment';
+export * from './shadow';
+export * from './errors/model-loader-error';
+export * from './errors/environment-error';
@@ -1,5 +1,7 @@
 import * as THREE from 'three';
+import { RectAreaLightHelper } from 'three-stdlib';
 import { Light, lightConfig, lightTypeEnum } from './light';
+import { findPickTarget } from './selection';
 
 describe('Light', () => {
   let config: lightConfig;
@@ -98,4 +100,105 @@ describe('Light', () => {
     expect(config.width).toBe(5);
     expect(config.height).toBe(10);
   });
+
+  test('should round-trip the cone, range and target of a spotlight', () => {
+    const spotConfig: lightConfig = {
+      type: lightTypeEnum.Spot,
+      color: 0xffffff,
+      intensity: 2,
+      position: [0, 5, 0],
+      angle: 0.5,
+      penumbra: 0.2,
+      distance: 10,
+      decay: 2,
+      target: [1, 0, 1],
+    };
+    const spot = new Light(spotConfig);
+    spot.setSpotCone(0.3, 0.6);
+    spot.setLightRange(15, 1);
+    spot.setLightTarget(new THREE.Vector3(2, 0, 2));
+    const config = spot.getConfig();
+    expect(config).toMatchObject({ angle: 0.3, penumbra: 0.6, distance: 15, decay: 1, target: [2, 0, 2] });
+    const copy = new Light({ ...config }).getLight() as THREE.SpotLight;
+    expect(copy.angle).toBe(0.3);
+    expect(copy.target.position.toArray()).toEqual([2, 0, 2]);
+  });
+
+  test('should keep a RectAreaLight facing its target and round-trip its rotation', () => {
+    const rectArea = new Light({
+      type: lightTypeEnum.RectArea,
+      color: 0xffffff,
+      intensity: 5,
+      position: [0, 0, 5],
+      target: [0, 0, 0],
+    });
+    const object = rectArea.getLight() as THREE.RectAreaLight;
+    rectArea.setLightPosition(new THREE.Vector3(5, 0, 0));
+    expect(object.getWorldDirection(new THREE.Vector3()).negate().x).toBeCloseTo(-1);
+
+    rectArea.setLightRotation(new THREE.Euler(-Math.PI / 2, 0, 0));
+    const config = rectArea.getConfig();
+    expect(config.target).toBeUndefined();
+    const copy = new Light({ ...config }).getLight() as THREE.RectAreaLight;
+    expect(copy.rotation.x).toBeCloseTo(-Math.PI / 2);
+  });
+
+  test('should detach the light from its parent on dispose', () => {
+    const scene = new THREE.Scene();
+    scene.add(light.getLight() as THREE.Light);
+    light.dispose();
+    expect(scene.children).toHaveLength(0);
+  });
+
+  test('should only let directional, point and spot lights cast shadows', () => {
+    const ambient = new Light({ ...config, type: lightTypeEnum.Ambient });
+    const hemisphere = new Light({ ...config, type: lightTypeEnum.Hemisphere });
+    expect(ambient.getLight()?.castShadow).toBe(false);
+    expect(hemisphere.getLight()?.castShadow).toBe(false);
+    expect(light.getLight()?.castShadow).toBe(true);
+  });
+
+  test('should keep the shadow settings for a new light', () => {
+    light.configureShadow({ enabled: true, mapSize: 2048, bias: -0.001, normalBias: 0.02, radius: 2 });
+    light.setNewLight({ ...config, type: lightTypeEnum.Spot });
+    const spot = light.getLight() as THREE.SpotLight;
+    expect(spot.shadow.mapSize.x).toBe(2048);
+    expect(spot.shadow.bias).toBe(-0.001);
+  });
+
+  test('should create a helper for every light with a position', () => {
+    const helperOf = (type: lightTypeEnum): unknown => new Light({ ...config, type }).getHelper();
+    expect(light.getHelper()).toBeInstanceOf(THREE.DirectionalLightHelper);
+    expect(helperOf(lightTypeEnum.Point)).toBeInstanceOf(THREE.PointLightHelper);
+    expect(helperOf(lightTypeEnum.Spot)).toBeInstanceOf(THREE.SpotLightHelper);
+    expect(helperOf(lightTypeEnum.Hemisphere)).toBeInstanceOf(THREE.HemisphereLightHelper);
+    expect(helperOf(lightTypeEnum.RectArea)).toBeInstanceOf(RectAreaLightHelper);
+    expect(helperOf(lightTypeEnum.Ambient)).toBeUndefined();
+  });
+
+  test('should pick the light through its handle and hide the handle with the helper', () => {
+    const object = light.getLight() as THREE.DirectionalLight;
+    const handle = object.children[0];
+    expect(findPickTarget(handle)).toBe(object);
+
+    light.switch(true, false);
+    expect(light.getHelper()?.visible).toBe(false);
+    expect(handle.visible).toBe(false);
+  });
+
+  test('should update the helper when the light changes', () => {
+    const helper = light.getHelper() as THREE.DirectionalLightHelper;
+    light.setLightColor(0xff0000);
+    expect((helper.lightPlane.material as THREE.LineBasicMaterial).color.getHex()).toBe(0xff0000);
+  });
+
+  test('should notify its listener when a setter changes the light', () => {
+    const onChange = jest.fn();
+    light.setOnChange(onChange);
+    light.setLightIntensity(2);
+    light.setLightColor(0xff0000);
+    light.setLightPosition(new THREE.Vector3(1, 2, 3));
+    light.switch(false, false);
+    expect(onChange).toHaveBeenCalledTimes(4);
+  });
 });
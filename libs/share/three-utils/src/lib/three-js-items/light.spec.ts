@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { RectAreaLightUniformsLib } from 'three-stdlib';
 import { createLight, lightConfig, lightTypeEnum } from './light';
 import 'jest';
 
@@ -48,6 +49,43 @@ describe('createLight function', () => {
     expect(result).toBeInstanceOf(THREE.SpotLight);
   });
 
+  it('applies cone, range and target of a spotlight', () => {
+    const config = {
+      ...defaultConfig,
+      type: lightTypeEnum.Spot,
+      position: [0, 5, 0],
+      angle: Math.PI / 6,
+      penumbra: 0.4,
+      distance: 20,
+      decay: 1,
+      target: [1, 0, 2],
+    };
+    const result = createLight(config) as THREE.SpotLight;
+    expect(result.angle).toBe(Math.PI / 6);
+    expect(result.penumbra).toBe(0.4);
+    expect(result.distance).toBe(20);
+    expect(result.decay).toBe(1);
+    expect(result.target.matrixWorld.elements.slice(12, 15)).toEqual([1, 0, 2]);
+  });
+
+  it('initializes the rect area uniforms once and aims a RectAreaLight at its target', () => {
+    const init = jest.spyOn(RectAreaLightUniformsLib, 'init');
+    const config = { ...defaultConfig, type: lightTypeEnum.RectArea, position: [0, 0, 5], target: [0, 0, 0] };
+    const result = createLight(config) as THREE.RectAreaLight;
+    createLight({ ...config, target: undefined, rotation: [0, Math.PI / 2, 0] });
+    // the light shines along its negative z-axis
+    const direction = result.getWorldDirection(new THREE.Vector3()).negate();
+    expect(result.position.z).toBe(5);
+    expect(direction.z).toBeCloseTo(-1);
+    expect(init.mock.calls.length).toBeLessThanOrEqual(1);
+    expect(THREE.UniformsLib).toHaveProperty('LTC_FLOAT_1');
+    init.mockRestore();
+  });
+
+  it('rejects a spot angle wider than a right angle', () => {
+    expect(() => createLight({ ...defaultConfig, type: lightTypeEnum.Spot, angle: Math.PI })).toThrow();
+  });
+
   it('should throw error when config is invalid', () => {
     const config = { ...defaultConfig, type: -1 };
     expect(() => createLight(config)).toThrow();
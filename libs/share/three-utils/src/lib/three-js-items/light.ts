@@ -1,5 +1,7 @@
 import * as THREE from 'three';
+import { RectAreaLightHelper, RectAreaLightUniformsLib } from 'three-stdlib';
 import { z } from 'zod';
+import { markAsHelper, setPickTarget } from './selection';
 
 /**
  * Enum for the different types of lights
@@ -16,6 +18,11 @@ export enum lightTypeEnum {
 
 /**
  * Configuration for a light
+ *
+ * - angle / penumbra: Cone of a spotlight in radians and the fraction of it that fades out.
+ * - distance / decay: Range of point and spotlights (0 for unlimited) and how their light dims with distance.
+ * - target: Point a directional, spot or rect area light is aimed at.
+ * - rotation: Orientation of a rect area light as Euler angles in radians, used if no target is given.
  */
 export interface lightConfig {
   type: lightTypeEnum;
@@ -26,6 +33,12 @@ export interface lightConfig {
   groundColor?: number;
   width?: number;
   height?: number;
+  angle?: number;
+  penumbra?: number;
+  distance?: number;
+  decay?: number;
+  target?: number[];
+  rotation?: number[];
 }
 
 /**
@@ -40,6 +53,16 @@ export const lightConfigSchema = z.object({
   skyColor: z.number().optional(),
   width: z.number().optional(),
   height: z.number().optional(),
+  angle: z
+    .number()
+    .min(0)
+    .max(Math.PI / 2)
+    .optional(),
+  penumbra: z.number().min(0).max(1).optional(),
+  distance: z.number().min(0).optional(),
+  decay: z.number().min(0).optional(),
+  target: z.array(z.number()).length(3).optional(),
+  rotation: z.array(z.number()).length(3).optional(),
 });
 /**
  * Type for a light configuration
@@ -64,8 +87,52 @@ export type createLightHelperReturn =
   | THREE.SpotLightHelper
   | THREE.DirectionalLightHelper
   | THREE.HemisphereLightHelper
+  | RectAreaLightHelper
   | undefined;
 
+/**
+ * Size of the light helpers and radius of the handles picking a light in the viewport
+ */
+export const lightHelperSize = 0.2;
+
+/**
+ * Shadow settings of a light
+ *
+ * - enabled: Whether the light casts shadows.
+ * - mapSize: Width and height of the shadow map in pixels.
+ * - bias / normalBias: Offsets against shadow acne on surfaces facing the light.
+ * - radius: Softness of the shadow edges for PCF and VSM shadow maps.
+ */
+export interface lightShadowSettings {
+  enabled: boolean;
+  mapSize: number;
+  bias: number;
+  normalBias: number;
+  radius: number;
+}
+
+/**
+ * Default shadow settings of a light
+ */
+export const defaultLightShadowSettings: lightShadowSettings = {
+  enabled: true,
+  mapSize: 512,
+  bias: 0,
+  normalBias: 0,
+  radius: 1,
+};
+
+/**
+ * Determines whether a light is able to cast shadows. Ambient, hemisphere and rect area lights cannot.
+ *
+ * @param {createLightReturn} light - The light to check.
+ * @returns {boolean} `true` for directional, point and spot lights.
+ */
+export const canCastShadow = (
+  light: createLightReturn,
+): light is THREE.DirectionalLight | THREE.PointLight | THREE.SpotLight =>
+  light instanceof THREE.DirectionalLight || light instanceof THREE.PointLight || light instanceof THREE.SpotLight;
+
 /**
  * Create a light based on the configuration
  * @param cf Configuration for the light
@@ -82,23 +149,68 @@ export const createLight = (cf: lightConfig): createLightReturn => {
     return createAmbientLight(config.color, config.intensity);
   }
   if (config.type === lightTypeEnum.Directional) {
-    return createDirectionalLight(config.color, config.intensity, config.position);
+    return createDirectionalLight(config.color, config.intensity, config.position, config.target);
   }
   if (config.type === lightTypeEnum.Hemisphere) {
     return createHemisphereLight(config.skyColor ?? config.color, config.groundColor ?? config.color, config.intensity);
   }
   if (config.type === lightTypeEnum.Point) {
-    return createPointLight(config.color, config.intensity, config.position);
+    return createPointLight(config.color, config.intensity, config.position, config.distance ?? 0, config.decay ?? 2);
   }
   if (config.type === lightTypeEnum.RectArea) {
-    return createRectAreaLight(config.color, config.intensity, config.width ?? 1, config.height ?? 1);
+    const light = createRectAreaLight(config.color, config.intensity, config.width ?? 1, config.height ?? 1);
+    light.position.fromArray(config.position);
+    orientRectAreaLight(light, config.target, config.rotation);
+    return light;
   }
   if (config.type === lightTypeEnum.Spot) {
-    return createSpotLight(config.color, config.intensity, config.position);
+    const light = createSpotLight(config.color, config.intensity, config.position, config.target);
+    light.angle = config.angle ?? light.angle;
+    light.penumbra = config.penumbra ?? light.penumbra;
+    light.distance = config.distance ?? light.distance;
+    light.decay = config.decay ?? light.decay;
+    return light;
   }
   return undefined;
 };
 
+/**
+ * Aims a directional light or a spotlight at its target. The target is not part of the scene, so its
+ * world matrix, which the renderer reads, is updated here.
+ *
+ * @param {THREE.DirectionalLight | THREE.SpotLight} light - The light.
+ * @param {number[] | undefined} target - The target position; the origin if not given.
+ * @returns {void}
+ */
+const aimLight = (light: THREE.DirectionalLight | THREE.SpotLight, target: number[] | undefined): void => {
+  if (target) {
+    light.target.position.fromArray(target);
+  }
+  light.target.updateMatrixWorld();
+};
+
+/**
+ * Orients a rect area light, which shines along its negative z-axis: towards the target if given,
+ * otherwise by the rotation, otherwise towards the origin where the content is placed.
+ *
+ * @param {THREE.RectAreaLight} light - The light, already at its position.
+ * @param {number[] | undefined} target - The position the light is aimed at.
+ * @param {number[] | undefined} rotation - The Euler angles in radians.
+ * @returns {void}
+ */
+const orientRectAreaLight = (
+  light: THREE.RectAreaLight,
+  target: number[] | undefined,
+  rotation: number[] | undefined,
+): void => {
+  if (!target && rotation) {
+    light.rotation.set(rotation[0], rotation[1], rotation[2]);
+  } else {
+    light.lookAt(new THREE.Vector3().fromArray(target ?? [0, 0, 0]));
+  }
+  light.updateMatrixWorld();
+};
+
 /**
  * Create an ambient light
  * @param color Color of the light
@@ -106,9 +218,7 @@ export const createLight = (cf: lightConfig): createLightReturn => {
  * @returns An ambient light
  */
 const createAmbientLight = (color: number, intensity: number): THREE.AmbientLight => {
-  const light = new THREE.AmbientLight(color, intensity);
-  light.castShadow = true;
-  return light;
+  return new THREE.AmbientLight(color, intensity);
 };
 
 /**
@@ -116,11 +226,18 @@ const createAmbientLight = (color: number, intensity: number): THREE.AmbientLigh
  * @param color Color of the light
  * @param intensity Intensity of the light
  * @param position Position of the light
+ * @param target Position the light is aimed at
  * @returns A directional light
  */
-const createDirectionalLight = (color: number, intensity: number, position: number[]): THREE.Light => {
+const createDirectionalLight = (
+  color: number,
+  intensity: number,
+  position: number[],
+  target: number[] | undefined,
+): THREE.DirectionalLight => {
   const light = new THREE.DirectionalLight(color, intensity);
   light.position.set(position[0], position[1], position[2]);
+  aimLight(light, target);
   light.castShadow = true;
   return light;
 };
@@ -133,9 +250,7 @@ const createDirectionalLight = (color: number, intensity: number, position: numb
  * @returns A hemisphere light
  */
 const createHemisphereLight = (skyColor: number, groundColor: number, intensity: number): THREE.HemisphereLight => {
-  const light = new THREE.HemisphereLight(skyColor, groundColor, intensity);
-  light.castShadow = true;
-  return light;
+  return new THREE.HemisphereLight(skyColor, groundColor, intensity);
 };
 
 /**
@@ -143,16 +258,30 @@ const createHemisphereLight = (skyColor: number, groundColor: number, intensity:
  * @param color Color of the light
  * @param intensity Intensity of the light
  * @param position Position of the light
+ * @param distance Range of the light, 0 for unlimited
+ * @param decay How the light dims with distance, 2 for physically correct falloff
  * @returns A point light
  */
-const createPointLight = (color: number, intensity: number, position: number[]): THREE.Light => {
-  const light = new THREE.PointLight(color, intensity);
+const createPointLight = (
+  color: number,
+  intensity: number,
+  position: number[],
+  distance: number,
+  decay: number,
+): THREE.PointLight => {
+  const light = new THREE.PointLight(color, intensity, distance, decay);
   light.position.set(position[0], position[1], position[2]);
   return light;
 };
 
 /**
- * Create a rect area light
+ * Whether the lookup tables of rect area lights have been added to the shader uniforms
+ */
+let rectAreaUniformsInitialized = false;
+
+/**
+ * Create a rect area light. The lookup tables standard and physical materials need for rect area lights
+ * are initialized with the first one.
  * @param color Color of the light
  * @param intensity Intensity of the light
  * @param width Width of the light
@@ -160,9 +289,11 @@ const createPointLight = (color: number, intensity: number, position: number[]):
  * @returns A rect area light
  */
 const createRectAreaLight = (color: number, intensity: number, width: number, height: number): THREE.RectAreaLight => {
-  const light = new THREE.RectAreaLight(color, intensity, width, height);
-  light.castShadow = true;
-  return light;
+  if (!rectAreaUniformsInitialized) {
+    RectAreaLightUniformsLib.init();
+    rectAreaUniformsInitialized = true;
+  }
+  return new THREE.RectAreaLight(color, intensity, width, height);
 };
 
 /**
@@ -170,11 +301,18 @@ const createRectAreaLight = (color: number, intensity: number, width: number, he
  * @param color Color of the light
  * @param intensity Intensity of the light
  * @param position Position of the light
+ * @param target Position the light is aimed at
  * @returns A spotlight
  */
-const createSpotLight = (color: number, intensity: number, position: number[]): THREE.Light => {
+const createSpotLight = (
+  color: number,
+  intensity: number,
+  position: number[],
+  target: number[] | undefined,
+): THREE.SpotLight => {
   const light = new THREE.SpotLight(color, intensity);
   light.position.set(position[0], position[1], position[2]);
+  aimLight(light, target);
   light.castShadow = true;
   return light;
 };
@@ -185,7 +323,10 @@ const createSpotLight = (color: number, intensity: number, position: number[]):
 export class Light {
   #light: createLightReturn;
   #helper: createLightHelperReturn;
+  #handle: THREE.Mesh | undefined;
   #config: lightConfig;
+  #shadowSettings: lightShadowSettings = defaultLightShadowSettings;
+  #onChange: () => void = (): void => undefined;
 
   /**
    * Constructor for creating a Light object with the given configuration.
@@ -201,27 +342,37 @@ export class Light {
       this.setLightPosition(new THREE.Vector3(config.position[0], config.position[1], config.position[2]));
     }
     this.#helper = this.#createHelper();
+    this.#handle = this.#createHandle();
   }
 
   /**
    * Configures the shadow properties for a light source in a 3D environment.
-   * This method enables shadow casting for the light source if it supports shadows
-   * and sets default values for the shadow's map size and camera properties.
+   * Only directional, point and spot lights cast shadows; the settings are kept for
+   * a light replaced by `setNewLight`.
    * Adjusts `near` and `far` planes for perspective cameras if applicable.
+   *
+   * @param {lightShadowSettings} settings - The shadow settings, e.g. of a shadow quality preset.
+   * @returns {void}
    */
-  configureShadow = (): void => {
-    try {
-      if (this.#light instanceof THREE.PointLight || this.#light instanceof THREE.SpotLight) {
-        this.#light.castShadow = true;
-        this.#light.shadow.mapSize.width = 512; // default
-        this.#light.shadow.mapSize.height = 512; // default
-        if (this.#light.shadow.camera instanceof THREE.PerspectiveCamera) {
-          this.#light.shadow.camera.near = 0.5; // default
-          this.#light.shadow.camera.far = 500; // default
-        }
-      }
-    } catch (e) {
-      console.error(e);
+  configureShadow = (settings: lightShadowSettings = this.#shadowSettings): void => {
+    this.#shadowSettings = settings;
+    const light = this.#light;
+    if (!canCastShadow(light)) {
+      return;
+    }
+    light.castShadow = settings.enabled;
+    light.shadow.bias = settings.bias;
+    light.shadow.normalBias = settings.normalBias;
+    light.shadow.radius = settings.radius;
+    if (light.shadow.mapSize.x !== settings.mapSize) {
+      light.shadow.mapSize.set(settings.mapSize, settings.mapSize);
+      // the renderer allocates a new shadow map of the new size
+      light.shadow.map?.dispose();
+      light.shadow.map = null;
+    }
+    if (light.shadow.camera instanceof THREE.PerspectiveCamera) {
+      light.shadow.camera.near = 0.5; // default
+      light.shadow.camera.far = 500; // default
     }
   };
 
@@ -263,17 +414,31 @@ export class Light {
       this.#config.color = this.#light.color.getHex();
       this.#config.intensity = this.#light.intensity;
     }
+    if (this.#light instanceof THREE.DirectionalLight || this.#light instanceof THREE.SpotLight) {
+      this.#config.target = this.#light.target.position.toArray();
+    }
+    if (this.#light instanceof THREE.PointLight || this.#light instanceof THREE.SpotLight) {
+      this.#config.distance = this.#light.distance;
+      this.#config.decay = this.#light.decay;
+    }
+    if (this.#light instanceof THREE.SpotLight) {
+      this.#config.angle = this.#light.angle;
+      this.#config.penumbra = this.#light.penumbra;
+    }
     if (this.#light instanceof THREE.HemisphereLight) {
+      this.#config.position = [this.#light.position.x, this.#light.position.y, this.#light.position.z];
       this.#config.color = this.#light.color.getHex();
       this.#config.intensity = this.#light.intensity;
       this.#config.skyColor = this.#light.color.getHex();
       this.#config.groundColor = this.#light.groundColor.getHex();
     }
     if (this.#light instanceof THREE.RectAreaLight) {
+      this.#config.position = [this.#light.position.x, this.#light.position.y, this.#light.position.z];
       this.#config.color = this.#light.color.getHex();
       this.#config.intensity = this.#light.intensity;
       this.#config.width = this.#light.width;
       this.#config.height = this.#light.height;
+      this.#config.rotation = [this.#light.rotation.x, this.#light.rotation.y, this.#light.rotation.z];
     }
     if (this.#light instanceof THREE.AmbientLight) {
       this.#config.color = this.#light.color.getHex();
@@ -282,6 +447,17 @@ export class Light {
     return this.#config;
   };
 
+  /**
+   * Sets the listener called after the light has been changed by one of its setters or switched,
+   * e.g. to invalidate the frame of an on-demand render loop.
+   *
+   * @param {Function} onChange - The listener, replacing the previous one.
+   * @returns {void}
+   */
+  setOnChange = (onChange: () => void): void => {
+    this.#onChange = onChange;
+  };
+
   /**
    * Set a new light configuration.
    *
@@ -291,7 +467,10 @@ export class Light {
   setNewLight = (config: lightConfig): void => {
     this.#config = config;
     this.#light = createLight(config);
+    this.configureShadow();
     this.#helper = this.#createHelper();
+    this.#handle = this.#createHandle();
+    this.#onChange();
   };
 
   /**
@@ -334,7 +513,75 @@ export class Light {
       this.#light instanceof THREE.AmbientLight
     ) {
       this.#light.position.set(newPosition.x, newPosition.y, newPosition.z);
+      this.#light.updateMatrixWorld();
+    }
+    // a rect area light keeps facing its target
+    if (this.#light instanceof THREE.RectAreaLight && this.#config.target) {
+      orientRectAreaLight(this.#light, this.#config.target, undefined);
+    }
+    this.updateHelper();
+    this.#onChange();
+  };
+
+  /**
+   * Set the point a directional, spot or rect area light is aimed at.
+   * @param {THREE.Vector3} newTarget - The new target position.
+   * @returns {void}
+   */
+  setLightTarget = (newTarget: THREE.Vector3): void => {
+    if (this.#light instanceof THREE.DirectionalLight || this.#light instanceof THREE.SpotLight) {
+      aimLight(this.#light, newTarget.toArray());
+    }
+    if (this.#light instanceof THREE.RectAreaLight) {
+      this.#config.target = newTarget.toArray();
+      orientRectAreaLight(this.#light, this.#config.target, undefined);
+    }
+    this.updateHelper();
+    this.#onChange();
+  };
+
+  /**
+   * Set the orientation of a rect area light. The light no longer faces its target afterwards.
+   * @param {THREE.Euler} newRotation - The new rotation in radians.
+   * @returns {void}
+   */
+  setLightRotation = (newRotation: THREE.Euler): void => {
+    if (this.#light instanceof THREE.RectAreaLight) {
+      delete this.#config.target;
+      orientRectAreaLight(this.#light, undefined, [newRotation.x, newRotation.y, newRotation.z]);
     }
+    this.updateHelper();
+    this.#onChange();
+  };
+
+  /**
+   * Set the cone of a spotlight.
+   * @param {number} newAngle - The new angle of the cone in radians, at most π/2.
+   * @param {number} newPenumbra - The new fraction of the cone that fades out, between 0 and 1.
+   * @returns {void}
+   */
+  setSpotCone = (newAngle: number, newPenumbra: number): void => {
+    if (this.#light instanceof THREE.SpotLight) {
+      this.#light.angle = newAngle;
+      this.#light.penumbra = newPenumbra;
+    }
+    this.updateHelper();
+    this.#onChange();
+  };
+
+  /**
+   * Set the range of a point light or spotlight.
+   * @param {number} newDistance - The new distance at which the light ends, 0 for unlimited.
+   * @param {number} newDecay - The new amount the light dims with distance, 2 for physically correct falloff.
+   * @returns {void}
+   */
+  setLightRange = (newDistance: number, newDecay: number): void => {
+    if (this.#light instanceof THREE.PointLight || this.#light instanceof THREE.SpotLight) {
+      this.#light.distance = newDistance;
+      this.#light.decay = newDecay;
+    }
+    this.updateHelper();
+    this.#onChange();
   };
 
   /**
@@ -353,6 +600,8 @@ export class Light {
     ) {
       this.#light.color = new THREE.Color(newColor);
     }
+    this.updateHelper();
+    this.#onChange();
   };
 
   /**
@@ -364,6 +613,8 @@ export class Light {
     if (this.#light instanceof THREE.HemisphereLight) {
       this.#light.color = new THREE.Color(newSkyColor);
     }
+    this.updateHelper();
+    this.#onChange();
   };
 
   /**
@@ -375,6 +626,8 @@ export class Light {
     if (this.#light instanceof THREE.HemisphereLight) {
       this.#light.groundColor = new THREE.Color(newGroundColor);
     }
+    this.updateHelper();
+    this.#onChange();
   };
 
   /**
@@ -393,6 +646,7 @@ export class Light {
     ) {
       this.#light.intensity = newIntensity;
     }
+    this.#onChange();
   };
 
   /**
@@ -406,6 +660,19 @@ export class Light {
       this.#light.width = newWidth;
       this.#light.height = newHeight;
     }
+    this.#onChange();
+  };
+
+  /**
+   * Updates the helper after the light has been moved or changed.
+   *
+   * @returns {void}
+   */
+  updateHelper = (): void => {
+    // the rect area helper follows its light whenever its world matrix is updated
+    if (!(this.#helper instanceof RectAreaLightHelper)) {
+      this.#helper?.update();
+    }
   };
 
   /**
@@ -421,7 +688,12 @@ export class Light {
       if (this.#helper) {
         this.#helper.visible = on ? onHelper : false;
       }
+      if (this.#handle) {
+        // a hidden helper cannot be picked
+        this.#handle.visible = this.#helper?.visible ?? false;
+      }
     }
+    this.#onChange();
   };
 
   /**
@@ -437,16 +709,30 @@ export class Light {
     return false;
   };
 
+  /**
+   * Releases the resources held by the light and its helper and detaches both from their parents.
+   *
+   * @returns {void}
+   */
+  dispose = (): void => {
+    this.#helper?.removeFromParent();
+    this.#helper?.dispose();
+    this.#handle?.geometry.dispose();
+    (this.#handle?.material as THREE.Material | undefined)?.dispose();
+    this.#light?.removeFromParent();
+    this.#light?.dispose();
+  };
+
   /**
    * Creates a helper object for the associated light instance, if applicable.
    *
    * This method checks the type of the private `#light` property and returns an
-   * appropriate helper object from the THREE.js library based on the light type.
-   * Supported types include:
-   * - DirectionalLight: Returns a `THREE.DirectionalLightHelper` with a size of 5.
-   * - PointLight: Returns a `THREE.PointLightHelper` with a size of 1.
+   * appropriate helper object based on the light type. Supported types include:
+   * - DirectionalLight: Returns a `THREE.DirectionalLightHelper`.
+   * - PointLight: Returns a `THREE.PointLightHelper`.
    * - SpotLight: Returns a `THREE.SpotLightHelper`.
-   * - HemisphereLight: Returns a `THREE.HemisphereLightHelper` with a size of 5.
+   * - HemisphereLight: Returns a `THREE.HemisphereLightHelper`.
+   * - RectAreaLight: Returns a `RectAreaLightHelper`.
    *
    * If the light type is not supported or the `#light` property is undefined,
    * this method returns `undefined`.
@@ -454,18 +740,40 @@ export class Light {
    * @returns {createLightHelperReturn} A helper object for the light, or `undefined` if the light type is unsupported or undefined.
    */
   readonly #createHelper = (): createLightHelperReturn => {
-    // if (this.#light instanceof THREE.DirectionalLight) {
-    //   return new THREE.DirectionalLightHelper(this.#light, 0.2);
-    // }
-    // if (this.#light instanceof THREE.PointLight) {
-    //   return new THREE.PointLightHelper(this.#light);
-    // }
-    // if (this.#light instanceof THREE.SpotLight) {
-    //   return new THREE.SpotLightHelper(this.#light);
-    // }
-    // if (this.#light instanceof THREE.HemisphereLight) {
-    //   return new THREE.HemisphereLightHelper(this.#light, 5);
-    // }
+    this.#light?.updateMatrixWorld();
+    if (this.#light instanceof THREE.DirectionalLight) {
+      return new THREE.DirectionalLightHelper(this.#light, lightHelperSize);
+    }
+    if (this.#light instanceof THREE.PointLight) {
+      return new THREE.PointLightHelper(this.#light, lightHelperSize / 2);
+    }
+    if (this.#light instanceof THREE.SpotLight) {
+      return new THREE.SpotLightHelper(this.#light);
+    }
+    if (this.#light instanceof THREE.HemisphereLight) {
+      return new THREE.HemisphereLightHelper(this.#light, lightHelperSize);
+    }
+    if (this.#light instanceof THREE.RectAreaLight) {
+      return new RectAreaLightHelper(this.#light);
+    }
     return undefined;
   };
+
+  /**
+   * Creates an invisible sphere around the light, so that a click on the light selects it. The lines of
+   * the helpers are too thin to be hit reliably.
+   *
+   * @returns {THREE.Mesh | undefined} The handle, a child of the light; `undefined` for lights without a helper.
+   */
+  readonly #createHandle = (): THREE.Mesh | undefined => {
+    if (!this.#light || !this.#helper) {
+      return undefined;
+    }
+    const handle = new THREE.Mesh(
+      new THREE.SphereGeometry(lightHelperSize / 2),
+      new THREE.MeshBasicMaterial({ visible: false }),
+    );
+    this.#light.add(setPickTarget(markAsHelper(handle), this.#light));
+    return handle;
+  };
 }
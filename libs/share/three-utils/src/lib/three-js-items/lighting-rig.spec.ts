@@ -0,0 +1,172 @@
+import { Light, lightTypeEnum } from './light';
+import { createLightingRigs, lightingRigLightKey, lightingRigPresets } from './lighting-rig';
+
+/**
+ * A tween recorded by the mocked jeasings module, driven by the tests
+ */
+interface mockTween {
+  object: Record<string, number>;
+  update: () => void;
+  complete: () => void;
+}
+
+const mockTweens: mockTween[] = [];
+
+// jeasings is only published as ES module; the tests drive the crossfade themselves
+jest.mock('jeasings', () => ({
+  __esModule: true,
+  default: {
+    Sinusoidal: { InOut: (v: number): number => v },
+    removeJEasing: jest.fn(),
+    JEasing: class {
+      tween: mockTween;
+      /**
+       * Records the tween of the animated object.
+       *
+       * @param {Record<string, number>} object - The animated object.
+       */
+      constructor(object: Record<string, number>) {
+        this.tween = { object, update: (): void => undefined, complete: (): void => undefined };
+        mockTweens.push(this.tween);
+      }
+      to = (): unknown => this;
+      easing = (): unknown => this;
+      start = (): unknown => this;
+      onUpdate = (f: () => void): unknown => {
+        this.tween.update = f;
+        return this;
+      };
+      onComplete = (f: () => void): unknown => {
+        this.tween.complete = f;
+        return this;
+      };
+    },
+  },
+}));
+
+/**
+ * Moves the latest crossfade to the given progress.
+ *
+ * @param {number} fade - The progress between 0 and 1; at 1 the crossfade completes.
+ * @returns {void}
+ */
+const advance = (fade: number): void => {
+  const tween = mockTweens[mockTweens.length - 1];
+  tween.object['fade'] = fade;
+  tween.update();
+  if (fade === 1) {
+    tween.complete();
+  }
+};
+
+describe('lighting rigs', () => {
+  let lights: Map<string, Light>;
+  let addLight: jest.Mock;
+  let deleteLight: jest.Mock;
+
+  beforeEach(() => {
+    lights = new Map([
+      ['ambient', new Light({ type: lightTypeEnum.Ambient, color: 0xffffff, intensity: 2, position: [0, 0, 0] })],
+    ]);
+    addLight = jest.fn((key: string, light: Light) => lights.set(key, light));
+    deleteLight = jest.fn((key: string) => {
+      lights.get(key)?.dispose();
+      lights.delete(key);
+    });
+  });
+
+  it('provides the presets as valid rigs', () => {
+    const rigs = createLightingRigs(lights, addLight, deleteLight);
+
+    expect(rigs.list().map((rig) => rig.name)).toEqual(['Three-point', 'Product softbox', 'Outdoor', 'Dark showroom']);
+    for (const preset of lightingRigPresets) {
+      expect(() => {
+        rigs.set({ ...preset, name: `${preset.name} copy` });
+      }).not.toThrow();
+    }
+    expect(rigs.isPreset('Outdoor')).toBe(true);
+  });
+
+  it('replaces all lights by the lights of a rig', async () => {
+    const rigs = createLightingRigs(lights, addLight, deleteLight);
+
+    await expect(rigs.apply('Outdoor', 0)).resolves.toBe(true);
+
+    expect([...lights.keys()]).toEqual([lightingRigLightKey('Outdoor', 0), lightingRigLightKey('Outdoor', 1)]);
+    expect(lights.get('Outdoor 2')?.getLightType()).toBe(lightTypeEnum.Directional);
+    expect(deleteLight).toHaveBeenCalledWith('ambient');
+    await expect(rigs.apply('Unknown')).resolves.toBe(false);
+  });
+
+  it('crossfades the intensities of the previous and the new lights', async () => {
+    const onChange = jest.fn();
+    const rigs = createLightingRigs(lights, addLight, deleteLight, onChange);
+    const ambient = lights.get('ambient');
+
+    const applied = rigs.apply('Outdoor', 1000);
+
+    expect(lights.get('Outdoor 2')?.getConfig().intensity).toBe(0);
+    advance(0.5);
+    expect(ambient?.getConfig().intensity).toBeCloseTo(1);
+    expect(lights.get('Outdoor 2')?.getConfig().intensity).toBeCloseTo(0.6 * Math.PI);
+
+    advance(1);
+    await expect(applied).resolves.toBe(true);
+    expect(lights.has('ambient')).toBe(false);
+    expect(lights.get('Outdoor 2')?.getConfig().intensity).toBeCloseTo(1.2 * Math.PI);
+    expect(onChange).toHaveBeenCalled();
+  });
+
+  it('finishes a running crossfade before the next one', async () => {
+    const rigs = createLightingRigs(lights, addLight, deleteLight);
+
+    const first = rigs.apply('Outdoor', 1000);
+    void rigs.apply('Dark showroom', 1000);
+
+    await expect(first).resolves.toBe(true);
+    expect(lights.has('ambient')).toBe(false);
+    expect(lights.has('Outdoor 1')).toBe(true);
+    expect(lights.has('Dark showroom 1')).toBe(true);
+  });
+
+  it('saves the current lights as a custom rig', async () => {
+    const rigs = createLightingRigs(lights, addLight, deleteLight);
+
+    const rig = rigs.save('My rig');
+    rig.lights[0].intensity = 0;
+
+    expect(rigs.get('My rig')?.lights).toEqual([
+      expect.objectContaining({ type: lightTypeEnum.Ambient, intensity: 2 }),
+    ]);
+    expect(() => rigs.save('Outdoor')).toThrow();
+    await rigs.apply('Outdoor', 0);
+    await rigs.apply('My rig', 0);
+    expect([...lights.keys()]).toEqual(['My rig 1']);
+    expect(rigs.delete('My rig')).toBe(true);
+    expect(rigs.delete('Outdoor')).toBe(false);
+  });
+
+  it('exports and imports only the custom rigs', () => {
+    const rigs = createLightingRigs(lights, addLight, deleteLight);
+    const names: string[][] = [];
+    rigs.lightingRigsChanged$.subscribe((list) => names.push(list));
+    rigs.save('My rig');
+
+    const exported: unknown = rigs.export();
+    const other = createLightingRigs(lights, addLight, deleteLight);
+    other.save('Old rig');
+    other.import(exported);
+
+    expect(rigs.export().map((rig) => rig.name)).toEqual(['My rig']);
+    expect(other.list().map((rig) => rig.name)).toEqual([...lightingRigPresets.map((rig) => rig.name), 'My rig']);
+    expect(other.get('My rig')).toEqual(rigs.get('My rig'));
+    expect(names[names.length - 1]).toContain('My rig');
+    expect(() => {
+      other.import([lightingRigPresets[0]]);
+    }).toThrow('cannot be replaced');
+    expect(() => {
+      other.import([{ name: 'Empty', lights: [] }]);
+    }).toThrow('Invalid lighting rigs');
+    expect(other.get('My rig')).toBeDefined();
+  });
+});
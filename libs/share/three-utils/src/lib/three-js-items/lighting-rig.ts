@@ -0,0 +1,400 @@
+import JEASINGS from 'jeasings';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { z } from 'zod';
+import { Light, lightConfig, lightTypeEnum } from './light';
+import { lightingRigSchema } from './scene-document';
+
+/**
+ * A named set of lights that replaces all lights of a construct at once
+ */
+export interface lightingRig {
+  name: string;
+  lights: lightConfig[];
+}
+
+/**
+ * The lighting rigs that come with the studio. Intensities are given in physical units, which is why the
+ * values of the punctual lights are multiplied by π.
+ *
+ * - Three-point: Key, fill and rim light, the classic setup for presenting a single object.
+ * - Product softbox: Large rect area lights left, right and above, giving soft highlights on glossy surfaces.
+ * - Outdoor: Blue sky, brown ground and a warm, low sun.
+ * - Dark showroom: Narrow spotlights from above on an almost black stage.
+ */
+export const lightingRigPresets: lightingRig[] = [
+  {
+    name: 'Three-point',
+    lights: [
+      { type: lightTypeEnum.Directional, color: 0xfff4e5, intensity: 0.9 * Math.PI, position: [5, 6, 6] },
+      { type: lightTypeEnum.Directional, color: 0xe5f0ff, intensity: 0.3 * Math.PI, position: [-6, 3, 4] },
+      { type: lightTypeEnum.Directional, color: 0xffffff, intensity: 0.6 * Math.PI, position: [0, 5, -7] },
+      { type: lightTypeEnum.Ambient, color: 0x7f7e80, intensity: 0.2 * Math.PI, position: [0, 0, 0] },
+    ],
+  },
+  {
+    name: 'Product softbox',
+    lights: [
+      {
+        type: lightTypeEnum.RectArea,
+        color: 0xffffff,
+        intensity: 4,
+        position: [-3, 2, 2],
+        width: 2,
+        height: 3,
+        target: [0, 0, 0],
+      },
+      {
+        type: lightTypeEnum.RectArea,
+        color: 0xffffff,
+        intensity: 3,
+        position: [3, 2, 2],
+        width: 2,
+        height: 3,
+        target: [0, 0, 0],
+      },
+      {
+        type: lightTypeEnum.RectArea,
+        color: 0xffffff,
+        intensity: 2,
+        position: [0, 4, 0],
+        width: 3,
+        height: 3,
+        target: [0, 0, 0],
+      },
+      {
+        type: lightTypeEnum.Hemisphere,
+        color: 0xffffff,
+        skyColor: 0xffffff,
+        groundColor: 0x808080,
+        intensity: 0.3 * Math.PI,
+        position: [0, 10, 0],
+      },
+    ],
+  },
+  {
+    name: 'Outdoor',
+    lights: [
+      {
+        type: lightTypeEnum.Hemisphere,
+        color: 0x9fc8f0,
+        skyColor: 0x9fc8f0,
+        groundColor: 0x6b5a45,
+        intensity: 0.6 * Math.PI,
+        position: [0, 10, 0],
+      },
+      {
+        type: lightTypeEnum.Directional,
+        color: 0xffe2b8,
+        intensity: 1.2 * Math.PI,
+        position: [8, 5, 6],
+        target: [0, 0, 0],
+      },
+    ],
+  },
+  {
+    name: 'Dark showroom',
+    lights: [
+      { type: lightTypeEnum.Ambient, color: 0x20242c, intensity: 0.1 * Math.PI, position: [0, 0, 0] },
+      {
+        type: lightTypeEnum.Spot,
+        color: 0xffffff,
+        intensity: 30,
+        position: [0, 6, 1],
+        target: [0, 0, 0],
+        angle: Math.PI / 10,
+        penumbra: 0.4,
+        distance: 0,
+        decay: 2,
+      },
+      {
+        type: lightTypeEnum.Spot,
+        color: 0xb8d0ff,
+        intensity: 15,
+        position: [-4, 4, -3],
+        target: [0, 0.5, 0],
+        angle: Math.PI / 12,
+        penumbra: 0.6,
+        distance: 0,
+        decay: 2,
+      },
+    ],
+  },
+];
+
+/**
+ * Interface representing the lighting rigs of a prepared construct.
+ *
+ * Methods:
+ * - set: Stores a custom rig or replaces the custom rig with the same name; presets cannot be replaced.
+ * - get / list: Query the presets and custom rigs; `list` starts with the presets.
+ * - isPreset / delete: Tell presets from custom rigs and delete custom rigs.
+ * - apply: Replaces all lights of the construct by the lights of a rig, crossfading their intensities.
+ * - save: Stores the current lights of the construct as a custom rig.
+ * - finishCrossfade: Ends a running crossfade at its final state, e.g. before the lights are replaced otherwise.
+ * - export / import: Convert the custom rigs from and to a JSON serializable list, e.g. for a scene document.
+ *
+ * Observables:
+ * - lightingRigsChanged$: Emits the names of all rigs, presets first, whenever the custom rigs change.
+ */
+export interface lightingRigsReturn {
+  set: (rig: lightingRig) => void;
+  get: (name: string) => lightingRig | undefined;
+  list: () => lightingRig[];
+  isPreset: (name: string) => boolean;
+  delete: (name: string) => boolean;
+  apply: (name: string, duration?: number) => Promise<boolean>;
+  save: (name: string) => lightingRig;
+  finishCrossfade: () => void;
+  export: () => lightingRig[];
+  import: (rigs: unknown) => void;
+  lightingRigsChanged$: Observable<string[]>;
+}
+
+/**
+ * Copies a light configuration, so that stored rigs cannot be changed from outside.
+ *
+ * @param {lightConfig} config - The configuration to copy.
+ * @returns {lightConfig} The copy.
+ */
+const copyLightConfig = (config: lightConfig): lightConfig => ({
+  ...config,
+  position: [...config.position],
+  target: config.target ? [...config.target] : undefined,
+  rotation: config.rotation ? [...config.rotation] : undefined,
+});
+
+/**
+ * Copies a lighting rig, so that stored rigs cannot be changed from outside.
+ *
+ * @param {lightingRig} rig - The rig to copy.
+ * @returns {lightingRig} The copy.
+ */
+const copyLightingRig = (rig: lightingRig): lightingRig => ({
+  name: rig.name,
+  lights: rig.lights.map(copyLightConfig),
+});
+
+/**
+ * Derives the key under which a light of a rig is added to the construct, e.g. `Outdoor 2`.
+ *
+ * @param {string} rigName - The name of the rig.
+ * @param {number} index - The index of the light in the rig.
+ * @returns {string} The key of the light.
+ */
+export const lightingRigLightKey = (rigName: string, index: number): string => `${rigName} ${String(index + 1)}`;
+
+/**
+ * Creates the lighting rigs of a construct. The lights are replaced through the `addLight` and `deleteLight`
+ * functions of the construct, so that shadows, helpers and the selection are kept up to date.
+ *
+ * @param {Map<string, Light>} lights - The lights of the construct.
+ * @param {Function} addLight - Adds a light to the construct.
+ * @param {Function} deleteLight - Removes a light from the construct and disposes it.
+ * @param {Function} onChange - Called whenever the intensities change during a crossfade, e.g. to request a new frame.
+ * @returns {lightingRigsReturn} The lighting rigs.
+ */
+export const createLightingRigs = (
+  lights: Map<string, Light>,
+  addLight: (key: string, light: Light) => void,
+  deleteLight: (key: string) => void,
+  onChange: () => void = (): void => undefined,
+): lightingRigsReturn => {
+  const presets = new Map(lightingRigPresets.map((rig) => [rig.name, rig]));
+  const customRigs = new Map<string, lightingRig>();
+  const subject = new BehaviorSubject<string[]>([...presets.keys()]);
+  let tween: InstanceType<typeof JEASINGS.JEasing> | undefined;
+  let crossfade:
+    | { outgoing: string[]; incoming: { light: Light; intensity: number }[]; resolve: (applied: boolean) => void }
+    | undefined;
+
+  /**
+   * Ends a running crossfade at its final state: the previous lights are removed and the new ones shine
+   * at full intensity.
+   *
+   * @returns {void}
+   */
+  const finishCrossfade = (): void => {
+    if (tween) {
+      JEASINGS.removeJEasing(tween);
+      tween = undefined;
+    }
+    if (!crossfade) {
+      return;
+    }
+    const { outgoing, incoming, resolve } = crossfade;
+    crossfade = undefined;
+    for (const key of outgoing) {
+      deleteLight(key);
+    }
+    for (const entry of incoming) {
+      entry.light.setLightIntensity(entry.intensity);
+    }
+    onChange();
+    resolve(true);
+  };
+
+  /**
+   * Notifies the subscribers after the custom rigs have been changed.
+   *
+   * @returns {void}
+   */
+  const changed = (): void => {
+    subject.next([...presets.keys(), ...customRigs.keys()]);
+  };
+
+  /**
+   * Stores a custom rig or replaces the custom rig with the same name.
+   *
+   * @param {lightingRig} rig - The rig to store.
+   * @returns {void}
+   * @throws {Error} Throws an error if the rig is invalid or has the name of a preset.
+   */
+  const set = (rig: lightingRig): void => {
+    const result = lightingRigSchema.safeParse(rig);
+    if (!result.success) {
+      throw new Error('Invalid lighting rig');
+    }
+    if (presets.has(result.data.name)) {
+      throw new Error(`The preset lighting rig ${result.data.name} cannot be replaced`);
+    }
+    customRigs.set(result.data.name, copyLightingRig(result.data));
+    changed();
+  };
+
+  /**
+   * Retrieves a preset or custom rig by its name.
+   *
+   * @param {string} name - The name of the rig.
+   * @returns {lightingRig | undefined} A copy of the rig, or `undefined` if there is none with this name.
+   */
+  const get = (name: string): lightingRig | undefined => {
+    const rig = presets.get(name) ?? customRigs.get(name);
+    return rig ? copyLightingRig(rig) : undefined;
+  };
+
+  /**
+   * Replaces all lights of the construct by the lights of a rig. The new lights fade in while the previous
+   * ones fade out; a running crossfade is finished first. Lights whose key is taken by a new light, e.g. when
+   * a rig is applied again, are replaced at once.
+   *
+   * @param {string} name - The name of the rig.
+   * @param {number} duration - The duration of the crossfade in milliseconds.
+   * @returns {Promise<boolean>} A promise that resolves when the crossfade has finished, with `false` if there is no rig with this name.
+   */
+  const apply = (name: string, duration = 800): Promise<boolean> => {
+    const rig = get(name);
+    if (!rig) {
+      return Promise.resolve(false);
+    }
+    finishCrossfade();
+    // the new lights show their helpers if the previous ones did
+    const showHelpers = [...lights.values()].some((light) => light.getHelper()?.visible === true);
+    const keys = rig.lights.map((_, index) => lightingRigLightKey(rig.name, index));
+    for (const key of keys) {
+      deleteLight(key);
+    }
+    const outgoing = [...lights.entries()].map(([key, light]) => ({
+      key,
+      light,
+      intensity: light.getConfig().intensity,
+    }));
+    const incoming = rig.lights.map((config, index) => {
+      const light = new Light(config);
+      addLight(keys[index], light);
+      light.switch(true, showHelpers);
+      return { light, intensity: config.intensity };
+    });
+    const progress = { fade: 0 };
+
+    /**
+     * Sets the intensities of the previous and the new lights to the current state of the crossfade.
+     *
+     * @returns {void}
+     */
+    const fade = (): void => {
+      for (const entry of outgoing) {
+        entry.light.setLightIntensity(entry.intensity * (1 - progress.fade));
+      }
+      for (const entry of incoming) {
+        entry.light.setLightIntensity(entry.intensity * progress.fade);
+      }
+      onChange();
+    };
+
+    return new Promise<boolean>((resolve) => {
+      crossfade = { outgoing: outgoing.map((entry) => entry.key), incoming, resolve };
+      if (duration <= 0) {
+        finishCrossfade();
+        return;
+      }
+      fade();
+      tween = new JEASINGS.JEasing(progress)
+        .to({ fade: 1 }, duration)
+        .easing(JEASINGS.Sinusoidal.InOut)
+        .onUpdate(fade)
+        .onComplete(() => {
+          tween = undefined;
+          finishCrossfade();
+        })
+        .start();
+    });
+  };
+
+  /**
+   * Stores the current lights of the construct as a custom rig. A running crossfade is finished first,
+   * so that the lights are saved at their full intensity.
+   *
+   * @param {string} name - The name of the rig.
+   * @returns {lightingRig} The stored rig.
+   * @throws {Error} Throws an error if the construct has no lights or the name is the one of a preset.
+   */
+  const save = (name: string): lightingRig => {
+    finishCrossfade();
+    const rig: lightingRig = { name, lights: [...lights.values()].map((light) => ({ ...light.getConfig() })) };
+    set(rig);
+    return copyLightingRig(rig);
+  };
+
+  /**
+   * Replaces all custom rigs by the given list, e.g. read from a scene document. The presets are kept.
+   *
+   * @param {unknown} list - The custom rigs to import.
+   * @returns {void}
+   * @throws {Error} Throws an error if the list contains an invalid rig or a rig with the name of a preset.
+   */
+  const importRigs = (list: unknown): void => {
+    const result = z.array(lightingRigSchema).safeParse(list);
+    if (!result.success) {
+      throw new Error('Invalid lighting rigs');
+    }
+    const preset = result.data.find((rig) => presets.has(rig.name));
+    if (preset) {
+      throw new Error(`The preset lighting rig ${preset.name} cannot be replaced`);
+    }
+    customRigs.clear();
+    for (const rig of result.data) {
+      customRigs.set(rig.name, rig);
+    }
+    changed();
+  };
+
+  return {
+    set,
+    get,
+    list: (): lightingRig[] => [...presets.values(), ...customRigs.values()].map(copyLightingRig),
+    isPreset: (name: string): boolean => presets.has(name),
+    delete: (name: string): boolean => {
+      const deleted = customRigs.delete(name);
+      if (deleted) {
+        changed();
+      }
+      return deleted;
+    },
+    apply,
+    save,
+    finishCrossfade,
+    export: (): lightingRig[] => [...customRigs.values()].map(copyLightingRig),
+    import: importRigs,
+    lightingRigsChanged$: subject.asObservable(),
+  };
+};
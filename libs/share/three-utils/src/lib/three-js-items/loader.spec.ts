@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import { disposeObject } from './dispose';
+import { ModelLoaderError, modelLoaderErrorEnum } from './errors/model-loader-error';
+import { clearModelCache, detectModelFormat, modelFormatEnum, modelLoader } from './loader';
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const asciiStl = `solid test
+facet normal 0 0 1
+  outer loop
+    vertex 0 0 0
+    vertex 1 0 0
+    vertex 0 1 0
+  endloop
+endfacet
+endsolid test`;
+
+describe('detectModelFormat', () => {
+  it('should prefer the file extension', () => {
+    expect(detectModelFormat(encode(asciiStl), 'parts/Laufrolle.OBJ?version=2')).toBe(modelFormatEnum.OBJ);
+  });
+
+  it('should detect the format from the magic bytes', () => {
+    expect(detectModelFormat(encode('glTF\u0002\u0000\u0000\u0000'))).toBe(modelFormatEnum.GLB);
+    expect(detectModelFormat(encode('ply\nformat ascii 1.0\n'))).toBe(modelFormatEnum.PLY);
+    expect(detectModelFormat(encode('PK\u0003\u0004'))).toBe(modelFormatEnum.THREE_MF);
+    expect(detectModelFormat(encode('Kaydara FBX Binary  \u0000'))).toBe(modelFormatEnum.FBX);
+    expect(detectModelFormat(encode('<?xml version="1.0"?><COLLADA>'))).toBe(modelFormatEnum.COLLADA);
+    expect(detectModelFormat(encode(asciiStl))).toBe(modelFormatEnum.STL);
+    expect(detectModelFormat(encode('# comment\nv 0 0 0\nv 1 0 0\nf 1 2 3\n'))).toBe(modelFormatEnum.OBJ);
+  });
+
+  it('should detect binary STL files by their size', () => {
+    const data = new ArrayBuffer(84 + 50);
+    new DataView(data).setUint32(80, 1, true);
+    expect(detectModelFormat(data)).toBe(modelFormatEnum.STL);
+  });
+});
+
+describe('modelLoader', () => {
+  it('should normalize geometry-only formats into a group with a mesh', async () => {
+    const result = await modelLoader({ data: encode(asciiStl) });
+    expect(result.format).toBe(modelFormatEnum.STL);
+    expect(result.group).toBeInstanceOf(THREE.Group);
+    expect(result.group.children[0]).toBeInstanceOf(THREE.Mesh);
+  });
+
+  it('should reject unknown content with a typed error', async () => {
+    const promise = modelLoader({ data: encode('nothing to see') });
+    await expect(promise).rejects.toBeInstanceOf(ModelLoaderError);
+    await expect(promise).rejects.toMatchObject({ reason: modelLoaderErrorEnum.UNKNOWN_FORMAT });
+  });
+
+  it('should reject a missing input with a typed error', async () => {
+    await expect(modelLoader({})).rejects.toMatchObject({ reason: modelLoaderErrorEnum.INVALID_INPUT });
+  });
+
+  it('should reject invalid base64 content with a typed error', async () => {
+    const promise = modelLoader({ base64: 'not base64!', fileName: 'broken.glb' });
+    await expect(promise).rejects.toBeInstanceOf(ModelLoaderError);
+    await expect(promise).rejects.toMatchObject({ reason: modelLoaderErrorEnum.INVALID_INPUT });
+  });
+
+  it('should return clones of cached models', async () => {
+    clearModelCache();
+    const first = await modelLoader({ data: encode(asciiStl) });
+    const second = await modelLoader({ data: encode(asciiStl) });
+    const firstMesh = first.group.children[0] as THREE.Mesh;
+    const secondMesh = second.group.children[0] as THREE.Mesh;
+    expect(second.group).not.toBe(first.group);
+    expect(secondMesh.geometry).not.toBe(firstMesh.geometry);
+    expect(secondMesh.material).not.toBe(firstMesh.material);
+  });
+
+  it('should keep cached models usable after an instance has been disposed', async () => {
+    clearModelCache();
+    const first = await modelLoader({ data: encode(asciiStl) });
+    const second = await modelLoader({ data: encode(asciiStl) });
+    const secondMesh = second.group.children[0] as THREE.Mesh;
+    const dispose = jest.spyOn(secondMesh.geometry, 'dispose');
+
+    disposeObject(first.group);
+    const third = await modelLoader({ data: encode(asciiStl) });
+
+    expect(dispose).not.toHaveBeenCalled();
+    expect((third.group.children[0] as THREE.Mesh).geometry.getAttribute('position').count).toBe(3);
+  });
+
+  it('should report the download progress in bytes', async () => {
+    const bytes = new Uint8Array(encode(asciiStl));
+    const half = Math.floor(bytes.length / 2);
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller): void => {
+        controller.enqueue(bytes.slice(0, half));
+        controller.enqueue(bytes.slice(half));
+        controller.close();
+      },
+    });
+    const fetchMock = jest
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response(body, { headers: { 'content-length': String(bytes.length) } }));
+    const onProgress = jest.fn();
+
+    try {
+      const result = await modelLoader({ url: 'models/progress.stl' }, { onProgress, cache: false });
+      expect(result.format).toBe(modelFormatEnum.STL);
+    } finally {
+      fetchMock.mockRestore();
+    }
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ loaded: 0, total: bytes.length }],
+      [{ loaded: half, total: bytes.length }],
+      [{ loaded: bytes.length, total: bytes.length }],
+    ]);
+  });
+
+  it('should reject an aborted load with a typed error', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(modelLoader({ data: encode(asciiStl) }, { signal: controller.signal })).rejects.toMatchObject({
+      reason: modelLoaderErrorEnum.ABORTED,
+    });
+  });
+});
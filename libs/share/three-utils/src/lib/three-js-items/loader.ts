@@ -1,13 +1,121 @@
-import { GLTF, GLTFLoader } from 'three-stdlib';
+import * as THREE from 'three';
+import {
+  ColladaLoader,
+  FBXLoader,
+  GLTF,
+  GLTFLoader,
+  MaterialCreator,
+  MTLLoader,
+  OBJLoader,
+  PLYLoader,
+  SkeletonUtils,
+  STLLoader,
+  ThreeMFLoader,
+} from 'three-stdlib';
+import { ModelLoaderError, modelLoaderErrorEnum } from './errors/model-loader-error';
+import { assertGltfDecoders, createGltfLoader } from './model-decoders';
+
+/**
+ * Enum for the supported model formats
+ */
+export enum modelFormatEnum {
+  GLB,
+  GLTF,
+  STL,
+  OBJ,
+  PLY,
+  THREE_MF,
+  FBX,
+  COLLADA,
+  UNKNOWN,
+}
+
+/**
+ * Input of the model loader. Exactly one of `data`, `base64` or `url` has to be given.
+ * The format is taken from `format`, from the extension of `fileName` or `url`, or detected from the magic bytes.
+ */
+export interface modelLoaderInput {
+  data?: ArrayBuffer;
+  base64?: string;
+  url?: string;
+  fileName?: string;
+  format?: modelFormatEnum;
+  materialUrl?: string;
+}
+
+/**
+ * Result of the model loader
+ */
+export interface modelLoaderResult {
+  group: THREE.Group;
+  animations: THREE.AnimationClip[];
+  format: modelFormatEnum;
+}
+
+/**
+ * Progress of a model download in bytes. `total` is 0 if the server does not report the content length.
+ */
+export interface modelLoadProgress {
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Options of a model load
+ *
+ * - onProgress: Called with the downloaded bytes while a model is fetched from a URL.
+ * - signal: Aborts the load; the promise then rejects with a `ModelLoaderError` of reason `ABORTED`.
+ * - cache: Whether the parsed model is taken from and stored in the model cache (default `true`).
+ */
+export interface modelLoadOptions {
+  onProgress?: (progress: modelLoadProgress) => void;
+  signal?: AbortSignal;
+  cache?: boolean;
+}
+
+/**
+ * Default number of parsed models kept in the model cache
+ */
+export const defaultModelCacheSize = 10;
+
+/**
+ * File extensions of the supported model formats
+ */
+const modelExtensions: Record<string, modelFormatEnum> = {
+  glb: modelFormatEnum.GLB,
+  gltf: modelFormatEnum.GLTF,
+  stl: modelFormatEnum.STL,
+  obj: modelFormatEnum.OBJ,
+  ply: modelFormatEnum.PLY,
+  '3mf': modelFormatEnum.THREE_MF,
+  fbx: modelFormatEnum.FBX,
+  dae: modelFormatEnum.COLLADA,
+};
+
+/**
+ * Creates the material used for formats that only deliver geometry (STL, PLY).
+ *
+ * @param {boolean} vertexColors - Whether the geometry carries vertex colors.
+ * @returns {THREE.MeshStandardMaterial} The default material.
+ */
+const defaultModelMaterial = (vertexColors: boolean): THREE.MeshStandardMaterial => {
+  return new THREE.MeshStandardMaterial({ color: vertexColors ? 0xffffff : 0x808088, vertexColors });
+};
 
 /**
  * Converts a base64 string to an ArrayBuffer containing the binary data.
  *
  * @param {string} base64 - The base64 string to convert.
  * @returns {ArrayBufferLike} - An ArrayBuffer containing the binary data.
+ * @throws {ModelLoaderError} Throws an error of reason `INVALID_INPUT` if the string is not valid base64.
  */
-const base64ToArrayBuffer = (base64: string): ArrayBufferLike => {
-  const binaryString = window.atob(base64); // Decodes the base64 string
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  let binaryString: string;
+  try {
+    binaryString = atob(base64); // Decodes the base64 string
+  } catch (error) {
+    throw new ModelLoaderError('Model content is not valid base64', modelLoaderErrorEnum.INVALID_INPUT, error);
+  }
   const length = binaryString.length;
   const bytes = new Uint8Array(length);
 
@@ -18,70 +126,475 @@ const base64ToArrayBuffer = (base64: string): ArrayBufferLike => {
 };
 
 /**
- * Asynchronously loads a GLB content encoded as base64 string and parses it into a GLTF object.
+ * Detects the model format from the extension of a file name or URL.
  *
- * @param {string} glbContent - The base64-encoded GLB content to be loaded.
- * @returns {Promise<GLTF | undefined>} A Promise that resolves with the parsed GLTF object or undefined if loading fails.
+ * @param {string | undefined} name - The file name or URL.
+ * @returns {modelFormatEnum} The detected format, or `UNKNOWN`.
  */
-const loadGlbBase64 = async (glbContent: string): Promise<GLTF | undefined> => {
-  const arrayBuffer = base64ToArrayBuffer(glbContent);
-  const loader = new GLTFLoader();
+export const detectModelFormatByName = (name: string | undefined): modelFormatEnum => {
+  const extension = name?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension !== undefined && extension in modelExtensions ? modelExtensions[extension] : modelFormatEnum.UNKNOWN;
+};
 
-  return new Promise<GLTF | undefined>((resolve, reject) => {
-    loader.parse(
-      arrayBuffer,
-      '',
-      (gltf) => {
-        resolve(gltf);
+/**
+ * Detects the model format from the leading bytes of the file content.
+ *
+ * @param {ArrayBuffer} data - The file content.
+ * @returns {modelFormatEnum} The detected format, or `UNKNOWN`.
+ */
+export const detectModelFormatByContent = (data: ArrayBuffer): modelFormatEnum => {
+  const head = new TextDecoder().decode(data.slice(0, 1024));
+  if (head.startsWith('glTF')) {
+    return modelFormatEnum.GLB;
+  }
+  if (head.startsWith('PK\u0003\u0004')) {
+    return modelFormatEnum.THREE_MF;
+  }
+  if (head.startsWith('Kaydara FBX Binary') || head.includes('FBXHeaderExtension')) {
+    return modelFormatEnum.FBX;
+  }
+  if (head.startsWith('ply')) {
+    return modelFormatEnum.PLY;
+  }
+  if (head.includes('<COLLADA')) {
+    return modelFormatEnum.COLLADA;
+  }
+  if (head.trimStart().startsWith('{') && head.includes('"asset"')) {
+    return modelFormatEnum.GLTF;
+  }
+  if (head.trimStart().startsWith('solid') && head.includes('facet')) {
+    return modelFormatEnum.STL;
+  }
+  if (/^(v|vn|vt|f|o|g|mtllib)\s/m.test(head)) {
+    return modelFormatEnum.OBJ;
+  }
+  // binary STL: 80 byte header, triangle count and 50 bytes per triangle
+  if (data.byteLength >= 84 && 84 + new DataView(data).getUint32(80, true) * 50 === data.byteLength) {
+    return modelFormatEnum.STL;
+  }
+  return modelFormatEnum.UNKNOWN;
+};
+
+/**
+ * Detects the model format, preferring the file extension over the file content.
+ *
+ * @param {ArrayBuffer} data - The file content.
+ * @param {string | undefined} name - The file name or URL.
+ * @returns {modelFormatEnum} The detected format, or `UNKNOWN`.
+ */
+export const detectModelFormat = (data: ArrayBuffer, name: string | undefined = undefined): modelFormatEnum => {
+  const byName = detectModelFormatByName(name);
+  return byName !== modelFormatEnum.UNKNOWN ? byName : detectModelFormatByContent(data);
+};
+
+/**
+ * Least recently used cache of parsed models. Re-inserting an entry into the map moves it to the end,
+ * so the first key is always the least recently used one.
+ */
+const modelCache = new Map<string, modelLoaderResult | GLTF>();
+let modelCacheSize = defaultModelCacheSize;
+
+/**
+ * Retrieves a parsed model from the cache and marks it as recently used.
+ *
+ * @param {string} key - The cache key.
+ * @returns {modelLoaderResult | GLTF | undefined} The cached model, or `undefined` if it is not cached.
+ */
+const getCachedModel = (key: string): modelLoaderResult | GLTF | undefined => {
+  const entry = modelCache.get(key);
+  if (entry) {
+    modelCache.delete(key);
+    modelCache.set(key, entry);
+  }
+  return entry;
+};
+
+/**
+ * Stores a parsed model in the cache and evicts the least recently used models beyond the cache size.
+ *
+ * @param {string} key - The cache key.
+ * @param {modelLoaderResult | GLTF} entry - The parsed model.
+ * @returns {void}
+ */
+const setCachedModel = (key: string, entry: modelLoaderResult | GLTF): void => {
+  modelCache.delete(key);
+  modelCache.set(key, entry);
+  while (modelCache.size > modelCacheSize) {
+    const [oldest] = modelCache.keys();
+    modelCache.delete(oldest);
+  }
+};
+
+/**
+ * Sets the number of parsed models kept in the model cache. A size of 0 disables the cache.
+ *
+ * @param {number} size - The maximum number of cached models.
+ * @returns {void}
+ */
+export const setModelCacheSize = (size: number): void => {
+  modelCacheSize = Math.max(0, Math.floor(size));
+  while (modelCache.size > modelCacheSize) {
+    const [oldest] = modelCache.keys();
+    modelCache.delete(oldest);
+  }
+};
+
+/**
+ * Removes all parsed models from the model cache.
+ *
+ * @returns {void}
+ */
+export const clearModelCache = (): void => {
+  modelCache.clear();
+};
+
+/**
+ * Calculates a FNV-1a hash of binary content, used as cache key for models that are not loaded from a URL.
+ *
+ * @param {ArrayBuffer} data - The content to hash.
+ * @returns {string} The hash together with the content length.
+ */
+const hashContent = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash = Math.imul(hash ^ byte, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${String(bytes.length)}`;
+};
+
+/**
+ * Clones a material together with its textures. Textures used by several materials are cloned once.
+ *
+ * @param {THREE.Material} material - The material to clone.
+ * @param {Map<THREE.Texture, THREE.Texture>} textures - The textures cloned so far, by original texture.
+ * @returns {THREE.Material} The clone.
+ */
+const cloneMaterial = (material: THREE.Material, textures: Map<THREE.Texture, THREE.Texture>): THREE.Material => {
+  const clone = material.clone();
+  const slots = clone as unknown as Record<string, unknown>;
+  for (const [slot, value] of Object.entries(slots)) {
+    if (value instanceof THREE.Texture) {
+      const texture = textures.get(value) ?? value.clone();
+      textures.set(value, texture);
+      slots[slot] = texture;
+    }
+  }
+  return clone;
+};
+
+/**
+ * Clones a cached object tree. Skinned meshes are rebound to the cloned skeleton. Geometries, materials and
+ * textures are cloned as well, so that disposing an instance leaves the cache entry and the other instances
+ * intact; the cloned textures still share their image source with the cache entry.
+ *
+ * @param {THREE.Object3D} object - The cached object.
+ * @returns {THREE.Object3D} The clone.
+ */
+const cloneCachedObject = (object: THREE.Object3D): THREE.Object3D => {
+  const clone = SkeletonUtils.clone(object);
+  const geometries = new Map<THREE.BufferGeometry, THREE.BufferGeometry>();
+  const textures = new Map<THREE.Texture, THREE.Texture>();
+  clone.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const mesh = child as THREE.Mesh;
+      const geometry = geometries.get(mesh.geometry) ?? mesh.geometry.clone();
+      geometries.set(mesh.geometry, geometry);
+      mesh.geometry = geometry;
+      const material = mesh.material;
+      mesh.material =
+        material instanceof Array ? material.map((m) => cloneMaterial(m, textures)) : cloneMaterial(material, textures);
+    }
+  });
+  return clone;
+};
+
+/**
+ * Throws if the given signal has been aborted.
+ *
+ * @param {AbortSignal | undefined} signal - The abort signal of the load.
+ * @returns {void}
+ * @throws {ModelLoaderError} Throws an error of reason `ABORTED` if the signal has been aborted.
+ */
+const throwIfAborted = (signal: AbortSignal | undefined): void => {
+  if (signal?.aborted) {
+    throw new ModelLoaderError('Model load has been aborted', modelLoaderErrorEnum.ABORTED, signal.reason);
+  }
+};
+
+/**
+ * Fetches a file as ArrayBuffer and reports the download progress.
+ *
+ * @param {string} url - The URL of the file.
+ * @param {modelLoadOptions} options - The progress callback and abort signal of the load.
+ * @returns {Promise<ArrayBuffer>} A promise that resolves with the file content.
+ * @throws {ModelLoaderError} Rejects if the file cannot be fetched or the load has been aborted.
+ */
+const fetchArrayBuffer = async (url: string, options: modelLoadOptions = {}): Promise<ArrayBuffer> => {
+  const { onProgress, signal } = options;
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`${String(response.status)} ${response.statusText}`);
+    }
+    if (!onProgress || !response.body) {
+      return await response.arrayBuffer();
+    }
+    const total = Number(response.headers.get('Content-Length') ?? 0);
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    onProgress({ loaded, total });
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      loaded += value.length;
+      onProgress({ loaded, total });
+    }
+    const bytes = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes.buffer;
+  } catch (error) {
+    throwIfAborted(signal);
+    throw new ModelLoaderError(`Model could not be fetched from ${url}`, modelLoaderErrorEnum.FETCH_FAILED, error);
+  }
+};
+
+/**
+ * Loads the materials of an OBJ file from an MTL file.
+ *
+ * @param {string} url - The URL of the MTL file.
+ * @returns {Promise<MaterialCreator>} A promise that resolves with the preloaded materials.
+ */
+const loadMaterials = async (url: string): Promise<MaterialCreator> => {
+  const loader = new MTLLoader();
+  return new Promise<MaterialCreator>((resolve, reject) => {
+    loader.load(
+      url,
+      (materials) => {
+        materials.preload();
+        resolve(materials);
       },
+      undefined,
       (error) => {
-        console.error('Error loading gltf content', error);
-        // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
-        reject();
+        reject(
+          new ModelLoaderError(`Materials could not be loaded from ${url}`, modelLoaderErrorEnum.FETCH_FAILED, error),
+        );
       },
     );
   });
 };
 
 /**
- * Asynchronously loads a GLB file from the specified path and parses it into a GLTF object.
+ * Parses glTF content (binary or JSON) with the given loader.
+ * Compressed content is checked up front so that a missing decoder is reported instead of a generic parse error.
  *
- * @param {string} glbPath - The path to the GLB file to be loaded.
- * @returns {Promise<GLTF | undefined>} A Promise that resolves with the parsed GLTF object or undefined if loading fails.
+ * @param {GLTFLoader} loader - The glTF loader to be used.
+ * @param {ArrayBuffer} data - The glTF content.
+ * @param {string} path - The base path for external resources.
+ * @returns {Promise<GLTF>} A Promise that resolves with the parsed GLTF object.
+ * @throws {ModelLoaderError} Rejects if a required decoder is missing or parsing fails.
  */
-const loadGlb = async (glbPath: string): Promise<GLTF | undefined> => {
-  const loader = new GLTFLoader();
-  return new Promise<GLTF | undefined>((resolve, reject) => {
-    loader.load(
-      glbPath,
+export const parseGltf = async (loader: GLTFLoader, data: ArrayBuffer, path: string): Promise<GLTF> => {
+  assertGltfDecoders(data);
+  return new Promise<GLTF>((resolve, reject) => {
+    loader.parse(
+      data,
+      path,
       (gltf) => {
         resolve(gltf);
       },
-      (para) => {
-        if (para.loaded) {
-          //
-        }
-      }, // onProgress callback, not needed here
       (error) => {
         console.error('Error loading gltf content', error);
-        // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
-        reject(undefined);
+        reject(new ModelLoaderError('glTF content could not be parsed', modelLoaderErrorEnum.PARSE_FAILED, error));
       },
     );
   });
 };
 
+/**
+ * Wraps a geometry of a geometry-only format into a group with a mesh.
+ *
+ * @param {THREE.BufferGeometry} geometry - The parsed geometry.
+ * @returns {THREE.Group} A group containing the mesh.
+ */
+const geometryToGroup = (geometry: THREE.BufferGeometry): THREE.Group => {
+  if (!geometry.hasAttribute('normal')) {
+    geometry.computeVertexNormals();
+  }
+  const mesh = new THREE.Mesh(geometry, defaultModelMaterial(geometry.hasAttribute('color')));
+  return new THREE.Group().add(mesh);
+};
+
+/**
+ * Wraps an object (e.g. a scene returned by a loader) into a group keeping its transform.
+ *
+ * @param {THREE.Object3D} object - The object to wrap.
+ * @returns {THREE.Group} The group containing the children of the object.
+ */
+const objectToGroup = (object: THREE.Object3D): THREE.Group => {
+  if (object instanceof THREE.Group) {
+    return object;
+  }
+  const group = new THREE.Group();
+  group.name = object.name;
+  group.position.copy(object.position);
+  group.quaternion.copy(object.quaternion);
+  group.scale.copy(object.scale);
+  group.add(...object.children);
+  return group;
+};
+
+/**
+ * Parses the model content according to its format.
+ *
+ * @param {ArrayBuffer} data - The model content.
+ * @param {modelFormatEnum} format - The format of the content.
+ * @param {string} path - The base path for external resources.
+ * @param {string | undefined} materialUrl - The URL of an MTL file for OBJ content.
+ * @param {GLTFLoader} gltfLoader - The glTF loader to be used for GLB and glTF content.
+ * @returns {Promise<modelLoaderResult>} A promise that resolves with the normalized model.
+ */
+const parseModel = async (
+  data: ArrayBuffer,
+  format: modelFormatEnum,
+  path: string,
+  materialUrl: string | undefined,
+  gltfLoader: GLTFLoader,
+): Promise<modelLoaderResult> => {
+  const text = (): string => new TextDecoder().decode(data);
+  switch (format) {
+    case modelFormatEnum.GLB:
+    case modelFormatEnum.GLTF: {
+      const gltf = await parseGltf(gltfLoader, data, path);
+      return { group: objectToGroup(gltf.scene), animations: gltf.animations, format };
+    }
+    case modelFormatEnum.STL:
+      return { group: geometryToGroup(new STLLoader().parse(data)), animations: [], format };
+    case modelFormatEnum.PLY:
+      return { group: geometryToGroup(new PLYLoader().parse(data)), animations: [], format };
+    case modelFormatEnum.OBJ: {
+      const loader = new OBJLoader();
+      if (materialUrl) {
+        loader.setMaterials(await loadMaterials(materialUrl));
+      }
+      return { group: loader.parse(text()), animations: [], format };
+    }
+    case modelFormatEnum.THREE_MF:
+      return { group: new ThreeMFLoader().parse(data), animations: [], format };
+    case modelFormatEnum.FBX: {
+      const group = new FBXLoader().parse(data, path);
+      return { group, animations: group.animations, format };
+    }
+    case modelFormatEnum.COLLADA: {
+      const collada = new ColladaLoader().parse(text(), path);
+      return { group: objectToGroup(collada.scene), animations: collada.scene.animations, format };
+    }
+    default:
+      throw new ModelLoaderError('Model format could not be detected', modelLoaderErrorEnum.UNKNOWN_FORMAT);
+  }
+};
+
+/**
+ * Asynchronously loads a model in one of the supported formats (GLB, glTF, STL, OBJ with MTL, PLY, 3MF, FBX, Collada)
+ * from an ArrayBuffer, a base64 string or a URL and normalizes it into a `THREE.Group`.
+ * The animations of the model are returned and additionally stored in `group.animations`.
+ *
+ * Parsed models are kept in an LRU cache keyed by URL or content hash. A cached model is returned as clone,
+ * so every call receives its own object tree.
+ *
+ * @param {modelLoaderInput} input - The content or location of the model.
+ * @param {modelLoadOptions} options - Progress callback, abort signal and cache usage of the load.
+ * @param {GLTFLoader} gltfLoader - The glTF loader to be used for GLB and glTF content, by default one using the shared decoders.
+ * @returns {Promise<modelLoaderResult>} A promise that resolves with the normalized model.
+ * @throws {ModelLoaderError} Rejects if the input is invalid, the file cannot be fetched, the format is unknown, parsing fails or the load has been aborted.
+ */
+export const modelLoader = async (
+  input: modelLoaderInput,
+  options: modelLoadOptions = {},
+  gltfLoader: GLTFLoader = createGltfLoader(),
+): Promise<modelLoaderResult> => {
+  const useCache = (options.cache ?? true) && modelCacheSize > 0;
+  throwIfAborted(options.signal);
+  const { url } = input;
+  let data = input.data ?? (input.base64 ? base64ToArrayBuffer(input.base64) : undefined);
+  if (!data && !url) {
+    throw new ModelLoaderError('No model content or URL given', modelLoaderErrorEnum.INVALID_INPUT);
+  }
+
+  const source = data ? `content:${hashContent(data)}` : `url:${url ?? ''}`;
+  const key = `model:${source}|${String(input.format ?? '')}|${input.materialUrl ?? ''}`;
+  const cached = useCache ? getCachedModel(key) : undefined;
+  if (cached && 'group' in cached) {
+    const group = cloneCachedObject(cached.group) as THREE.Group;
+    group.animations = cached.animations;
+    return { group, animations: cached.animations, format: cached.format };
+  }
+
+  data ??= await fetchArrayBuffer(url ?? '', options);
+  const format = input.format ?? detectModelFormat(data, input.fileName ?? input.url);
+  const path = input.url ? THREE.LoaderUtils.extractUrlBase(input.url) : '';
+  let result: modelLoaderResult;
+  try {
+    result = await parseModel(data, format, path, input.materialUrl, gltfLoader);
+  } catch (error) {
+    if (error instanceof ModelLoaderError) {
+      throw error;
+    }
+    throw new ModelLoaderError('Model content could not be parsed', modelLoaderErrorEnum.PARSE_FAILED, error);
+  }
+  // parsing cannot be interrupted, but an aborted load must not deliver its result
+  throwIfAborted(options.signal);
+  result.group.animations = result.animations;
+  if (useCache) {
+    setCachedModel(key, result);
+    const group = cloneCachedObject(result.group) as THREE.Group;
+    group.animations = result.animations;
+    return { group, animations: result.animations, format: result.format };
+  }
+  return result;
+};
+
 /**
  * Asynchronously loads a GLB file from the specified path or a base64-encoded string and parses it into a GLTF object.
+ * Parsed files are kept in the model cache; a cached file is returned with a cloned scene.
  *
  * @param {string} content - The base64-encoded GLB content to be loaded.
  * @param {string} path - The path to the GLB file to be loaded.
- * @returns {Promise<GLTF | undefined>} A Promise that resolves with the parsed GLTF object or undefined if loading fails.
+ * @param {modelLoadOptions} options - Progress callback, abort signal and cache usage of the load.
+ * @returns {Promise<GLTF | undefined>} A Promise that resolves with the parsed GLTF object.
+ * @throws {ModelLoaderError} Rejects if the file cannot be fetched or parsed or the load has been aborted.
  */
-export const glbLoader = async (content: string | undefined, path: string): Promise<GLTF | undefined> => {
-  if (content) {
-    return await loadGlbBase64(content);
-  } else {
-    return await loadGlb(path);
+export const glbLoader = async (
+  content: string | undefined,
+  path: string,
+  options: modelLoadOptions = {},
+): Promise<GLTF | undefined> => {
+  const useCache = (options.cache ?? true) && modelCacheSize > 0;
+  throwIfAborted(options.signal);
+  const data = content ? base64ToArrayBuffer(content) : undefined;
+  const key = `gltf:${data ? `content:${hashContent(data)}` : `url:${path}`}`;
+  const cached = useCache ? getCachedModel(key) : undefined;
+  if (cached && 'scene' in cached) {
+    return { ...cached, scene: cloneCachedObject(cached.scene) as THREE.Group };
+  }
+
+  const gltf = await parseGltf(
+    createGltfLoader(),
+    data ?? (await fetchArrayBuffer(path, options)),
+    content ? '' : THREE.LoaderUtils.extractUrlBase(path),
+  );
+  throwIfAborted(options.signal);
+  if (useCache) {
+    setCachedModel(key, gltf);
+    return { ...gltf, scene: cloneCachedObject(gltf.scene) as THREE.Group };
   }
+  return gltf;
 };
@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import {
+  createMeasurements,
+  formatLength,
+  measureAngle,
+  measurementToolEnum,
+  measurementTypeEnum,
+  measurementUnitEnum,
+  snapMeasurementPoint,
+} from './measurement';
+import { isHelperObject } from './selection';
+
+describe('formatLength', () => {
+  it('should convert model units into the display unit', () => {
+    const options = { unit: measurementUnitEnum.MM, modelUnitScale: 1, precision: 1 };
+    expect(formatLength(0.0125, options)).toBe('12.5 mm');
+    expect(formatLength(2, { ...options, unit: measurementUnitEnum.CM, modelUnitScale: 0.001 })).toBe('0.2 cm');
+    expect(formatLength(0.0254, { ...options, unit: measurementUnitEnum.IN })).toBe('1.0 in');
+  });
+});
+
+describe('measureAngle', () => {
+  it('should measure the angle at the vertex in degrees', () => {
+    const vertex = new THREE.Vector3(1, 1, 0);
+    expect(measureAngle(new THREE.Vector3(2, 1, 0), vertex, new THREE.Vector3(1, 3, 0))).toBeCloseTo(90);
+    expect(measureAngle(vertex, vertex, new THREE.Vector3())).toBe(0);
+  });
+});
+
+describe('snapMeasurementPoint', () => {
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), new THREE.MeshBasicMaterial());
+  mesh.updateMatrixWorld();
+  const hit = (x: number, y: number): THREE.Intersection => {
+    const raycaster = new THREE.Raycaster(new THREE.Vector3(x, y, 5), new THREE.Vector3(0, 0, -1));
+    return raycaster.intersectObject(mesh)[0];
+  };
+
+  it('should snap to a nearby vertex or edge', () => {
+    expect(snapMeasurementPoint(hit(0.95, 0.95), 0.1).toArray()).toEqual([1, 1, 0]);
+    const edgePoint = snapMeasurementPoint(hit(0.2, 0.95), 0.1);
+    expect(edgePoint.x).toBeCloseTo(0.2);
+    expect(edgePoint.y).toBe(1);
+  });
+
+  it('should keep a point far from vertices and edges', () => {
+    const point = snapMeasurementPoint(hit(0.3, 0.1), 0.05);
+    expect(point.x).toBeCloseTo(0.3);
+    expect(point.y).toBeCloseTo(0.1);
+  });
+});
+
+describe('createMeasurements', () => {
+  it('should collect the picked points of the active tool', () => {
+    const measurements = createMeasurements();
+    measurements.setTool(measurementToolEnum.DISTANCE);
+
+    expect(measurements.addPoint(new THREE.Vector3(0, 0, 0))).toBeUndefined();
+    const distance = measurements.addPoint(new THREE.Vector3(0, 0.003, 0.004));
+    expect(distance?.type).toBe(measurementTypeEnum.DISTANCE);
+    expect(distance && measurements.format(distance)).toBe('5.0 mm');
+
+    measurements.setOptions({ unit: measurementUnitEnum.CM, precision: 2 });
+    expect(distance && measurements.format(distance)).toBe('0.50 cm');
+  });
+
+  it('should measure dimensions and remove measurements', () => {
+    const measurements = createMeasurements();
+    const box = new THREE.Mesh(new THREE.BoxGeometry(1, 2, 3), new THREE.MeshBasicMaterial());
+
+    const dimensions = measurements.addDimensions(box);
+    expect(dimensions?.values).toEqual([1, 2, 3]);
+    expect(measurements.group.children.length).toBe(1);
+
+    expect(measurements.remove(dimensions?.id ?? 0)).toBe(true);
+    expect(measurements.list()).toEqual([]);
+    expect(measurements.group.children.length).toBe(0);
+  });
+
+  it('should mark the annotations as helpers', () => {
+    const measurements = createMeasurements();
+    measurements.addDistance(new THREE.Vector3(), new THREE.Vector3(1, 0, 0));
+    const [annotation] = measurements.group.children;
+
+    // an annotation stays a helper outside of the group, e.g. in another scene
+    new THREE.Scene().add(annotation);
+    expect(isHelperObject(annotation)).toBe(true);
+  });
+});
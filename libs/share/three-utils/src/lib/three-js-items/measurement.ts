@@ -0,0 +1,468 @@
+import * as THREE from 'three';
+import { disposeObject } from './dispose';
+import { markAsHelper } from './selection';
+import { calculateBoundingBox } from './share';
+
+/**
+ * Enum for the units measured lengths are displayed in
+ */
+export enum measurementUnitEnum {
+  MM,
+  CM,
+  M,
+  IN,
+}
+
+/**
+ * Enum for the kinds of measurements
+ *
+ * - DISTANCE: Distance between two points.
+ * - ANGLE: Angle at the second of three points.
+ * - DIMENSIONS: Width, height and depth of the bounding box of an object.
+ */
+export enum measurementTypeEnum {
+  DISTANCE,
+  ANGLE,
+  DIMENSIONS,
+}
+
+/**
+ * Enum for the interactive measurement tool collecting the picked points
+ */
+export enum measurementToolEnum {
+  NONE,
+  DISTANCE,
+  ANGLE,
+}
+
+/**
+ * Length of one unit in meters, together with the suffix of displayed values
+ */
+const measurementUnits: Record<measurementUnitEnum, { meters: number; suffix: string }> = {
+  [measurementUnitEnum.MM]: { meters: 0.001, suffix: 'mm' },
+  [measurementUnitEnum.CM]: { meters: 0.01, suffix: 'cm' },
+  [measurementUnitEnum.M]: { meters: 1, suffix: 'm' },
+  [measurementUnitEnum.IN]: { meters: 0.0254, suffix: 'in' },
+};
+
+/**
+ * Options for displaying measurements
+ *
+ * - unit: The unit lengths are displayed in.
+ * - modelUnitScale: The length of one model unit in meters; glTF models use meters.
+ * - precision: The number of decimals of displayed values.
+ * - color: The color of the annotations.
+ */
+export interface measurementOptions {
+  unit: measurementUnitEnum;
+  modelUnitScale: number;
+  precision: number;
+  color: number;
+}
+
+/**
+ * Default options for displaying measurements
+ */
+export const defaultMeasurementOptions: measurementOptions = {
+  unit: measurementUnitEnum.MM,
+  modelUnitScale: 1,
+  precision: 1,
+  color: 0xffd54f,
+};
+
+/**
+ * A measurement with its points in world coordinates and its value in model units or degrees.
+ * Dimensions have three values: the size along x, y and z.
+ */
+export interface measurement {
+  id: number;
+  type: measurementTypeEnum;
+  points: THREE.Vector3[];
+  values: number[];
+}
+
+/**
+ * Interface representing the measurements of a prepared construct.
+ *
+ * Methods:
+ * - group: The annotations to be added to the scene.
+ * - addDistance / addAngle / addDimensions: Create measurements and their annotations.
+ * - setTool / getTool / addPoint: Collect the points of a measurement picked by the user.
+ * - remove / clear / list: Manage the measurements.
+ * - setOptions / getOptions: Change units and appearance; all labels are updated.
+ * - format: Formats a measurement with the current options.
+ * - dispose: Removes all annotations.
+ */
+export interface measurementsReturn {
+  group: THREE.Group;
+  addDistance: (start: THREE.Vector3, end: THREE.Vector3) => measurement;
+  addAngle: (start: THREE.Vector3, vertex: THREE.Vector3, end: THREE.Vector3) => measurement;
+  addDimensions: (object: THREE.Object3D) => measurement | undefined;
+  setTool: (tool: measurementToolEnum) => void;
+  getTool: () => measurementToolEnum;
+  addPoint: (point: THREE.Vector3) => measurement | undefined;
+  remove: (id: number) => boolean;
+  clear: () => void;
+  list: () => measurement[];
+  setOptions: (options: Partial<measurementOptions>) => void;
+  getOptions: () => measurementOptions;
+  format: (entry: measurement) => string;
+  dispose: () => void;
+}
+
+/**
+ * Formats a length given in model units.
+ *
+ * @param {number} length - The length in model units.
+ * @param {measurementOptions} options - The unit, the model unit scale and the precision.
+ * @returns {string} The formatted length including the unit, e.g. `12.5 mm`.
+ */
+export const formatLength = (
+  length: number,
+  options: Pick<measurementOptions, 'unit' | 'modelUnitScale' | 'precision'>,
+): string => {
+  const unit = measurementUnits[options.unit];
+  return `${((length * options.modelUnitScale) / unit.meters).toFixed(options.precision)} ${unit.suffix}`;
+};
+
+/**
+ * Calculates the angle at a vertex between the directions to two other points.
+ *
+ * @param {THREE.Vector3} start - The first point.
+ * @param {THREE.Vector3} vertex - The vertex of the angle.
+ * @param {THREE.Vector3} end - The second point.
+ * @returns {number} The angle in degrees, 0 if a point coincides with the vertex.
+ */
+export const measureAngle = (start: THREE.Vector3, vertex: THREE.Vector3, end: THREE.Vector3): number => {
+  const a = start.clone().sub(vertex);
+  const b = end.clone().sub(vertex);
+  if (a.lengthSq() === 0 || b.lengthSq() === 0) {
+    return 0;
+  }
+  return THREE.MathUtils.radToDeg(a.angleTo(b));
+};
+
+/**
+ * Snaps a raycast hit on a mesh to the nearest vertex of the hit triangle, or to the nearest point on one
+ * of its edges, if it is closer than the threshold. Otherwise the hit point is returned.
+ *
+ * @param {THREE.Intersection} intersection - The raycast hit.
+ * @param {number} threshold - The snap distance in world units.
+ * @returns {THREE.Vector3} The snapped point in world coordinates.
+ */
+export const snapMeasurementPoint = (intersection: THREE.Intersection, threshold: number): THREE.Vector3 => {
+  const point = intersection.point.clone();
+  const face = intersection.face;
+  if (!face || !(intersection.object instanceof THREE.Mesh)) {
+    return point;
+  }
+  const mesh = intersection.object as THREE.Mesh;
+  const position = mesh.geometry.getAttribute('position') as THREE.BufferAttribute | undefined;
+  if (!position) {
+    return point;
+  }
+  const corners = [face.a, face.b, face.c].map((index) =>
+    new THREE.Vector3().fromBufferAttribute(position, index).applyMatrix4(mesh.matrixWorld),
+  );
+  const vertex = corners.reduce((nearest, corner) =>
+    corner.distanceTo(point) < nearest.distanceTo(point) ? corner : nearest,
+  );
+  if (vertex.distanceTo(point) <= threshold) {
+    return vertex;
+  }
+  const edgePoints = corners.map((corner, i) =>
+    new THREE.Line3(corner, corners[(i + 1) % 3]).closestPointToPoint(point, true, new THREE.Vector3()),
+  );
+  const edgePoint = edgePoints.reduce((nearest, candidate) =>
+    candidate.distanceTo(point) < nearest.distanceTo(point) ? candidate : nearest,
+  );
+  return edgePoint.distanceTo(point) <= threshold ? edgePoint : point;
+};
+
+/**
+ * Creates a label that always faces the camera and keeps its size on screen.
+ * Labels need a DOM canvas; without a document no label is created.
+ *
+ * @param {string} text - The text of the label.
+ * @param {THREE.Vector3} position - The position of the label in world coordinates.
+ * @param {number} color - The color of the text.
+ * @returns {THREE.Sprite | undefined} The label.
+ */
+const createLabel = (text: string, position: THREE.Vector3, color: number): THREE.Sprite | undefined => {
+  if (typeof document === 'undefined') {
+    return undefined;
+  }
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return undefined;
+  }
+  const font = '32px sans-serif';
+  context.font = font;
+  canvas.width = Math.ceil(context.measureText(text).width) + 16;
+  canvas.height = 44;
+  context.font = font;
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = `#${new THREE.Color(color).getHexString()}`;
+  context.textBaseline = 'middle';
+  context.fillText(text, 8, canvas.height / 2);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(
+    new THREE.SpriteMaterial({ map: texture, depthTest: false, sizeAttenuation: false, transparent: true }),
+  );
+  const height = 0.04;
+  sprite.scale.set((height * canvas.width) / canvas.height, height, 1);
+  sprite.position.copy(position);
+  sprite.renderOrder = 1000;
+  return sprite;
+};
+
+/**
+ * Creates the measurements of a prepared construct.
+ *
+ * @param {Function} onChange - Called after every change of the annotations, e.g. to invalidate the frame.
+ * @param {Partial<measurementOptions>} options - The options for displaying measurements.
+ * @returns {measurementsReturn} The measurements.
+ */
+export const createMeasurements = (
+  onChange: () => void = (): void => undefined,
+  options: Partial<measurementOptions> = {},
+): measurementsReturn => {
+  const group = markAsHelper(new THREE.Group());
+  group.name = 'measurements';
+  const entries = new Map<number, { entry: measurement; annotation: THREE.Group }>();
+  let currentOptions: measurementOptions = { ...defaultMeasurementOptions, ...options };
+  let tool = measurementToolEnum.NONE;
+  let pendingPoints: THREE.Vector3[] = [];
+  let pendingAnnotation: THREE.Group | undefined;
+  let nextId = 1;
+
+  /**
+   * Formats the values of a measurement with the current options.
+   *
+   * @param {measurement} entry - The measurement.
+   * @returns {string} The formatted values.
+   */
+  const format = (entry: measurement): string => {
+    if (entry.type === measurementTypeEnum.ANGLE) {
+      return `${entry.values[0].toFixed(currentOptions.precision)}°`;
+    }
+    return entry.values.map((value) => formatLength(value, currentOptions)).join(' × ');
+  };
+
+  /**
+   * Creates the lines, point markers and labels of a measurement, marked as helper so that they are neither
+   * picked nor exported.
+   *
+   * @param {measurement} entry - The measurement.
+   * @param {boolean} labelled - Whether the values are shown; the points picked so far have no label.
+   * @returns {THREE.Group} The annotation.
+   */
+  const createAnnotation = (entry: measurement, labelled = true): THREE.Group => {
+    const annotation = markAsHelper(new THREE.Group());
+    const lineMaterial = new THREE.LineBasicMaterial({ color: currentOptions.color, depthTest: false });
+    const labels: { text: string; position: THREE.Vector3 }[] = [];
+    if (entry.type === measurementTypeEnum.DIMENSIONS) {
+      const box = new THREE.Box3().setFromPoints(entry.points);
+      const edges = new THREE.LineSegments(
+        new THREE.EdgesGeometry(new THREE.BoxGeometry(...box.getSize(new THREE.Vector3()).toArray())),
+        lineMaterial,
+      );
+      box.getCenter(edges.position);
+      annotation.add(edges);
+      const { min, max } = box;
+      const center = box.getCenter(new THREE.Vector3());
+      labels.push(
+        { text: formatLength(entry.values[0], currentOptions), position: new THREE.Vector3(center.x, min.y, max.z) },
+        { text: formatLength(entry.values[1], currentOptions), position: new THREE.Vector3(max.x, center.y, max.z) },
+        { text: formatLength(entry.values[2], currentOptions), position: new THREE.Vector3(max.x, min.y, center.z) },
+      );
+    } else {
+      annotation.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(entry.points), lineMaterial));
+      const position =
+        entry.type === measurementTypeEnum.ANGLE
+          ? entry.points[1].clone()
+          : entry.points[0].clone().lerp(entry.points[entry.points.length - 1], 0.5);
+      labels.push({ text: format(entry), position });
+    }
+    const markers = new THREE.Points(
+      new THREE.BufferGeometry().setFromPoints(entry.type === measurementTypeEnum.DIMENSIONS ? [] : entry.points),
+      new THREE.PointsMaterial({ color: currentOptions.color, size: 6, sizeAttenuation: false, depthTest: false }),
+    );
+    annotation.add(markers);
+    for (const { text, position } of labelled ? labels : []) {
+      const label = createLabel(text, position, currentOptions.color);
+      if (label) {
+        annotation.add(label);
+      }
+    }
+    annotation.traverse((child) => {
+      child.renderOrder = Math.max(child.renderOrder, 999);
+    });
+    return annotation;
+  };
+
+  /**
+   * Stores a measurement and adds its annotation to the group.
+   *
+   * @param {measurementTypeEnum} type - The kind of the measurement.
+   * @param {THREE.Vector3[]} points - The measured points.
+   * @param {number[]} values - The measured values.
+   * @returns {measurement} The measurement.
+   */
+  const add = (type: measurementTypeEnum, points: THREE.Vector3[], values: number[]): measurement => {
+    const entry: measurement = { id: nextId++, type, points: points.map((p) => p.clone()), values };
+    const annotation = createAnnotation(entry);
+    group.add(annotation);
+    entries.set(entry.id, { entry, annotation });
+    onChange();
+    return entry;
+  };
+
+  /**
+   * Removes the annotation of the points picked so far.
+   *
+   * @returns {void}
+   */
+  const clearPending = (): void => {
+    pendingPoints = [];
+    disposeObject(pendingAnnotation);
+    pendingAnnotation = undefined;
+  };
+
+  /**
+   * Measures the distance between two points.
+   *
+   * @param {THREE.Vector3} start - The first point in world coordinates.
+   * @param {THREE.Vector3} end - The second point in world coordinates.
+   * @returns {measurement} The measurement.
+   */
+  const addDistance = (start: THREE.Vector3, end: THREE.Vector3): measurement => {
+    return add(measurementTypeEnum.DISTANCE, [start, end], [start.distanceTo(end)]);
+  };
+
+  /**
+   * Measures the angle at a vertex.
+   *
+   * @param {THREE.Vector3} start - The first point in world coordinates.
+   * @param {THREE.Vector3} vertex - The vertex of the angle in world coordinates.
+   * @param {THREE.Vector3} end - The second point in world coordinates.
+   * @returns {measurement} The measurement.
+   */
+  const addAngle = (start: THREE.Vector3, vertex: THREE.Vector3, end: THREE.Vector3): measurement => {
+    return add(measurementTypeEnum.ANGLE, [start, vertex, end], [measureAngle(start, vertex, end)]);
+  };
+
+  /**
+   * Adds a picked point to the measurement of the active tool. The measurement is created once all its
+   * points are picked; until then the picked points are shown.
+   *
+   * @param {THREE.Vector3} point - The picked point in world coordinates.
+   * @returns {measurement | undefined} The created measurement, or `undefined` if more points are needed.
+   */
+  const addPoint = (point: THREE.Vector3): measurement | undefined => {
+    if (tool === measurementToolEnum.NONE) {
+      return undefined;
+    }
+    const points = [...pendingPoints, point.clone()];
+    clearPending();
+    if (tool === measurementToolEnum.DISTANCE && points.length === 2) {
+      return addDistance(points[0], points[1]);
+    }
+    if (tool === measurementToolEnum.ANGLE && points.length === 3) {
+      return addAngle(points[0], points[1], points[2]);
+    }
+    pendingPoints = points;
+    pendingAnnotation = createAnnotation({ id: 0, type: measurementTypeEnum.DISTANCE, points, values: [] }, false);
+    group.add(pendingAnnotation);
+    onChange();
+    return undefined;
+  };
+
+  /**
+   * Measures the dimensions of the bounding box of an object.
+   *
+   * @param {THREE.Object3D} object - The object to measure.
+   * @returns {measurement | undefined} The measurement, or `undefined` if the object is empty.
+   */
+  const addDimensions = (object: THREE.Object3D): measurement | undefined => {
+    const { boundingBox } = calculateBoundingBox(object);
+    if (boundingBox.isEmpty()) {
+      return undefined;
+    }
+    const size = boundingBox.getSize(new THREE.Vector3());
+    return add(measurementTypeEnum.DIMENSIONS, [boundingBox.min, boundingBox.max], size.toArray());
+  };
+
+  /**
+   * Removes a measurement and its annotation.
+   *
+   * @param {number} id - The id of the measurement.
+   * @returns {boolean} `true` if the measurement existed.
+   */
+  const remove = (id: number): boolean => {
+    const stored = entries.get(id);
+    if (!stored) {
+      return false;
+    }
+    entries.delete(id);
+    disposeObject(stored.annotation);
+    onChange();
+    return true;
+  };
+
+  /**
+   * Changes the options and recreates all annotations, so that the labels show the new units.
+   *
+   * @param {Partial<measurementOptions>} newOptions - The options to change.
+   * @returns {void}
+   */
+  const setOptions = (newOptions: Partial<measurementOptions>): void => {
+    currentOptions = { ...currentOptions, ...newOptions };
+    for (const stored of entries.values()) {
+      disposeObject(stored.annotation);
+      stored.annotation = createAnnotation(stored.entry);
+      group.add(stored.annotation);
+    }
+    onChange();
+  };
+
+  /**
+   * Removes all measurements and the points picked so far.
+   *
+   * @returns {void}
+   */
+  const clear = (): void => {
+    for (const id of [...entries.keys()]) {
+      remove(id);
+    }
+    clearPending();
+    onChange();
+  };
+
+  return {
+    group,
+    addDistance,
+    addAngle,
+    addDimensions,
+    setTool: (newTool: measurementToolEnum): void => {
+      tool = newTool;
+      clearPending();
+      onChange();
+    },
+    getTool: (): measurementToolEnum => tool,
+    addPoint,
+    remove,
+    clear,
+    list: (): measurement[] => [...entries.values()].map(({ entry }) => entry),
+    setOptions,
+    getOptions: (): measurementOptions => ({ ...currentOptions }),
+    format,
+    dispose: (): void => {
+      clear();
+      group.removeFromParent();
+    },
+  };
+};
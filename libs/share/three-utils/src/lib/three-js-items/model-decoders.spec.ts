@@ -0,0 +1,69 @@
+import { ModelLoaderError, modelLoaderErrorEnum } from './errors/model-loader-error';
+import { modelLoader } from './loader';
+import {
+  assertGltfDecoders,
+  configureModelDecoders,
+  defaultModelDecoderConfig,
+  readRequiredGltfExtensions,
+} from './model-decoders';
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const createGlb = (json: string): ArrayBuffer => {
+  const content = new TextEncoder().encode(json);
+  const chunkLength = Math.ceil(content.length / 4) * 4;
+  const data = new ArrayBuffer(20 + chunkLength);
+  const view = new DataView(data);
+  new Uint8Array(data).set(new TextEncoder().encode('glTF'), 0);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, data.byteLength, true);
+  view.setUint32(12, chunkLength, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  new Uint8Array(data).fill(0x20, 20);
+  new Uint8Array(data).set(content, 20);
+  return data;
+};
+
+const dracoGltf = JSON.stringify({
+  asset: { version: '2.0' },
+  extensionsUsed: ['KHR_draco_mesh_compression'],
+  extensionsRequired: ['KHR_draco_mesh_compression'],
+});
+
+describe('readRequiredGltfExtensions', () => {
+  it('should read the required extensions of JSON and binary glTF content', () => {
+    expect(readRequiredGltfExtensions(encode(dracoGltf))).toEqual(['KHR_draco_mesh_compression']);
+    expect(readRequiredGltfExtensions(createGlb(dracoGltf))).toEqual(['KHR_draco_mesh_compression']);
+  });
+
+  it('should return an empty list for unreadable content', () => {
+    expect(readRequiredGltfExtensions(encode('no json'))).toEqual([]);
+  });
+});
+
+describe('assertGltfDecoders', () => {
+  afterEach(() => {
+    configureModelDecoders(defaultModelDecoderConfig);
+  });
+
+  it('should accept compressed content if the decoder is configured', () => {
+    expect(() => {
+      assertGltfDecoders(createGlb(dracoGltf));
+    }).not.toThrow();
+  });
+
+  it('should report a missing decoder', async () => {
+    configureModelDecoders({ dracoDecoderPath: false });
+    await expect(modelLoader({ data: createGlb(dracoGltf) })).rejects.toMatchObject({
+      name: 'ModelLoaderError',
+      reason: modelLoaderErrorEnum.MISSING_DECODER,
+    });
+  });
+
+  it('should require a renderer for KTX2 textures', () => {
+    const gltf = JSON.stringify({ asset: { version: '2.0' }, extensionsRequired: ['KHR_texture_basisu'] });
+    expect(() => {
+      assertGltfDecoders(encode(gltf));
+    }).toThrow(ModelLoaderError);
+  });
+});
@@ -0,0 +1,179 @@
+import * as THREE from 'three';
+import { DRACOLoader, GLTFLoader, KTX2Loader, MeshoptDecoder } from 'three-stdlib';
+import { ModelLoaderError, modelLoaderErrorEnum } from './errors/model-loader-error';
+
+/**
+ * Configuration of the decoders for compressed glTF content.
+ * A path configures the location the decoder files are served from, `false` disables the decoder.
+ */
+export interface modelDecoderConfig {
+  dracoDecoderPath?: string | false;
+  ktx2TranscoderPath?: string | false;
+  meshopt?: boolean;
+}
+
+/**
+ * Default decoder configuration, matching the folders the Studio app serves the decoders from
+ */
+export const defaultModelDecoderConfig: Required<modelDecoderConfig> = {
+  dracoDecoderPath: 'draco/',
+  ktx2TranscoderPath: 'basis/',
+  meshopt: true,
+};
+
+let decoderConfig: Required<modelDecoderConfig> = { ...defaultModelDecoderConfig };
+let dracoLoader: DRACOLoader | undefined;
+let ktx2Loader: KTX2Loader | undefined;
+let decoderRenderer: THREE.WebGLRenderer | undefined;
+
+/**
+ * Releases the shared decoder instances. They are recreated on the next load.
+ *
+ * @returns {void}
+ */
+export const disposeModelDecoders = (): void => {
+  dracoLoader?.dispose();
+  dracoLoader = undefined;
+  ktx2Loader?.dispose();
+  ktx2Loader = undefined;
+};
+
+/**
+ * Configures the decoders used for compressed glTF content.
+ * The shared decoder instances are recreated with the new configuration.
+ *
+ * @param {modelDecoderConfig} config - The decoder configuration; missing values keep their current setting.
+ * @returns {void}
+ */
+export const configureModelDecoders = (config: modelDecoderConfig): void => {
+  decoderConfig = { ...decoderConfig, ...config };
+  disposeModelDecoders();
+};
+
+/**
+ * Registers the renderer used to detect the supported GPU texture formats for KTX2 textures.
+ * KTX2 textures cannot be transcoded before a renderer has been registered.
+ *
+ * @param {THREE.WebGLRenderer | undefined} renderer - The renderer, or `undefined` to unregister it.
+ * @returns {void}
+ */
+export const setModelDecoderRenderer = (renderer: THREE.WebGLRenderer | undefined): void => {
+  if (decoderRenderer === renderer) {
+    return;
+  }
+  decoderRenderer = renderer;
+  ktx2Loader?.dispose();
+  ktx2Loader = undefined;
+};
+
+/**
+ * Unregisters the given renderer if it is the one registered for KTX2 textures, e.g. when its construct is disposed.
+ *
+ * @param {THREE.WebGLRenderer} renderer - The renderer to unregister.
+ * @returns {void}
+ */
+export const releaseModelDecoderRenderer = (renderer: THREE.WebGLRenderer): void => {
+  if (decoderRenderer === renderer) {
+    setModelDecoderRenderer(undefined);
+  }
+};
+
+/**
+ * Retrieves the shared Draco loader, creating it on first use.
+ *
+ * @returns {DRACOLoader | undefined} The Draco loader, or `undefined` if Draco is disabled.
+ */
+const getDracoLoader = (): DRACOLoader | undefined => {
+  if (decoderConfig.dracoDecoderPath === false) {
+    return undefined;
+  }
+  dracoLoader ??= new DRACOLoader().setDecoderPath(decoderConfig.dracoDecoderPath);
+  return dracoLoader;
+};
+
+/**
+ * Retrieves the shared KTX2 loader, creating it on first use.
+ *
+ * @returns {KTX2Loader | undefined} The KTX2 loader, or `undefined` if KTX2 is disabled or no renderer is registered.
+ */
+const getKtx2Loader = (): KTX2Loader | undefined => {
+  if (decoderConfig.ktx2TranscoderPath === false || !decoderRenderer) {
+    return undefined;
+  }
+  ktx2Loader ??= new KTX2Loader().setTranscoderPath(decoderConfig.ktx2TranscoderPath).detectSupport(decoderRenderer);
+  return ktx2Loader;
+};
+
+/**
+ * Creates a glTF loader that uses the shared decoders for Draco, Meshopt and KTX2 compressed content.
+ *
+ * @returns {GLTFLoader} The configured glTF loader.
+ */
+export const createGltfLoader = (): GLTFLoader => {
+  const loader = new GLTFLoader();
+  const draco = getDracoLoader();
+  if (draco) {
+    loader.setDRACOLoader(draco);
+  }
+  const ktx2 = getKtx2Loader();
+  if (ktx2) {
+    loader.setKTX2Loader(ktx2);
+  }
+  if (decoderConfig.meshopt) {
+    loader.setMeshoptDecoder(MeshoptDecoder());
+  }
+  return loader;
+};
+
+/**
+ * Reads the list of required extensions from binary or JSON glTF content.
+ *
+ * @param {ArrayBuffer} data - The glTF content.
+ * @returns {string[]} The required extensions, or an empty list if the content cannot be read.
+ */
+export const readRequiredGltfExtensions = (data: ArrayBuffer): string[] => {
+  try {
+    const decoder = new TextDecoder();
+    let json: string;
+    if (decoder.decode(data.slice(0, 4)) === 'glTF') {
+      // GLB: 12 byte header, followed by the JSON chunk (length, type, content)
+      const chunkLength = new DataView(data).getUint32(12, true);
+      json = decoder.decode(data.slice(20, 20 + chunkLength));
+    } else {
+      json = decoder.decode(data);
+    }
+    const gltf = JSON.parse(json) as { extensionsRequired?: string[] };
+    return gltf.extensionsRequired ?? [];
+  } catch (_error) {
+    return [];
+  }
+};
+
+/**
+ * Ensures that a decoder is available for every compression extension required by the glTF content.
+ *
+ * @param {ArrayBuffer} data - The glTF content.
+ * @returns {void}
+ * @throws {ModelLoaderError} Throws an error naming the missing decoder.
+ */
+export const assertGltfDecoders = (data: ArrayBuffer): void => {
+  const required = readRequiredGltfExtensions(data);
+  if (required.includes('KHR_draco_mesh_compression') && decoderConfig.dracoDecoderPath === false) {
+    throw new ModelLoaderError(
+      'The model requires KHR_draco_mesh_compression but no Draco decoder is configured',
+      modelLoaderErrorEnum.MISSING_DECODER,
+    );
+  }
+  if (required.includes('EXT_meshopt_compression') && !decoderConfig.meshopt) {
+    throw new ModelLoaderError(
+      'The model requires EXT_meshopt_compression but the Meshopt decoder is disabled',
+      modelLoaderErrorEnum.MISSING_DECODER,
+    );
+  }
+  if (required.includes('KHR_texture_basisu') && (decoderConfig.ktx2TranscoderPath === false || !decoderRenderer)) {
+    throw new ModelLoaderError(
+      'The model requires KHR_texture_basisu but no KTX2 transcoder or renderer is configured',
+      modelLoaderErrorEnum.MISSING_DECODER,
+    );
+  }
+};
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { preparedConstructReturn, preparedSceneReturn } from './construct';
-import { handleMaterialSupport, hasMaterialSupport } from './material';
+import { measurementToolEnum, snapMeasurementPoint } from './measurement';
+import { selectionModeFromEvent } from './selection';
 
 /**
  * Represents an interface for handling mouse event support.
@@ -72,15 +73,15 @@ export const mouseSupport = (prep: preparedConstructReturn | undefined): handleM
   const mouseVector = new THREE.Vector2();
   const mouseVectorMove = new THREE.Vector2();
 
-  let storedMeshUUID = '';
-
   /**
    * Handles the onClick event for processing mouse interactions with the scene.
    *
    * This function calculates the mouse position in normalized device coordinates
    * (NDC) relative to the rendering area and uses a raycaster to detect intersections
-   * with objects in the scene. If intersections are found, it handles those that
-   * involve THREE.Mesh objects.
+   * with objects in the scene. The nearest visible mesh that is not a helper is selected:
+   * a plain click replaces the selection, Ctrl, Cmd or Shift toggle the mesh, and a plain
+   * click on empty space clears the selection. While a measurement tool is active, the hit point
+   * snapped to a nearby vertex or edge is added to the measurement instead.
    *
    * @param event The MouseEvent triggered by clicking in the rendering area.
    * @param _scene An object containing the prepared scene data, used for interaction logic.
@@ -93,34 +94,33 @@ export const mouseSupport = (prep: preparedConstructReturn | undefined): handleM
 
       raycaster.setFromCamera(mouseVector, prep.basicControls.camera.camera);
       const intersects = raycaster.intersectObject(prep.basicControls.scene, true);
-      if (intersects.length > 0) {
-        for (const m of intersects) {
-          if ((m.object as unknown) instanceof THREE.Mesh) {
-            console.log('Mesh click', m.object);
-          }
+      const picked = prep.selection.pick(intersects);
+      if (prep.measurements.getTool() !== measurementToolEnum.NONE) {
+        const hit = intersects.find((i) => i.object === picked);
+        if (hit) {
+          // snaps within 2% of the distance to the camera, which is about the same on screen at any zoom
+          prep.measurements.addPoint(snapMeasurementPoint(hit, hit.distance * 0.02));
         }
+        return;
       }
+      prep.selection.select(picked ? [picked] : [], selectionModeFromEvent(event));
     }
   };
 
   /**
-   * Handles the mouse movement event on the canvas to facilitate interactive scene manipulation.
+   * Handles the mouse movement event on the canvas to highlight the object under the cursor.
    *
-   * This method calculates the position of the mouse relative to the canvas, updates the raycaster
-   * to detect intersections with objects in the scene, and performs various operations such as
-   * highlighting objects, resetting materials, and managing interaction states. The function checks
-   * for specific object interactions using the mouse and adjusts the corresponding visual properties
-   * of the objects in the 3D scene.
+   * This method calculates the position of the mouse relative to the canvas and updates the raycaster
+   * to detect intersections with objects in the scene. The nearest visible mesh that is not a helper is
+   * passed to the highlighting of the construct, which keeps the original materials of all meshes intact.
    *
    * @param {MouseEvent} event - The mouse movement event containing information about the cursor's
    * position and the interaction context.
-   * @param {preparedSceneReturn} scene - The prepared scene object containing the necessary setup
-   * for rendering and interaction, including materials and camera positioning.
+   * @param {preparedSceneReturn} _scene - The prepared scene object the event has been dispatched to.
    *
-   * @returns {void} No return value. The function modifies the visual properties of the objects in
-   * the scene based on mouse movement and raycaster intersection.
+   * @returns {void} No return value.
    */
-  const onMouseMove = (event: MouseEvent, scene: preparedSceneReturn): void => {
+  const onMouseMove = (event: MouseEvent, _scene: preparedSceneReturn): void => {
     if (prep.basicControls.camera.camera) {
       const rect = prep.renderer.domElement.getBoundingClientRect();
       mouseVectorMove.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
@@ -128,61 +128,7 @@ export const mouseSupport = (prep: preparedConstructReturn | undefined): handleM
 
       raycasterMove.setFromCamera(mouseVectorMove, prep.basicControls.camera.camera);
       const intersects = raycasterMove.intersectObject(prep.basicControls.scene, true);
-      if (intersects.length > 0) {
-        for (const m of intersects) {
-          if ((m.object as unknown) instanceof THREE.Mesh) {
-            const mesh = m.object as THREE.Mesh;
-            if (mesh.uuid === storedMeshUUID) {
-              return;
-            }
-            storedMeshUUID = mesh.uuid;
-          }
-        }
-      } else {
-        if (storedMeshUUID === '') {
-          return;
-        }
-      }
-
-      // Reset color
-      if (hasMaterialSupport(scene)) {
-        const matContainer = (scene as handleMaterialSupport).materialSupportContainer;
-        const resetMaterial = matContainer.actualMaterial;
-        if (resetMaterial) {
-          prep.basicControls.scene.traverse((object) => {
-            if (object instanceof THREE.Mesh) {
-              if (object.material instanceof Array) {
-                for (let i = 0; i < object.material.length; i++) {
-                  object.material[i] = resetMaterial as THREE.Material;
-                }
-              } else {
-                object.material = resetMaterial as THREE.Material;
-              }
-            }
-          });
-        }
-        if (intersects.length > 0) {
-          for (const m of intersects) {
-            if ((m.object as unknown) instanceof THREE.Mesh) {
-              const mesh = m.object as THREE.Mesh;
-              if (!mesh.visible) continue;
-              if (resetMaterial) {
-                const markMaterial = resetMaterial.clone();
-                markMaterial.color.addScalar(1);
-                if (mesh.material instanceof Array) {
-                  for (let i = 0; i < mesh.material.length; i++) {
-                    mesh.material[i] = markMaterial;
-                  }
-                } else {
-                  mesh.material = markMaterial;
-                }
-                break;
-              }
-            }
-          }
-        }
-        storedMeshUUID = '';
-      }
+      prep.highlight.setHover(prep.selection.pick(intersects));
     }
   };
 
@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+import { Camera, cameraTypeEnum } from './camera';
+import { Light, lightTypeEnum } from './light';
+import {
+  createPropertyFields,
+  getPropertyFields,
+  getPropertyValues,
+  lightPropertiesSchema,
+  propertyFieldTypeEnum,
+  propertyTargetTypeEnum,
+  setPropertyValue,
+} from './property-inspector';
+
+describe('property inspector', () => {
+  it('should generate the fields from the schema', () => {
+    expect(createPropertyFields(lightPropertiesSchema)).toEqual([
+      { key: 'color', label: 'Color', type: propertyFieldTypeEnum.COLOR },
+      { key: 'intensity', label: 'Intensity', type: propertyFieldTypeEnum.NUMBER, min: 0, max: undefined, step: 0.1 },
+      { key: 'position', label: 'Position', type: propertyFieldTypeEnum.VECTOR3, step: 0.1 },
+      { key: 'target', label: 'Target', type: propertyFieldTypeEnum.VECTOR3, step: 0.1 },
+      { key: 'skyColor', label: 'Sky color', type: propertyFieldTypeEnum.COLOR },
+      { key: 'groundColor', label: 'Ground color', type: propertyFieldTypeEnum.COLOR },
+      { key: 'angle', label: 'Angle', type: propertyFieldTypeEnum.NUMBER, min: 0, max: Math.PI / 2, step: 0.01 },
+      { key: 'penumbra', label: 'Penumbra', type: propertyFieldTypeEnum.NUMBER, min: 0, max: 1, step: 0.01 },
+      { key: 'distance', label: 'Distance', type: propertyFieldTypeEnum.NUMBER, min: 0, max: undefined, step: 0.1 },
+      { key: 'decay', label: 'Decay', type: propertyFieldTypeEnum.NUMBER, min: 0, max: undefined, step: 0.1 },
+    ]);
+  });
+
+  it('should edit the cone of a spotlight', () => {
+    const light = new Light({ type: lightTypeEnum.Spot, color: 0xffffff, intensity: 1, position: [0, 5, 0] });
+    const target = { type: propertyTargetTypeEnum.LIGHT, light } as const;
+    expect(getPropertyFields(target).map((field) => field.key)).toEqual([
+      'color',
+      'intensity',
+      'position',
+      'target',
+      'angle',
+      'penumbra',
+      'distance',
+      'decay',
+    ]);
+    expect(setPropertyValue(target, 'penumbra', 0.5)).toBe(true);
+    expect(setPropertyValue(target, 'angle', 0.4)).toBe(true);
+    expect(getPropertyValues(target)).toMatchObject({ angle: 0.4, penumbra: 0.5 });
+    expect(setPropertyValue(target, 'angle', 2)).toBe(false);
+  });
+
+  it('should edit a hemisphere light through its setters', () => {
+    const light = new Light({
+      type: lightTypeEnum.Hemisphere,
+      color: 0xffffff,
+      skyColor: 0xffffff,
+      groundColor: 0x000000,
+      intensity: 1,
+      position: [0, 10, 0],
+    });
+    const target = { type: propertyTargetTypeEnum.LIGHT, light } as const;
+    expect(getPropertyFields(target).map((field) => field.key)).toEqual([
+      'intensity',
+      'position',
+      'skyColor',
+      'groundColor',
+    ]);
+    const setGroundColor = jest.spyOn(light, 'setGroundColor');
+    expect(setPropertyValue(target, 'groundColor', 0x336699)).toBe(true);
+    expect(setGroundColor).toHaveBeenCalledWith(0x336699);
+    expect(setPropertyValue(target, 'intensity', 2.5)).toBe(true);
+    expect(getPropertyValues(target)).toMatchObject({ intensity: 2.5, groundColor: 0x336699 });
+    expect(setPropertyValue(target, 'intensity', -1)).toBe(false);
+    expect(setPropertyValue(target, 'color', 0xff0000)).toBe(false);
+  });
+
+  it('should edit the camera', () => {
+    const camera = new Camera({
+      type: cameraTypeEnum.PERSPECTIVE,
+      width: 800,
+      height: 600,
+      fov: 50,
+      near: 0.1,
+      far: 100,
+    });
+    const target = { type: propertyTargetTypeEnum.CAMERA, camera } as const;
+    expect(getPropertyFields(target).map((field) => field.key)).toEqual(['fov', 'near', 'far']);
+    expect(setPropertyValue(target, 'fov', 35)).toBe(true);
+    expect((camera.camera as THREE.PerspectiveCamera).fov).toBe(35);
+    expect(setPropertyValue(target, 'fov', 200)).toBe(false);
+    expect(setPropertyValue(target, 'near', 100)).toBe(false);
+    expect(setPropertyValue(target, 'far', 0.05)).toBe(false);
+    expect(setPropertyValue(target, 'near', 1)).toBe(true);
+    expect(camera.getConfig()).toMatchObject({ near: 1, far: 100 });
+  });
+
+  it('should edit the parameters a material supports', () => {
+    const material = new THREE.MeshPhysicalMaterial({ color: 0xffffff, roughness: 0.5 });
+    const target = { type: propertyTargetTypeEnum.MATERIAL, material } as const;
+    const keys = getPropertyFields(target).map((field) => field.key);
+    expect(keys).toEqual(expect.arrayContaining(['color', 'roughness', 'clearcoat', 'transmission', 'transparent']));
+    expect(setPropertyValue(target, 'color', 0xaf2010)).toBe(true);
+    expect(material.color.getHex()).toBe(0xaf2010);
+    expect(setPropertyValue(target, 'roughness', 0.2)).toBe(true);
+    expect(material.roughness).toBe(0.2);
+    expect(setPropertyValue(target, 'roughness', 100)).toBe(false);
+
+    const standard = { type: propertyTargetTypeEnum.MATERIAL, material: new THREE.MeshStandardMaterial() } as const;
+    expect(getPropertyFields(standard).map((field) => field.key)).not.toContain('clearcoat');
+    expect(setPropertyValue(standard, 'clearcoat', 1)).toBe(false);
+  });
+});
@@ -0,0 +1,318 @@
+import * as THREE from 'three';
+import { z } from 'zod';
+import { Camera, cameraConfigSchema } from './camera';
+import { Light, lightConfigSchema, lightTypeEnum } from './light';
+import { materialConfigSchema } from './scene-document';
+
+/**
+ * Description marking a number of a property schema as hexadecimal color
+ */
+export const colorPropertyDescription = 'color';
+
+/**
+ * Enum for the input types of the fields of the property inspector
+ */
+export enum propertyFieldTypeEnum {
+  NUMBER,
+  COLOR,
+  VECTOR3,
+  BOOLEAN,
+}
+
+/**
+ * A field of the property inspector, generated from a property schema.
+ *
+ * - key: The name of the property.
+ * - label: A readable label derived from the key.
+ * - min / max / step: The range of a number, taken from the checks of the schema.
+ */
+export interface propertyField {
+  key: string;
+  label: string;
+  type: propertyFieldTypeEnum;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+/**
+ * Value of a field of the property inspector
+ */
+export type propertyValue = number | boolean | number[];
+
+/**
+ * Zod schema for the editable properties of a light
+ */
+export const lightPropertiesSchema = lightConfigSchema
+  .pick({
+    color: true,
+    intensity: true,
+    position: true,
+    target: true,
+    skyColor: true,
+    groundColor: true,
+    angle: true,
+    penumbra: true,
+    distance: true,
+    decay: true,
+  })
+  .extend({
+    color: z.number().int().min(0).max(0xffffff).describe(colorPropertyDescription),
+    intensity: z.number().min(0),
+    skyColor: z.number().int().min(0).max(0xffffff).describe(colorPropertyDescription).optional(),
+    groundColor: z.number().int().min(0).max(0xffffff).describe(colorPropertyDescription).optional(),
+  });
+
+/**
+ * Zod schema for the editable properties of a camera
+ */
+export const cameraPropertiesSchema = cameraConfigSchema.pick({ fov: true, near: true, far: true }).extend({
+  fov: z.number().min(1).max(179).optional(),
+  near: z.number().positive().optional(),
+  far: z.number().positive().optional(),
+});
+
+/**
+ * Zod schema for the editable parameters of a MeshStandardMaterial or MeshPhysicalMaterial
+ */
+export const materialPropertiesSchema = materialConfigSchema.extend({
+  color: z.number().int().min(0).max(0xffffff).describe(colorPropertyDescription),
+  roughness: z.number().min(0).max(1),
+  metalness: z.number().min(0).max(1),
+  emissive: z.number().int().min(0).max(0xffffff).describe(colorPropertyDescription).optional(),
+  emissiveIntensity: z.number().min(0).optional(),
+  clearcoat: z.number().min(0).max(1).optional(),
+  clearcoatRoughness: z.number().min(0).max(1).optional(),
+  transmission: z.number().min(0).max(1).optional(),
+  thickness: z.number().min(0).optional(),
+  ior: z.number().min(1).max(2.333).optional(),
+  sheen: z.number().min(0).max(1).optional(),
+  sheenRoughness: z.number().min(0).max(1).optional(),
+  iridescence: z.number().min(0).max(1).optional(),
+  specularIntensity: z.number().min(0).max(1).optional(),
+  opacity: z.number().min(0).max(1).optional(),
+  transparent: z.boolean().optional(),
+});
+
+/**
+ * Enum for the kinds of objects edited by the property inspector
+ */
+export enum propertyTargetTypeEnum {
+  LIGHT,
+  CAMERA,
+  MATERIAL,
+}
+
+/**
+ * An object edited by the property inspector
+ */
+export type propertyTarget =
+  | { type: propertyTargetTypeEnum.LIGHT; light: Light }
+  | { type: propertyTargetTypeEnum.CAMERA; camera: Camera }
+  | { type: propertyTargetTypeEnum.MATERIAL; material: THREE.MeshStandardMaterial };
+
+/**
+ * Derives a readable label from the key of a property, e.g. `Sky color` from `skyColor`.
+ *
+ * @param {string} key - The key of the property.
+ * @returns {string} The label.
+ */
+const labelFromKey = (key: string): string => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Generates the fields of the property inspector from a property schema. Numbers described as color become
+ * color fields, arrays of three numbers vector fields; properties of other types are left out.
+ *
+ * @param {z.AnyZodObject} schema - The property schema.
+ * @returns {propertyField[]} The fields in the order of the schema.
+ */
+export const createPropertyFields = (schema: z.AnyZodObject): propertyField[] => {
+  const fields: propertyField[] = [];
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    const property = value instanceof z.ZodOptional ? (value.unwrap() as z.ZodTypeAny) : value;
+    const label = labelFromKey(key);
+    if (property instanceof z.ZodNumber) {
+      if (property.description === colorPropertyDescription) {
+        fields.push({ key, label, type: propertyFieldTypeEnum.COLOR });
+        continue;
+      }
+      const min = property.minValue ?? undefined;
+      const max = property.maxValue ?? undefined;
+      const fine = min !== undefined && max !== undefined && max - min <= 10;
+      fields.push({
+        key,
+        label,
+        type: propertyFieldTypeEnum.NUMBER,
+        min,
+        max,
+        step: property.isInt ? 1 : fine ? 0.01 : 0.1,
+      });
+    } else if (property instanceof z.ZodBoolean) {
+      fields.push({ key, label, type: propertyFieldTypeEnum.BOOLEAN });
+    } else if (property instanceof z.ZodArray && property._def.exactLength?.value === 3) {
+      fields.push({ key, label, type: propertyFieldTypeEnum.VECTOR3, step: 0.1 });
+    }
+  }
+  return fields;
+};
+
+/**
+ * Retrieves the property schema of the kind of target.
+ *
+ * @param {propertyTarget} target - The edited object.
+ * @returns {z.AnyZodObject} The property schema.
+ */
+const schemaOf = (target: propertyTarget): z.AnyZodObject => {
+  if (target.type === propertyTargetTypeEnum.LIGHT) {
+    return lightPropertiesSchema;
+  }
+  return target.type === propertyTargetTypeEnum.CAMERA ? cameraPropertiesSchema : materialPropertiesSchema;
+};
+
+/**
+ * Reads the current values of the editable properties of a target.
+ *
+ * @param {propertyTarget} target - The edited object.
+ * @returns {Record<string, propertyValue>} The values by the key of the property; unsupported properties are missing.
+ */
+export const getPropertyValues = (target: propertyTarget): Record<string, propertyValue> => {
+  const values: Record<string, propertyValue> = {};
+  if (target.type === propertyTargetTypeEnum.LIGHT) {
+    const config = target.light.getConfig();
+    const type = target.light.getLightType();
+    if (type === lightTypeEnum.Hemisphere) {
+      values['skyColor'] = config.skyColor ?? config.color;
+      values['groundColor'] = config.groundColor ?? 0;
+    } else {
+      values['color'] = config.color;
+    }
+    values['intensity'] = config.intensity;
+    if (type !== lightTypeEnum.Ambient) {
+      values['position'] = [...config.position];
+    }
+    // a rect area light oriented by a rotation has no target
+    if (config.target && type !== lightTypeEnum.Point && type !== lightTypeEnum.Hemisphere) {
+      values['target'] = [...config.target];
+    }
+    if (type === lightTypeEnum.Spot) {
+      values['angle'] = config.angle ?? Math.PI / 3;
+      values['penumbra'] = config.penumbra ?? 0;
+    }
+    if (type === lightTypeEnum.Point || type === lightTypeEnum.Spot) {
+      values['distance'] = config.distance ?? 0;
+      values['decay'] = config.decay ?? 2;
+    }
+    return values;
+  }
+  if (target.type === propertyTargetTypeEnum.CAMERA) {
+    const config = target.camera.getConfig();
+    for (const key of ['fov', 'near', 'far'] as const) {
+      const value = config[key];
+      if (value !== undefined) {
+        values[key] = value;
+      }
+    }
+    return values;
+  }
+  const material = target.material as unknown as Record<string, unknown>;
+  for (const key of Object.keys(materialPropertiesSchema.shape)) {
+    const value = material[key];
+    if (value instanceof THREE.Color) {
+      values[key] = value.getHex();
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      values[key] = value;
+    }
+  }
+  return values;
+};
+
+/**
+ * Generates the fields of the properties a target supports, e.g. sky and ground colors only for
+ * hemisphere lights or the field of view only for perspective cameras.
+ *
+ * @param {propertyTarget} target - The edited object.
+ * @returns {propertyField[]} The fields.
+ */
+export const getPropertyFields = (target: propertyTarget): propertyField[] => {
+  const values = getPropertyValues(target);
+  return createPropertyFields(schemaOf(target)).filter((field) => field.key in values);
+};
+
+/**
+ * Changes a property of a target through the setters of the light, the camera or the material. The near and
+ * far planes of a camera are validated together.
+ *
+ * @param {propertyTarget} target - The edited object.
+ * @param {string} key - The key of the property.
+ * @param {unknown} value - The new value.
+ * @returns {boolean} `true` if the value is valid and has been applied.
+ */
+export const setPropertyValue = (target: propertyTarget, key: string, value: unknown): boolean => {
+  const property = (schemaOf(target).shape as z.ZodRawShape)[key] as z.ZodTypeAny | undefined;
+  const result = property?.safeParse(value);
+  if (!result?.success || !(key in getPropertyValues(target))) {
+    return false;
+  }
+  const data = result.data as propertyValue;
+  if (target.type === propertyTargetTypeEnum.LIGHT) {
+    const light = target.light;
+    const config = light.getConfig();
+    const setters: Record<string, (v: propertyValue) => void> = {
+      color: (v) => {
+        light.setLightColor(v as number);
+      },
+      skyColor: (v) => {
+        light.setSkyColor(v as number);
+      },
+      groundColor: (v) => {
+        light.setGroundColor(v as number);
+      },
+      intensity: (v) => {
+        light.setLightIntensity(v as number);
+      },
+      position: (v) => {
+        light.setLightPosition(new THREE.Vector3().fromArray(v as number[]));
+      },
+      target: (v) => {
+        light.setLightTarget(new THREE.Vector3().fromArray(v as number[]));
+      },
+      angle: (v) => {
+        light.setSpotCone(v as number, config.penumbra ?? 0);
+      },
+      penumbra: (v) => {
+        light.setSpotCone(config.angle ?? Math.PI / 3, v as number);
+      },
+      distance: (v) => {
+        light.setLightRange(v as number, config.decay ?? 2);
+      },
+      decay: (v) => {
+        light.setLightRange(config.distance ?? 0, v as number);
+      },
+    };
+    setters[key](data);
+    light.updateHelper();
+    return true;
+  }
+  if (target.type === propertyTargetTypeEnum.CAMERA) {
+    const config = { ...target.camera.getConfig(), [key]: data };
+    // the near plane has to stay in front of the far plane
+    if (config.near !== undefined && config.far !== undefined && config.near >= config.far) {
+      return false;
+    }
+    target.camera.applyConfig(config);
+    return true;
+  }
+  const material = target.material as unknown as Record<string, unknown>;
+  const current = material[key];
+  if (current instanceof THREE.Color) {
+    current.setHex(data as number);
+  } else {
+    material[key] = data;
+  }
+  // switching transparency or transmission changes the shader program
+  target.material.needsUpdate = true;
+  return true;
+};
@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three-stdlib';
+import { animationMixerEntry } from './animation';
+import { createRenderLoop, renderLoopTweens, renderModeEnum } from './render-loop';
+
+describe('createRenderLoop', () => {
+  let tweens: renderLoopTweens & { length: number };
+  let mixers: Map<string, animationMixerEntry>;
+  let controls: OrbitControls | undefined;
+
+  beforeEach(() => {
+    tweens = {
+      length: 0,
+      getLength: (): number => tweens.length,
+      update: jest.fn(),
+    };
+    mixers = new Map();
+    controls = undefined;
+  });
+
+  const createOnDemandLoop = (): ReturnType<typeof createRenderLoop> =>
+    createRenderLoop(tweens, mixers, () => controls, renderModeEnum.ON_DEMAND);
+
+  it('should render every frame in continuous mode', () => {
+    const loop = createRenderLoop(tweens, mixers, () => controls);
+
+    expect(loop.getRenderMode()).toBe(renderModeEnum.CONTINUOUS);
+    expect(loop.updateFrame(0.016)).toBe(true);
+    expect(loop.updateFrame(0.016)).toBe(true);
+    expect(tweens.update).toHaveBeenCalledTimes(2);
+  });
+
+  it('should render the first frame and then only after an invalidation in on-demand mode', () => {
+    const loop = createOnDemandLoop();
+
+    expect(loop.updateFrame(0.016)).toBe(true);
+    expect(loop.updateFrame(0.016)).toBe(false);
+    loop.invalidate();
+    loop.invalidate();
+    expect(loop.updateFrame(0.016)).toBe(true);
+    expect(loop.updateFrame(0.016)).toBe(false);
+    expect(tweens.update).not.toHaveBeenCalled();
+  });
+
+  it('should keep rendering while tweens or animation mixers run', () => {
+    const loop = createOnDemandLoop();
+    const mixer = new THREE.AnimationMixer(new THREE.Object3D());
+    const update = jest.spyOn(mixer, 'update');
+    let running = true;
+    mixers.set('model', { mixer, isRunning: () => running });
+    tweens.length = 1;
+    loop.updateFrame(0.016);
+
+    expect(loop.updateFrame(0.016)).toBe(true);
+    tweens.length = 0;
+    expect(loop.updateFrame(0.016)).toBe(true);
+    running = false;
+    expect(loop.updateFrame(0.016)).toBe(false);
+    expect(tweens.update).toHaveBeenCalledTimes(2);
+    expect(update).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep rendering while damped controls move the camera', () => {
+    const camera = new THREE.PerspectiveCamera();
+    camera.position.set(0, 0, 10);
+    const orbitControls = new OrbitControls(camera);
+    orbitControls.enableDamping = true;
+    orbitControls.update();
+    controls = orbitControls;
+    const loop = createOnDemandLoop();
+    orbitControls.addEventListener('change', loop.invalidate);
+    loop.updateFrame(0.016);
+
+    // the damping continues the rotation in the following frames
+    orbitControls.setAzimuthalAngle(1);
+    loop.updateFrame(0.016);
+    expect(loop.updateFrame(0.016)).toBe(true);
+    expect(loop.updateFrame(0.016)).toBe(true);
+
+    controls.enableDamping = false;
+    expect(loop.updateFrame(0.016)).toBe(false);
+  });
+
+  it('should render once after the render mode has changed', () => {
+    const loop = createOnDemandLoop();
+    loop.updateFrame(0.016);
+
+    loop.setRenderMode(renderModeEnum.ON_DEMAND);
+    expect(loop.updateFrame(0.016)).toBe(true);
+    expect(loop.updateFrame(0.016)).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { OrbitControls } from 'three-stdlib';
+import { animationMixerEntry } from './animation';
+
+/**
+ * Enum for the different render modes of the animation loop
+ */
+export enum renderModeEnum {
+  CONTINUOUS,
+  ON_DEMAND,
+}
+
+/**
+ * The running tweens advanced by the render loop, usually the `JEASINGS` group.
+ */
+export interface renderLoopTweens {
+  getLength: () => number;
+  update: () => void;
+}
+
+/**
+ * Interface representing the frame decisions of the animation loop.
+ *
+ * Methods:
+ * - invalidate: Marks the scene as dirty so that the next frame is rendered in on-demand mode.
+ * - setRenderMode / getRenderMode: Switches between continuous and on-demand rendering.
+ * - updateFrame: Advances tweens, animation mixers and controls and decides whether the frame is rendered.
+ */
+export interface renderLoopReturn {
+  invalidate: () => void;
+  setRenderMode: (mode: renderModeEnum) => void;
+  getRenderMode: () => renderModeEnum;
+  updateFrame: (delta: number) => boolean;
+}
+
+/**
+ * Creates the frame decisions of an animation loop.
+ *
+ * @param {renderLoopTweens} tweens - The running tweens, e.g. camera animations.
+ * @param {Map<string, animationMixerEntry>} animationMixers - The animation mixers of the loaded models.
+ * @param {Function} getControls - Returns the orbit controls of the camera, if any.
+ * @param {renderModeEnum} renderMode - The initial render mode.
+ * @returns {renderLoopReturn} The render loop.
+ */
+export const createRenderLoop = (
+  tweens: renderLoopTweens,
+  animationMixers: Map<string, animationMixerEntry>,
+  getControls: () => OrbitControls | undefined,
+  renderMode: renderModeEnum = renderModeEnum.CONTINUOUS,
+): renderLoopReturn => {
+  let needsRender = true;
+
+  /**
+   * Marks the scene as dirty so that the next frame is rendered in on-demand mode.
+   *
+   * @returns {void}
+   */
+  const invalidate = (): void => {
+    needsRender = true;
+  };
+
+  /**
+   * Advances tweens, animation mixers and controls for the current frame and decides whether the frame
+   * has to be rendered.
+   *
+   * In continuous mode every frame is rendered. In on-demand mode tweens, running animation mixers and
+   * damped or auto-rotating controls are only updated while they are active, and the frame is only
+   * rendered if something invalidated the scene since the last rendered frame.
+   *
+   * @param {number} delta - The seconds passed since the previous frame.
+   * @returns {boolean} `true` if the frame has to be rendered.
+   */
+  const updateFrame = (delta: number): boolean => {
+    const controls = getControls();
+    if (renderMode === renderModeEnum.CONTINUOUS) {
+      tweens.update();
+      for (const entry of animationMixers.values()) {
+        entry.mixer.update(delta);
+      }
+      controls?.update();
+      return true;
+    }
+    for (const entry of animationMixers.values()) {
+      if (entry.isRunning()) {
+        entry.mixer.update(delta);
+        invalidate();
+      }
+    }
+    if (tweens.getLength() > 0) {
+      tweens.update();
+      invalidate();
+    }
+    if (controls && (controls.enableDamping || controls.autoRotate)) {
+      // dispatches a change event (and therefore invalidates) if the camera moved
+      controls.update();
+    }
+    const render = needsRender;
+    needsRender = false;
+    return render;
+  };
+
+  return {
+    invalidate,
+    setRenderMode: (mode: renderModeEnum): void => {
+      renderMode = mode;
+      invalidate();
+    },
+    getRenderMode: (): renderModeEnum => renderMode,
+    updateFrame,
+  };
+};
@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import { ZodError } from 'zod';
+import { cameraTypeEnum } from './camera';
+import { lightTypeEnum } from './light';
+import {
+  applyMaterialConfigs,
+  findMaterialConfigs,
+  materialFromConfig,
+  materialToConfig,
+  parseSceneDocument,
+  SceneDocument,
+} from './scene-document';
+import { markAsHelper } from './selection';
+
+describe('scene document', () => {
+  let document: SceneDocument;
+
+  beforeEach(() => {
+    document = {
+      version: 1,
+      camera: { type: cameraTypeEnum.PERSPECTIVE, width: 800, height: 600, fov: 75, near: 0.01, far: 1000 },
+      controls: { target: [0, 0, 0], position: [0, 0, 5] },
+      lights: [
+        {
+          key: 'direct',
+          on: true,
+          config: { type: lightTypeEnum.Directional, color: 0xffffff, intensity: 1, position: [5, 10, 10] },
+        },
+      ],
+      content: [{ key: 'lotus', path: 'lotus.glb', position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] }],
+      constructedScenes: [{ key: 'ground', visible: true }],
+    };
+  });
+
+  it('should accept a valid document after a JSON round trip', () => {
+    const json = JSON.stringify(document);
+    const parsed = parseSceneDocument(JSON.parse(json));
+    expect(parsed).toEqual(document);
+  });
+
+  it('should reject a document with an unknown version', () => {
+    expect(() => parseSceneDocument({ ...document, version: 2 })).toThrow('Invalid scene document');
+  });
+
+  it('should accept custom lighting rigs and reject rigs without lights', () => {
+    const rig = { name: 'My rig', lights: [document.lights[0].config] };
+    expect(parseSceneDocument({ ...document, lightingRigs: [rig] }).lightingRigs).toEqual([rig]);
+    expect(() => parseSceneDocument({ ...document, lightingRigs: [{ name: 'Empty', lights: [] }] })).toThrow(
+      'Invalid scene document',
+    );
+  });
+
+  it('should reject a document with an invalid light configuration', () => {
+    const lights = [{ key: 'broken', on: true, config: { type: -1, color: 0, intensity: 1, position: [0, 0] } }];
+    expect(() => parseSceneDocument({ ...document, lights })).toThrow('Invalid scene document');
+  });
+
+  it('should name the invalid fields and keep the zod error as cause', () => {
+    const lights = [{ key: 'broken', on: true, config: { ...document.lights[0].config, position: [0, 0] } }];
+    let error: unknown;
+    try {
+      parseSceneDocument({ ...document, lights, version: 2 });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('version: ');
+    expect((error as Error).message).toContain('lights.0.config.position: ');
+    expect((error as Error).cause).toBeInstanceOf(ZodError);
+  });
+
+  it('should round trip a physical material', () => {
+    const material = new THREE.MeshPhysicalMaterial({
+      color: 0xafcb10,
+      roughness: 0.3,
+      metalness: 0.7,
+      clearcoat: 1,
+      clearcoatRoughness: 0.5,
+    });
+    const config = materialToConfig(material);
+    if (!config) {
+      fail('Expected a material configuration');
+    }
+    const restored = materialFromConfig(config);
+    expect(restored).toBeInstanceOf(THREE.MeshPhysicalMaterial);
+    expect(materialToConfig(restored)).toEqual(config);
+  });
+
+  it('should not convert unsupported materials', () => {
+    expect(materialToConfig(new THREE.MeshBasicMaterial())).toBeUndefined();
+  });
+
+  describe('mesh materials', () => {
+    const createModel = (): THREE.Group => {
+      const group = new THREE.Group();
+      const geometry = new THREE.BoxGeometry();
+      group.add(new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: 0xff0000 })));
+      group.add(
+        new THREE.Mesh(geometry, [
+          new THREE.MeshStandardMaterial({ color: 0x00ff00 }),
+          new THREE.MeshStandardMaterial({ color: 0x0000ff }),
+        ]),
+      );
+      group.add(markAsHelper(new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: 0xffffff }))));
+      return group;
+    };
+
+    it('should export one entry per slot without helpers', () => {
+      const configs = findMaterialConfigs(createModel());
+      expect(configs.map(({ mesh, slot, color }) => [mesh, slot, color])).toEqual([
+        [0, 0, 0xff0000],
+        [1, 0, 0x00ff00],
+        [1, 1, 0x0000ff],
+      ]);
+    });
+
+    it('should read the material through the given accessor', () => {
+      const original = new THREE.MeshStandardMaterial({ color: 0x123456 });
+      const configs = findMaterialConfigs(createModel(), () => original);
+      expect(configs.every((config) => config.color === 0x123456)).toBe(true);
+    });
+
+    it('should restore every slot and keep matching materials', () => {
+      const configs = findMaterialConfigs(createModel());
+      const model = createModel();
+      const [first, second] = model.children as THREE.Mesh[];
+      const kept = first.material as THREE.Material;
+      const replaced = (second.material as THREE.Material[])[1];
+      const dispose = jest.spyOn(replaced, 'dispose');
+      configs[2].color = 0xffff00;
+
+      applyMaterialConfigs(model, configs);
+
+      expect(first.material).toBe(kept);
+      expect(findMaterialConfigs(model)).toEqual(configs);
+      expect(dispose).toHaveBeenCalled();
+    });
+  });
+});
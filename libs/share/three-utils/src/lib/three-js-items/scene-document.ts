@@ -0,0 +1,316 @@
+import * as THREE from 'three';
+import { z } from 'zod';
+import { cameraConfigSchema, cameraTypeEnum } from './camera';
+import { lightConfigSchema } from './light';
+import { isHelperObject } from './selection';
+
+/**
+ * Current version of the scene document format
+ */
+export const sceneDocumentVersion = 1;
+
+/**
+ * Zod schema for a three-component vector stored as array
+ */
+export const vector3ArraySchema = z.array(z.number()).length(3);
+
+/**
+ * Zod schema for the material override of a content or a constructed scene
+ */
+export const materialConfigSchema = z.object({
+  color: z.number(),
+  roughness: z.number(),
+  metalness: z.number(),
+  clearcoat: z.number().optional(),
+  clearcoatRoughness: z.number().optional(),
+  opacity: z.number().optional(),
+  transparent: z.boolean().optional(),
+});
+/**
+ * Type for a material configuration
+ */
+export type MaterialConfig = z.infer<typeof materialConfigSchema>;
+
+/**
+ * Zod schema for the material of one slot of one mesh. Meshes are numbered in traversal order without helpers,
+ * the slot is the index of the material within a multi-material mesh.
+ */
+export const meshMaterialConfigSchema = materialConfigSchema.extend({
+  mesh: z.number().int().nonnegative(),
+  slot: z.number().int().nonnegative(),
+});
+/**
+ * Type for the material configuration of a mesh slot
+ */
+export type MeshMaterialConfig = z.infer<typeof meshMaterialConfigSchema>;
+
+/**
+ * Zod schema for the state of the OrbitControls
+ */
+export const controlsStateSchema = z.object({
+  target: vector3ArraySchema,
+  position: vector3ArraySchema,
+});
+/**
+ * Type for the state of the OrbitControls
+ */
+export type ControlsState = z.infer<typeof controlsStateSchema>;
+
+/**
+ * Zod schema for a named camera bookmark. The field of view is stored for perspective cameras,
+ * the zoom for orthographic cameras.
+ */
+export const cameraBookmarkSchema = z.object({
+  name: z.string().min(1),
+  type: z.nativeEnum(cameraTypeEnum),
+  position: vector3ArraySchema,
+  target: vector3ArraySchema,
+  up: vector3ArraySchema,
+  fov: z.number().positive().optional(),
+  zoom: z.number().positive().optional(),
+});
+/**
+ * Type for a camera bookmark
+ */
+export type CameraBookmark = z.infer<typeof cameraBookmarkSchema>;
+
+/**
+ * Zod schema for a custom lighting rig
+ */
+export const lightingRigSchema = z.object({
+  name: z.string().min(1),
+  lights: z.array(lightConfigSchema).min(1),
+});
+
+/**
+ * Zod schema for a named light entry
+ */
+export const sceneDocumentLightSchema = z.object({
+  key: z.string(),
+  on: z.boolean(),
+  config: lightConfigSchema,
+});
+
+/**
+ * Zod schema for a content reference. The content is reloaded from its path, or from the embedded base64 data
+ * with the path as file name. Contents without a path cannot be reloaded on import.
+ * `materials` holds one entry per mesh slot.
+ */
+export const sceneDocumentContentSchema = z.object({
+  key: z.string(),
+  path: z.string().optional(),
+  data: z.string().optional(),
+  position: vector3ArraySchema,
+  rotation: vector3ArraySchema,
+  scale: vector3ArraySchema,
+  materials: z.array(meshMaterialConfigSchema).optional(),
+});
+
+/**
+ * Zod schema for a constructed scene reference
+ */
+export const sceneDocumentConstructedSceneSchema = z.object({
+  key: z.string(),
+  visible: z.boolean(),
+  materials: z.array(meshMaterialConfigSchema).optional(),
+});
+
+/**
+ * Zod schema for a complete scene document
+ */
+export const sceneDocumentSchema = z.object({
+  version: z.literal(sceneDocumentVersion),
+  camera: cameraConfigSchema,
+  controls: controlsStateSchema,
+  lights: z.array(sceneDocumentLightSchema),
+  content: z.array(sceneDocumentContentSchema),
+  constructedScenes: z.array(sceneDocumentConstructedSceneSchema),
+  bookmarks: z.array(cameraBookmarkSchema).optional(),
+  lightingRigs: z.array(lightingRigSchema).optional(),
+});
+/**
+ * Type for a scene document
+ */
+export type SceneDocument = z.infer<typeof sceneDocumentSchema>;
+
+/**
+ * Validates an unknown value against the scene document schema.
+ *
+ * @param {unknown} document - The value to validate, e.g. the result of `JSON.parse`.
+ * @returns {SceneDocument} The validated scene document.
+ * @throws {Error} Throws an error naming the invalid fields if the value is not a valid scene document;
+ * the zod error is given as `cause`.
+ */
+export const parseSceneDocument = (document: unknown): SceneDocument => {
+  const result = sceneDocumentSchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'document'}: ${issue.message}`);
+    throw new Error(`Invalid scene document (${issues.join('; ')})`, { cause: result.error });
+  }
+  return result.data;
+};
+
+/**
+ * Converts a vector or euler into an array of three numbers.
+ *
+ * @param {THREE.Vector3 | THREE.Euler} v - The vector or euler to convert.
+ * @returns {number[]} The components as array.
+ */
+export const toVector3Array = (v: THREE.Vector3 | THREE.Euler): number[] => {
+  return [v.x, v.y, v.z];
+};
+
+/**
+ * Creates a material configuration from a standard or physical material.
+ *
+ * @param {THREE.Material | THREE.Material[]} material - The material to convert. For arrays the first material is used.
+ * @returns {MaterialConfig | undefined} The configuration, or `undefined` for unsupported material types.
+ */
+export const materialToConfig = (material: THREE.Material | THREE.Material[]): MaterialConfig | undefined => {
+  const m = material instanceof Array ? material[0] : material;
+  if (!(m instanceof THREE.MeshStandardMaterial)) {
+    return undefined;
+  }
+  const config: MaterialConfig = {
+    color: m.color.getHex(),
+    roughness: m.roughness,
+    metalness: m.metalness,
+    opacity: m.opacity,
+    transparent: m.transparent,
+  };
+  if (m instanceof THREE.MeshPhysicalMaterial) {
+    config.clearcoat = m.clearcoat;
+    config.clearcoatRoughness = m.clearcoatRoughness;
+  }
+  return config;
+};
+
+/**
+ * Creates a material from a material configuration.
+ * A physical material is created if clearcoat parameters are present, a standard material otherwise.
+ *
+ * @param {MaterialConfig} config - The material configuration.
+ * @returns {THREE.MeshStandardMaterial} The created material.
+ */
+export const materialFromConfig = (config: MaterialConfig): THREE.MeshStandardMaterial => {
+  const parameters = {
+    color: config.color,
+    roughness: config.roughness,
+    metalness: config.metalness,
+    opacity: config.opacity ?? 1,
+    transparent: config.transparent ?? false,
+  };
+  if (config.clearcoat !== undefined || config.clearcoatRoughness !== undefined) {
+    return new THREE.MeshPhysicalMaterial({
+      ...parameters,
+      clearcoat: config.clearcoat ?? 0,
+      clearcoatRoughness: config.clearcoatRoughness ?? 0,
+    });
+  }
+  return new THREE.MeshStandardMaterial(parameters);
+};
+
+/**
+ * Lists the materials of a mesh, one per slot.
+ *
+ * @param {THREE.Material | THREE.Material[]} material - The material or the materials of a mesh.
+ * @returns {THREE.Material[]} The materials by slot.
+ */
+const materialSlots = (material: THREE.Material | THREE.Material[]): THREE.Material[] => {
+  return material instanceof Array ? material : [material];
+};
+
+/**
+ * Collects the meshes within the given object in traversal order, skipping helpers.
+ *
+ * @param {THREE.Object3D} object - The object to search.
+ * @returns {THREE.Mesh[]} The meshes, numbered as in a `MeshMaterialConfig`.
+ */
+const collectMaterialMeshes = (object: THREE.Object3D): THREE.Mesh[] => {
+  const meshes: THREE.Mesh[] = [];
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && !isHelperObject(child)) {
+      meshes.push(child as THREE.Mesh);
+    }
+  });
+  return meshes;
+};
+
+/**
+ * Determines whether a material already matches every value set in a material configuration.
+ *
+ * @param {THREE.Material} material - The material to compare.
+ * @param {MaterialConfig} config - The material configuration.
+ * @returns {boolean} `true` if the material does not have to be replaced.
+ */
+const matchesMaterialConfig = (material: THREE.Material, config: MaterialConfig): boolean => {
+  const current = materialToConfig(material);
+  return (
+    current !== undefined &&
+    (Object.keys(materialConfigSchema.shape) as (keyof MaterialConfig)[]).every(
+      (key) => config[key] === undefined || current[key] === config[key],
+    )
+  );
+};
+
+/**
+ * Finds the materials of all mesh slots within the given object.
+ *
+ * @param {THREE.Object3D | undefined} object - The object to search.
+ * @param {Function} getMaterial - Reads the material of a mesh, e.g. the original material of a highlighted mesh.
+ * @returns {MeshMaterialConfig[]} One configuration per slot with a supported material.
+ */
+export const findMaterialConfigs = (
+  object: THREE.Object3D | undefined,
+  getMaterial: (mesh: THREE.Mesh) => THREE.Material | THREE.Material[] = (mesh): THREE.Material | THREE.Material[] =>
+    mesh.material,
+): MeshMaterialConfig[] => {
+  const configs: MeshMaterialConfig[] = [];
+  collectMaterialMeshes(object ?? new THREE.Object3D()).forEach((mesh, index) => {
+    materialSlots(getMaterial(mesh)).forEach((material, slot) => {
+      const config = materialToConfig(material);
+      if (config) {
+        configs.push({ mesh: index, slot, ...config });
+      }
+    });
+  });
+  return configs;
+};
+
+/**
+ * Applies the material configurations of mesh slots within the given object.
+ * Slots whose material already matches are kept. Slots with the same configuration share one newly created
+ * material, and replaced materials that are no longer used within the object are disposed.
+ *
+ * @param {THREE.Object3D} object - The object whose meshes receive the materials.
+ * @param {MeshMaterialConfig[]} configs - The material configurations by mesh and slot.
+ * @returns {void}
+ */
+export const applyMaterialConfigs = (object: THREE.Object3D, configs: MeshMaterialConfig[]): void => {
+  const meshes = collectMaterialMeshes(object);
+  const created = new Map<string, THREE.MeshStandardMaterial>();
+  const replaced = new Set<THREE.Material>();
+  for (const { mesh: index, slot, ...config } of configs) {
+    const mesh = meshes[index] as THREE.Mesh | undefined;
+    const current = mesh ? materialSlots(mesh.material)[slot] : undefined;
+    if (!mesh || !current || matchesMaterialConfig(current, config)) {
+      continue;
+    }
+    const key = JSON.stringify(config);
+    const material = created.get(key) ?? materialFromConfig(config);
+    created.set(key, material);
+    mesh.material =
+      mesh.material instanceof Array ? mesh.material.map((m, i) => (i === slot ? material : m)) : material;
+    replaced.add(current);
+  }
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      for (const material of materialSlots((child as THREE.Mesh).material)) {
+        replaced.delete(material);
+      }
+    }
+  });
+  for (const material of replaced) {
+    material.dispose();
+  }
+};
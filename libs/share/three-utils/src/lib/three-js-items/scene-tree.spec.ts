@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import { preparedConstructReturn, preparedSceneReturn } from './construct';
+import { Light, lightTypeEnum } from './light';
+import {
+  buildSceneTree,
+  deleteSceneTreeNode,
+  renameSceneTreeNode,
+  sceneTreeNode,
+  sceneTreeNodeTypeEnum,
+  selectSceneTreeNode,
+  setSceneTreeNodeVisible,
+} from './scene-tree';
+import { createSelection, markAsHelper } from './selection';
+
+describe('scene tree', () => {
+  let construct: preparedConstructReturn;
+  let model: THREE.Group;
+  let wheel: THREE.Mesh;
+  let scenes: Map<string, preparedSceneReturn>;
+  let light: Light;
+
+  const sceneOf = (contentGroup: THREE.Group): preparedSceneReturn => ({
+    contentGroup,
+    animate: jest.fn(),
+    updateCameraWindowSize: jest.fn(),
+    visible: jest.fn((vis: boolean) => {
+      contentGroup.visible = vis;
+    }),
+    reCalculateDimensions: jest.fn(),
+    boundingBox: undefined,
+    dispose: jest.fn(),
+  });
+
+  beforeEach(() => {
+    wheel = new THREE.Mesh(new THREE.BoxGeometry());
+    wheel.name = 'Laufrolle';
+    // loaders create plain nodes, which are left out of the tree
+    const node = new THREE.Object3D();
+    node.add(wheel);
+    const assembly = new THREE.Group();
+    assembly.name = 'Achse';
+    assembly.add(node, new THREE.Mesh());
+    model = new THREE.Group();
+    model.add(assembly);
+    const grid = markAsHelper(new THREE.Group());
+    grid.add(new THREE.Mesh());
+    scenes = new Map([
+      ['ground', sceneOf(grid)],
+      ['model.glb', sceneOf(model)],
+    ]);
+    light = new Light({ type: lightTypeEnum.Point, color: 0xffffff, intensity: 1, position: [0, 1, 0] });
+    construct = {
+      basicControls: { content: new Map([['part', new THREE.Group()]]), lights: new Map([['point', light]]) },
+      selection: createSelection(),
+      getConstructedSceneKeys: () => [...scenes.keys()],
+      getConstructedScene: (key: string) => scenes.get(key),
+      getLight: (key: string) => (key === 'point' ? light : undefined),
+      selectLight: jest.fn(),
+      deleteConstructedScene: jest.fn(),
+      deleteContent: jest.fn(),
+      deleteLight: jest.fn(),
+      invalidate: jest.fn(),
+    } as unknown as preparedConstructReturn;
+  });
+
+  const find = (nodes: sceneTreeNode[], name: string): sceneTreeNode | undefined => {
+    for (const node of nodes) {
+      const found = node.name === name ? node : find(node.children, name);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+
+  it('should list the scenes, contents and lights with the parts of the models', () => {
+    const tree = buildSceneTree(construct);
+    expect(tree.map((node) => [node.name, node.type])).toEqual([
+      ['ground', sceneTreeNodeTypeEnum.CONSTRUCTED_SCENE],
+      ['model.glb', sceneTreeNodeTypeEnum.CONSTRUCTED_SCENE],
+      ['part', sceneTreeNodeTypeEnum.CONTENT],
+      ['point', sceneTreeNodeTypeEnum.LIGHT],
+    ]);
+    expect(tree[0].children).toEqual([]);
+    const assembly = tree[1].children[0];
+    expect(assembly.name).toBe('Achse');
+    expect(assembly.type).toBe(sceneTreeNodeTypeEnum.GROUP);
+    expect(assembly.children.map((node) => [node.name, node.type])).toEqual([
+      ['Laufrolle', sceneTreeNodeTypeEnum.MESH],
+      ['Mesh', sceneTreeNodeTypeEnum.MESH],
+    ]);
+  });
+
+  it('should keep the selection in sync', () => {
+    const node = find(buildSceneTree(construct), 'Laufrolle');
+    if (!node) {
+      throw new Error('missing node');
+    }
+    selectSceneTreeNode(construct, node);
+    expect(construct.selection.isSelected(wheel)).toBe(true);
+    expect(find(buildSceneTree(construct), 'Laufrolle')?.selected).toBe(true);
+
+    setSceneTreeNodeVisible(construct, node, false);
+    expect(wheel.visible).toBe(false);
+    expect(construct.selection.isSelected(wheel)).toBe(false);
+
+    const lightNode = find(buildSceneTree(construct), 'point');
+    if (lightNode) {
+      selectSceneTreeNode(construct, lightNode);
+    }
+    expect(construct.selectLight).toHaveBeenCalledWith('point');
+  });
+
+  it('should toggle scenes and lights and rename objects', () => {
+    const [, scene, , lightNode] = buildSceneTree(construct);
+    setSceneTreeNodeVisible(construct, scene, false);
+    expect(scenes.get('model.glb')?.visible).toHaveBeenCalledWith(false);
+    setSceneTreeNodeVisible(construct, lightNode, false);
+    expect(light.isOn()).toBe(false);
+    expect(buildSceneTree(construct)[3].visible).toBe(false);
+
+    renameSceneTreeNode(scene, 'Assembly');
+    expect(model.name).toBe('Assembly');
+    expect(buildSceneTree(construct)[1].name).toBe('Assembly');
+  });
+
+  it('should delete scenes, contents and lights by their key', () => {
+    const tree = buildSceneTree(construct);
+    expect(deleteSceneTreeNode(construct, tree[1])).toBe(true);
+    expect(construct.deleteConstructedScene).toHaveBeenCalledWith('model.glb');
+    expect(deleteSceneTreeNode(construct, tree[2])).toBe(true);
+    expect(construct.deleteContent).toHaveBeenCalledWith('part');
+    expect(deleteSceneTreeNode(construct, tree[3])).toBe(true);
+    expect(construct.deleteLight).toHaveBeenCalledWith('point');
+    expect(deleteSceneTreeNode(construct, tree[1].children[0])).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+import * as THREE from 'three';
+import { analyse, analyseReturn, hasAnalyseSupport } from './analyse';
+import { preparedConstructReturn } from './construct';
+import { isHelperObject, isObjectVisible, selectionModeEnum } from './selection';
+
+/**
+ * Enum for the kinds of nodes of the scene tree
+ */
+export enum sceneTreeNodeTypeEnum {
+  CONSTRUCTED_SCENE,
+  CONTENT,
+  LIGHT,
+  GROUP,
+  MESH,
+}
+
+/**
+ * A node of the scene tree, a snapshot of the construct taken by `buildSceneTree`.
+ *
+ * - id: Unique id of the node, usable for tracking in templates.
+ * - key: The key of a constructed scene, content or light in the construct; `undefined` for groups and meshes.
+ * - name: The name of the object, or the key if the object has no name.
+ * - object: The object represented by the node.
+ * - visible / selected: The state of the object when the snapshot was taken.
+ */
+export interface sceneTreeNode {
+  id: string;
+  key: string | undefined;
+  name: string;
+  type: sceneTreeNodeTypeEnum;
+  object: THREE.Object3D | undefined;
+  visible: boolean;
+  selected: boolean;
+  children: sceneTreeNode[];
+}
+
+/**
+ * Creates a node of the scene tree.
+ *
+ * @param {preparedConstructReturn} construct - The construct holding the selection.
+ * @param {sceneTreeNodeTypeEnum} type - The kind of node.
+ * @param {THREE.Object3D | undefined} object - The object represented by the node.
+ * @param {string | undefined} key - The key of the object in the construct.
+ * @param {sceneTreeNode[]} children - The child nodes.
+ * @returns {sceneTreeNode} The node.
+ */
+const createNode = (
+  construct: preparedConstructReturn,
+  type: sceneTreeNodeTypeEnum,
+  object: THREE.Object3D | undefined,
+  key: string | undefined,
+  children: sceneTreeNode[] = [],
+): sceneTreeNode => ({
+  id: key === undefined ? (object?.uuid ?? '') : `${sceneTreeNodeTypeEnum[type]}:${key}`,
+  key,
+  name: object?.name || key || object?.type || '',
+  type,
+  object,
+  visible: object?.visible ?? false,
+  selected: object ? construct.selection.isSelected(object) : false,
+  children,
+});
+
+/**
+ * Builds the nodes of the groups and meshes below an object. Objects that are neither a group nor a mesh,
+ * e.g. plain nodes created by a loader, are left out and their children take their place.
+ *
+ * @param {preparedConstructReturn} construct - The construct holding the selection.
+ * @param {THREE.Object3D} object - The object whose children are listed.
+ * @param {analyseReturn['analyse']} parts - The groups and meshes collected by `analyse()`.
+ * @returns {sceneTreeNode[]} The nodes of the children.
+ */
+const buildPartNodes = (
+  construct: preparedConstructReturn,
+  object: THREE.Object3D,
+  parts: analyseReturn['analyse'],
+): sceneTreeNode[] =>
+  object.children.flatMap((child) => {
+    const children = buildPartNodes(construct, child, parts);
+    if (parts.meshes.has(child.uuid)) {
+      return [createNode(construct, sceneTreeNodeTypeEnum.MESH, child, undefined, children)];
+    }
+    if (parts.groups.has(child.uuid)) {
+      return [createNode(construct, sceneTreeNodeTypeEnum.GROUP, child, undefined, children)];
+    }
+    return children;
+  });
+
+/**
+ * Builds a snapshot of the constructed scenes, contents and lights of a construct, together with the groups
+ * and meshes of every model. The parts of helpers such as the ground grid are not listed.
+ *
+ * @param {preparedConstructReturn} construct - The construct to list.
+ * @returns {sceneTreeNode[]} The root nodes of the tree.
+ */
+export const buildSceneTree = (construct: preparedConstructReturn): sceneTreeNode[] => {
+  const nodes: sceneTreeNode[] = [];
+  for (const key of construct.getConstructedSceneKeys()) {
+    const scene = construct.getConstructedScene(key);
+    const group = scene?.contentGroup;
+    let children: sceneTreeNode[] = [];
+    if (group && !isHelperObject(group)) {
+      children = buildPartNodes(construct, group, hasAnalyseSupport(scene) ? scene.analyse : analyse(group).analyse);
+    }
+    nodes.push(createNode(construct, sceneTreeNodeTypeEnum.CONSTRUCTED_SCENE, group, key, children));
+  }
+  for (const [key, group] of construct.basicControls.content) {
+    const children = isHelperObject(group) ? [] : buildPartNodes(construct, group, analyse(group).analyse);
+    nodes.push(createNode(construct, sceneTreeNodeTypeEnum.CONTENT, group, key, children));
+  }
+  for (const [key, light] of construct.basicControls.lights) {
+    const node = createNode(construct, sceneTreeNodeTypeEnum.LIGHT, light.getLight(), key);
+    nodes.push({ ...node, visible: light.isOn() });
+  }
+  return nodes;
+};
+
+/**
+ * Shows or hides the object of a node. Lights are switched on or off, constructed scenes are hidden as a whole.
+ *
+ * @param {preparedConstructReturn} construct - The construct holding the object.
+ * @param {sceneTreeNode} node - The node.
+ * @param {boolean} visible - Whether the object is shown.
+ * @returns {void}
+ */
+export const setSceneTreeNodeVisible = (
+  construct: preparedConstructReturn,
+  node: sceneTreeNode,
+  visible: boolean,
+): void => {
+  const key = node.key ?? '';
+  if (node.type === sceneTreeNodeTypeEnum.LIGHT) {
+    construct.getLight(key)?.switch(visible, false);
+  } else if (node.type === sceneTreeNodeTypeEnum.CONSTRUCTED_SCENE) {
+    construct.getConstructedScene(key)?.visible(visible);
+  } else if (node.object) {
+    node.object.visible = visible;
+  }
+  if (!visible) {
+    // hidden objects cannot be picked, so they leave the selection as well
+    construct.selection.retain(isObjectVisible);
+  }
+  construct.invalidate();
+};
+
+/**
+ * Selects the object of a node, so that it is highlighted in the viewport. A light is selected together
+ * with the transform gizmo.
+ *
+ * @param {preparedConstructReturn} construct - The construct holding the selection.
+ * @param {sceneTreeNode} node - The node.
+ * @param {selectionModeEnum} mode - How the node changes the selection.
+ * @returns {void}
+ */
+export const selectSceneTreeNode = (
+  construct: preparedConstructReturn,
+  node: sceneTreeNode,
+  mode: selectionModeEnum = selectionModeEnum.REPLACE,
+): void => {
+  if (node.type === sceneTreeNodeTypeEnum.LIGHT && mode === selectionModeEnum.REPLACE) {
+    construct.selectLight(node.key ?? '');
+  } else if (node.object) {
+    construct.selection.select([node.object], mode);
+  }
+};
+
+/**
+ * Renames the object of a node. The keys of constructed scenes, contents and lights are not changed.
+ *
+ * @param {sceneTreeNode} node - The node.
+ * @param {string} name - The new name.
+ * @returns {void}
+ */
+export const renameSceneTreeNode = (node: sceneTreeNode, name: string): void => {
+  if (node.object) {
+    node.object.name = name;
+  }
+};
+
+/**
+ * Deletes the constructed scene, content or light of a node and releases its resources.
+ * Groups and meshes of a model cannot be deleted on their own.
+ *
+ * @param {preparedConstructReturn} construct - The construct holding the object.
+ * @param {sceneTreeNode} node - The node.
+ * @returns {boolean} `true` if the node has been deleted.
+ */
+export const deleteSceneTreeNode = (construct: preparedConstructReturn, node: sceneTreeNode): boolean => {
+  if (node.key === undefined) {
+    return false;
+  }
+  if (node.type === sceneTreeNodeTypeEnum.CONSTRUCTED_SCENE) {
+    construct.deleteConstructedScene(node.key);
+  } else if (node.type === sceneTreeNodeTypeEnum.CONTENT) {
+    construct.deleteContent(node.key);
+  } else {
+    construct.deleteLight(node.key);
+  }
+  return true;
+};
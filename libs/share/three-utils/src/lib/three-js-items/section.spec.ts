@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import { preparedConstructReturn, preparedSceneReturn } from './construct';
+import {
+  addSectionSupport,
+  handleSectionSupport,
+  hasSectionSupport,
+  isSectionExempt,
+  maxSectionPlanes,
+  sectionAxisEnum,
+} from './section';
+import { markAsHelper } from './selection';
+
+describe('section support', () => {
+  let renderGroup: THREE.Group;
+  let threeScene: THREE.Scene;
+  let construct: preparedConstructReturn;
+  let scene: preparedSceneReturn;
+  let part: THREE.Mesh;
+  let grid: THREE.Group;
+
+  beforeEach(() => {
+    renderGroup = new THREE.Group();
+    threeScene = new THREE.Scene();
+    threeScene.add(renderGroup);
+    part = new THREE.Mesh(new THREE.BoxGeometry(2, 2, 2), new THREE.MeshStandardMaterial());
+    const content = new THREE.Group();
+    content.add(part);
+    grid = markAsHelper(new THREE.Group());
+    grid.add(new THREE.Mesh(new THREE.PlaneGeometry(10, 10), new THREE.MeshBasicMaterial()));
+    renderGroup.add(content, grid);
+    construct = {
+      contentGroup: renderGroup,
+      renderer: { localClippingEnabled: false, domElement: undefined },
+      basicControls: { scene: threeScene, camera: { camera: new THREE.PerspectiveCamera() } },
+      controls: undefined,
+      getConstructedScene: (key: string) => (key === 'ground' ? { contentGroup: grid } : undefined),
+      invalidate: jest.fn(),
+    } as unknown as preparedConstructReturn;
+    scene = {
+      contentGroup: content,
+      animate: jest.fn(),
+      updateCameraWindowSize: jest.fn(),
+      visible: jest.fn(),
+      reCalculateDimensions: jest.fn(),
+      boundingBox: undefined,
+      dispose: jest.fn(),
+    };
+  });
+
+  const planesOf = (mesh: THREE.Mesh): THREE.Plane[] | null => (mesh.material as THREE.Material).clippingPlanes;
+  const gridMesh = (): THREE.Mesh => grid.children[0] as THREE.Mesh;
+
+  it('should cut the contents but not the helpers', () => {
+    const sectioned = addSectionSupport(scene, construct) as unknown as handleSectionSupport;
+    expect(hasSectionSupport(sectioned)).toBe(true);
+
+    const index = sectioned.sectionSupportContainer.addAxisPlane(sectionAxisEnum.X, 0.5);
+    expect(index).toBe(0);
+    expect(construct.renderer.localClippingEnabled).toBe(true);
+    expect(planesOf(part)).toHaveLength(1);
+    expect(planesOf(part)?.[0].distanceToPoint(new THREE.Vector3(0, 0, 0))).toBeCloseTo(0.5);
+    expect(planesOf(gridMesh())).toBeNull();
+  });
+
+  it('should limit the number of planes and release them on dispose', () => {
+    const sectioned = addSectionSupport(scene, construct);
+    const container = (sectioned as unknown as handleSectionSupport).sectionSupportContainer;
+    for (let i = 0; i < maxSectionPlanes; i++) {
+      expect(container.addPlane(new THREE.Vector3(1, 1, 0))).toBe(i);
+    }
+    expect(container.addPlane(new THREE.Vector3(0, 1, 0))).toBeUndefined();
+    expect(container.getPlanes()).toHaveLength(maxSectionPlanes);
+
+    container.removePlane(1);
+    expect(container.getPlanes()).toHaveLength(maxSectionPlanes - 1);
+
+    sectioned.dispose();
+    expect(planesOf(part)).toBeNull();
+    expect(threeScene.getObjectByName('section')).toBeUndefined();
+    expect(scene.dispose).toHaveBeenCalled();
+  });
+
+  it('should flip a plane', () => {
+    const container = (addSectionSupport(scene, construct) as unknown as handleSectionSupport).sectionSupportContainer;
+    container.addAxisPlane(sectionAxisEnum.Y);
+    container.flipPlane(0);
+    expect(container.getPlanes()[0].normal.equals(new THREE.Vector3(0, 1, 0))).toBe(true);
+  });
+
+  it('should exempt objects and cut helpers of the scene on request', () => {
+    const container = (addSectionSupport(scene, construct) as unknown as handleSectionSupport).sectionSupportContainer;
+    const handle = markAsHelper(new THREE.Mesh(new THREE.SphereGeometry(), new THREE.MeshBasicMaterial()));
+    scene.contentGroup?.add(handle);
+    container.addAxisPlane(sectionAxisEnum.Z);
+    expect(planesOf(handle)).toBeNull();
+    expect(planesOf(gridMesh())).toBeNull();
+
+    container.setExempt(handle, false);
+    expect(planesOf(handle)).toHaveLength(1);
+
+    container.setExempt(part, true);
+    expect(isSectionExempt(part)).toBe(true);
+    expect(planesOf(part)).toBeNull();
+  });
+
+  it('should clone materials shared with uncut meshes and settle without further changes', () => {
+    const sectioned = addSectionSupport(scene, construct);
+    const container = (sectioned as unknown as handleSectionSupport).sectionSupportContainer;
+    const shared = part.material as THREE.Material;
+    const exempt = new THREE.Mesh(part.geometry, shared);
+    scene.contentGroup?.add(exempt);
+    container.setExempt(exempt, true);
+    container.addAxisPlane(sectionAxisEnum.X);
+
+    expect(part.material).not.toBe(shared);
+    expect(planesOf(part)).toHaveLength(1);
+    expect(planesOf(exempt)).toBeNull();
+
+    (construct.invalidate as jest.Mock).mockClear();
+    const version = (part.material as THREE.Material).version;
+    sectioned.animate(undefined as unknown as THREE.WebGLRenderer, threeScene, new THREE.PerspectiveCamera());
+    sectioned.animate(undefined as unknown as THREE.WebGLRenderer, threeScene, new THREE.PerspectiveCamera());
+    expect(construct.invalidate).not.toHaveBeenCalled();
+    expect((part.material as THREE.Material).version).toBe(version);
+
+    container.clear();
+    expect(part.material).toBe(shared);
+  });
+
+  it('should re-apply the planes to replaced materials when animated', () => {
+    const sectioned = addSectionSupport(scene, construct);
+    (sectioned as unknown as handleSectionSupport).sectionSupportContainer.addAxisPlane(sectionAxisEnum.X);
+    part.material = new THREE.MeshBasicMaterial();
+    sectioned.animate(undefined as unknown as THREE.WebGLRenderer, threeScene, new THREE.PerspectiveCamera());
+    expect(planesOf(part)).toHaveLength(1);
+    expect(scene.animate).toHaveBeenCalled();
+  });
+});
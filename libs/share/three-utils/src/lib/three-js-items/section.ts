@@ -0,0 +1,649 @@
+import * as THREE from 'three';
+import { TransformControls } from 'three-stdlib';
+import { preparedConstructReturn, preparedSceneReturn } from './construct';
+import { calculateFramingBox } from './framing';
+import { imageExportKey } from './image-export';
+import { isHelperObject, isObjectVisible, markAsHelper } from './selection';
+
+/**
+ * Key in `userData` exempting an object and its children from the section planes
+ */
+export const sectionExemptKey = 'sectionExempt';
+
+/**
+ * Maximum number of section planes
+ */
+export const maxSectionPlanes = 3;
+
+/**
+ * Enum for the axes of axis-aligned section planes
+ */
+export enum sectionAxisEnum {
+  X,
+  Y,
+  Z,
+}
+
+/**
+ * Interface for cutting the contents of the construct with section planes.
+ *
+ * Methods:
+ * - addPlane / addAxisPlane: Add a section plane; the side the normal points to stays visible.
+ * - setPlane / flipPlane / removePlane / clear: Change the section planes.
+ * - getPlanes: Copies of the current section planes.
+ * - setCapsEnabled: Closes the cut solids with caps.
+ * - setHandlesVisible: Shows the handles for dragging the planes along their normals.
+ * - setExempt: Excludes an object of the scene from the section, or cuts a helper.
+ * - refresh: Re-applies the planes after contents or materials changed; called by the animation loop.
+ */
+export interface handleSectionSupport {
+  sectionSupportContainer: {
+    addPlane: (normal: THREE.Vector3, point?: THREE.Vector3) => number | undefined;
+    addAxisPlane: (axis: sectionAxisEnum, position?: number) => number | undefined;
+    setPlane: (index: number, normal: THREE.Vector3, point: THREE.Vector3) => void;
+    flipPlane: (index: number) => void;
+    removePlane: (index: number) => void;
+    clear: () => void;
+    getPlanes: () => THREE.Plane[];
+    setCapsEnabled: (enabled: boolean) => void;
+    setHandlesVisible: (visible: boolean) => void;
+    setExempt: (object: THREE.Object3D, exempt: boolean) => void;
+    refresh: () => void;
+  };
+}
+
+/**
+ * Determines if the given object is of type `handleSectionSupport`.
+ *
+ * @param {unknown} obj - The object to be checked.
+ * @returns {boolean} A boolean indicating whether the object is of type `handleSectionSupport`.
+ */
+export const hasSectionSupport = (obj: unknown): obj is handleSectionSupport => {
+  if (obj === undefined) {
+    return false;
+  }
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-expect-error
+  return (obj as object).sectionSupportContainer !== undefined;
+};
+
+/**
+ * Determines whether an object is excluded from the section planes. The nearest flag set on the object or
+ * one of its ancestors decides; without a flag helpers such as handles or view spheres are exempt.
+ *
+ * @param {THREE.Object3D} object - The object to check.
+ * @returns {boolean} `true` if the object is not cut.
+ */
+export const isSectionExempt = (object: THREE.Object3D): boolean => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    const exempt: unknown = current.userData[sectionExemptKey];
+    if (typeof exempt === 'boolean') {
+      return exempt;
+    }
+    current = current.parent;
+  }
+  return isHelperObject(object);
+};
+
+/**
+ * A section plane with its cap and its drag handle
+ */
+interface sectionPlane {
+  plane: THREE.Plane;
+  handle: THREE.Object3D;
+  controls: TransformControls;
+  camera: THREE.Camera;
+  cap?: THREE.Mesh;
+}
+
+const axisNormals: Record<sectionAxisEnum, THREE.Vector3> = {
+  [sectionAxisEnum.X]: new THREE.Vector3(-1, 0, 0),
+  [sectionAxisEnum.Y]: new THREE.Vector3(0, -1, 0),
+  [sectionAxisEnum.Z]: new THREE.Vector3(0, 0, -1),
+};
+
+/**
+ * Events of the transform controls that are missing in their typing
+ */
+interface handleEventMap {
+  change: object;
+  objectChange: object;
+  'dragging-changed': { value: boolean };
+}
+
+/**
+ * Shows or hides the handle of a section plane; a hidden handle does not react to the pointer.
+ *
+ * @param {TransformControls} controls - The transform controls of the handle.
+ * @param {boolean} visible - Whether the handle is shown.
+ * @returns {void}
+ */
+const showHandle = (controls: TransformControls, visible: boolean): void => {
+  // `enabled` of the transform controls is not part of their public typing
+  Object.assign(controls, { visible, enabled: visible });
+};
+
+/**
+ * Creates the section support for a scene. The section planes cut the contents of the scene, except helpers and
+ * exempt objects, so other constructed scenes such as the ground grid, the rotation cube or another scene with
+ * planes of its own are not affected; new planes pass through the center of the scene. Caps are drawn with the
+ * stencil buffer: for every plane the back faces of the cut meshes increment and the front faces decrement the
+ * stencil, so that the cap is drawn exactly where the plane lies inside a solid.
+ *
+ * A material shared between cut meshes and visible meshes that are not cut is replaced by a clone on the cut
+ * meshes, so that every material has exactly one set of clipping planes.
+ *
+ * @param {preparedSceneReturn} scene - The scene being inspected.
+ * @param {preparedConstructReturn} construct - The construct the scene is rendered by.
+ * @returns {handleSectionSupport & { dispose: () => void }} The section support and a function releasing it.
+ */
+export const sectionSupport = (
+  scene: preparedSceneReturn,
+  construct: preparedConstructReturn,
+): handleSectionSupport & { dispose: () => void } => {
+  const planes: sectionPlane[] = [];
+  // the array is shared by the materials of all cut meshes, so that changes of the planes apply immediately
+  const clippingPlanes: THREE.Plane[] = [];
+  const sectionGroup = markAsHelper(new THREE.Group());
+  sectionGroup.name = 'section';
+  // the caps belong to the image, unlike the handles
+  sectionGroup.userData[imageExportKey] = true;
+  const capMaterial = new THREE.MeshStandardMaterial({ color: 0xb0b0b0, roughness: 0.8, metalness: 0.1 });
+  let cutMeshes: THREE.Mesh[] = [];
+  // clones of materials shared by cut and uncut meshes, and the original materials of the meshes using them
+  const clonedMaterials = new Map<THREE.Material, THREE.Material>();
+  const originalMaterials = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>();
+  let capsEnabled = true;
+  let handlesVisible = true;
+  let orbitEnabled = false;
+  construct.renderer.localClippingEnabled = true;
+  construct.basicControls.scene.add(sectionGroup);
+
+  /**
+   * Collects the meshes of the scene.
+   *
+   * @returns {THREE.Mesh[]} The meshes, including helpers and hidden meshes.
+   */
+  const collectMeshes = (): THREE.Mesh[] => {
+    const meshes: THREE.Mesh[] = [];
+    scene.contentGroup?.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        meshes.push(child as THREE.Mesh);
+      }
+    });
+    return meshes;
+  };
+
+  /**
+   * Collects the visible meshes that are cut by the section planes.
+   *
+   * @returns {THREE.Mesh[]} The meshes to cut.
+   */
+  const collectCutMeshes = (): THREE.Mesh[] => {
+    return collectMeshes().filter((mesh) => isObjectVisible(mesh) && !isSectionExempt(mesh));
+  };
+
+  /**
+   * Lists the materials of a mesh.
+   *
+   * @param {THREE.Mesh} mesh - The mesh.
+   * @returns {THREE.Material[]} The materials of all slots.
+   */
+  const materialsOf = (mesh: THREE.Mesh): THREE.Material[] => {
+    return mesh.material instanceof Array ? mesh.material : [mesh.material];
+  };
+
+  /**
+   * Gives cut meshes a clone of every material they share with a visible mesh that is not cut, and restores the
+   * original materials of meshes that are no longer cut. Clones that are no longer used are disposed.
+   *
+   * @param {THREE.Mesh[]} meshes - All meshes of the scene.
+   * @param {Set<THREE.Mesh>} cut - The cut meshes.
+   * @returns {boolean} `true` if a material of a mesh has been replaced.
+   */
+  const separateSharedMaterials = (meshes: THREE.Mesh[], cut: Set<THREE.Mesh>): boolean => {
+    let changed = false;
+    for (const [mesh, original] of originalMaterials.entries()) {
+      if (!cut.has(mesh)) {
+        mesh.material = original;
+        originalMaterials.delete(mesh);
+        changed = true;
+      }
+    }
+    const uncut = new Set<THREE.Material>();
+    for (const mesh of meshes) {
+      if (!cut.has(mesh) && isObjectVisible(mesh)) {
+        materialsOf(mesh).forEach((material) => uncut.add(material));
+      }
+    }
+    for (const mesh of cut) {
+      if (!materialsOf(mesh).some((material) => uncut.has(material))) {
+        continue;
+      }
+      const cloneOf = (material: THREE.Material): THREE.Material => {
+        if (!uncut.has(material)) {
+          return material;
+        }
+        const clone = clonedMaterials.get(material) ?? material.clone();
+        clonedMaterials.set(material, clone);
+        return clone;
+      };
+      if (!originalMaterials.has(mesh)) {
+        originalMaterials.set(mesh, mesh.material);
+      }
+      mesh.material = mesh.material instanceof Array ? mesh.material.map(cloneOf) : cloneOf(mesh.material);
+      changed = true;
+    }
+    const used = new Set(meshes.flatMap(materialsOf));
+    for (const [material, clone] of clonedMaterials.entries()) {
+      if (!used.has(clone)) {
+        clone.dispose();
+        clonedMaterials.delete(material);
+      }
+    }
+    return changed;
+  };
+
+  /**
+   * Assigns the section planes to the materials of the cut meshes and removes them from the materials of the
+   * other meshes of the scene. Materials replaced in the meantime, e.g. by a highlight, receive the planes as well.
+   * A material is only written if its planes really change.
+   *
+   * @returns {boolean} `true` if a material has been changed.
+   */
+  const applyClipping = (): boolean => {
+    const active = clippingPlanes.length > 0 ? clippingPlanes : null;
+    const cut = new Set(active ? cutMeshes : []);
+    const meshes = collectMeshes();
+    let changed = separateSharedMaterials(meshes, cut);
+    const planesOfMaterials = new Map<THREE.Material, THREE.Plane[] | null>();
+    for (const mesh of meshes) {
+      for (const material of materialsOf(mesh)) {
+        if (cut.has(mesh)) {
+          planesOfMaterials.set(material, active);
+        } else if (!planesOfMaterials.has(material)) {
+          planesOfMaterials.set(material, null);
+        }
+      }
+    }
+    for (const [material, planesOfMaterial] of planesOfMaterials.entries()) {
+      if (material.clippingPlanes !== planesOfMaterial) {
+        material.clippingPlanes = planesOfMaterial;
+        material.clipShadows = true;
+        material.needsUpdate = true;
+        changed = true;
+      }
+    }
+    return changed;
+  };
+
+  /**
+   * Creates a stencil mesh following a cut mesh.
+   *
+   * @param {THREE.Mesh} source - The cut mesh.
+   * @param {THREE.Plane} plane - The plane the stencil is written for.
+   * @param {THREE.Side} side - Back faces increment, front faces decrement the stencil.
+   * @param {number} renderOrder - The render order of the stencil pass of the plane.
+   * @returns {THREE.Mesh} The stencil mesh.
+   */
+  const createStencilMesh = (
+    source: THREE.Mesh,
+    plane: THREE.Plane,
+    side: THREE.Side,
+    renderOrder: number,
+  ): THREE.Mesh => {
+    const operation = side === THREE.BackSide ? THREE.IncrementWrapStencilOp : THREE.DecrementWrapStencilOp;
+    const material = new THREE.MeshBasicMaterial({
+      side,
+      clippingPlanes: [plane],
+      depthWrite: false,
+      depthTest: false,
+      colorWrite: false,
+      stencilWrite: true,
+      stencilFunc: THREE.AlwaysStencilFunc,
+      stencilFail: operation,
+      stencilZFail: operation,
+      stencilZPass: operation,
+    });
+    const mesh = new THREE.Mesh(source.geometry, material);
+    mesh.matrixAutoUpdate = false;
+    // the matrix is only synchronized right before rendering, after the frustum culling
+    mesh.frustumCulled = false;
+    mesh.renderOrder = renderOrder;
+    mesh.onBeforeRender = (): void => {
+      mesh.matrixWorld.copy(source.matrixWorld);
+    };
+    return mesh;
+  };
+
+  /**
+   * Positions the cap of a plane at the plane, centered at the point of the plane nearest to its handle.
+   *
+   * @param {Omit<sectionPlane, 'controls'>} entry - The section plane.
+   * @param {THREE.Mesh} cap - The cap mesh.
+   * @returns {void}
+   */
+  const placeCap = (entry: Omit<sectionPlane, 'controls'>, cap: THREE.Mesh): void => {
+    entry.plane.projectPoint(entry.handle.position, cap.position);
+    cap.lookAt(cap.position.clone().sub(entry.plane.normal));
+  };
+
+  /**
+   * Rebuilds the stencil meshes and caps after the planes or the cut meshes changed.
+   *
+   * @returns {void}
+   */
+  const rebuildCaps = (): void => {
+    // the stencil meshes share the geometries of the cut meshes, so only the geometries of the caps are released
+    sectionGroup.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        ((object as THREE.Mesh).material as THREE.Material).dispose();
+      }
+    });
+    for (const entry of planes) {
+      entry.cap?.geometry.dispose();
+      entry.cap = undefined;
+    }
+    sectionGroup.clear();
+    if (!capsEnabled || cutMeshes.length === 0) {
+      return;
+    }
+    const bounds = new THREE.Box3();
+    for (const mesh of cutMeshes) {
+      bounds.expandByObject(mesh);
+    }
+    const size = bounds.getBoundingSphere(new THREE.Sphere()).radius * 4;
+    planes.forEach((entry, i) => {
+      const stencils = new THREE.Group();
+      for (const mesh of cutMeshes) {
+        stencils.add(createStencilMesh(mesh, entry.plane, THREE.BackSide, i + 1));
+        stencils.add(createStencilMesh(mesh, entry.plane, THREE.FrontSide, i + 1));
+      }
+      const material = capMaterial.clone();
+      Object.assign(material, {
+        clippingPlanes: planes.filter((other) => other !== entry).map((other) => other.plane),
+        stencilWrite: true,
+        stencilRef: 0,
+        stencilFunc: THREE.NotEqualStencilFunc,
+        stencilFail: THREE.ReplaceStencilOp,
+        stencilZFail: THREE.ReplaceStencilOp,
+        stencilZPass: THREE.ReplaceStencilOp,
+      });
+      const cap = new THREE.Mesh(new THREE.PlaneGeometry(size, size), material);
+      cap.renderOrder = i + 1.1;
+      cap.onAfterRender = (renderer): void => {
+        renderer.clearStencil();
+      };
+      placeCap(entry, cap);
+      entry.cap = cap;
+      sectionGroup.add(stencils, cap);
+    });
+  };
+
+  /**
+   * Applies the planes to the materials and rebuilds the caps.
+   *
+   * @returns {void}
+   */
+  const update = (): void => {
+    clippingPlanes.splice(0, clippingPlanes.length, ...planes.map((entry) => entry.plane));
+    cutMeshes = planes.length > 0 ? collectCutMeshes() : [];
+    applyClipping();
+    rebuildCaps();
+    construct.invalidate();
+  };
+
+  /**
+   * Calculates the center of the inspected scene, or of all contents if the scene is empty.
+   *
+   * @returns {THREE.Vector3} The center.
+   */
+  const contentCenter = (): THREE.Vector3 => {
+    let box = calculateFramingBox(scene.contentGroup ? [scene.contentGroup] : []);
+    if (box.isEmpty() && construct.contentGroup) {
+      box = calculateFramingBox([construct.contentGroup]);
+    }
+    return box.isEmpty() ? new THREE.Vector3() : box.getCenter(new THREE.Vector3());
+  };
+
+  /**
+   * Moves the handle of a plane onto the plane, next to the center of the contents.
+   *
+   * @param {sectionPlane} entry - The section plane.
+   * @returns {void}
+   */
+  const placeHandle = (entry: sectionPlane): void => {
+    entry.plane.projectPoint(contentCenter(), entry.handle.position);
+    entry.handle.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), entry.plane.normal);
+    entry.handle.updateMatrixWorld();
+  };
+
+  /**
+   * Creates the transform controls dragging the handle of a plane along its normal.
+   *
+   * @param {Omit<sectionPlane, 'controls'>} entry - The section plane; its handle is attached to the controls.
+   * @param {THREE.Camera} camera - The camera the controls are bound to.
+   * @returns {TransformControls} The transform controls, added to the scene.
+   */
+  const createHandleControls = (entry: Omit<sectionPlane, 'controls'>, camera: THREE.Camera): TransformControls => {
+    const controls = markAsHelper(new TransformControls(camera, construct.renderer.domElement));
+    // the handle moves along the normal of the plane only
+    Object.assign(controls, { showX: false, showY: false, size: 0.6 });
+    controls.setSpace('local');
+    controls.attach(entry.handle);
+    showHandle(controls, handlesVisible);
+    const events = controls as unknown as THREE.EventDispatcher<handleEventMap>;
+    events.addEventListener('change', construct.invalidate);
+    events.addEventListener('objectChange', () => {
+      entry.plane.setFromNormalAndCoplanarPoint(entry.plane.normal, entry.handle.position);
+      if (entry.cap) {
+        placeCap(entry, entry.cap);
+      }
+      construct.invalidate();
+    });
+    events.addEventListener('dragging-changed', (event) => {
+      const orbit = construct.controls;
+      if (!orbit) {
+        return;
+      }
+      if (event.value) {
+        orbitEnabled = orbit.enabled;
+        orbit.enabled = false;
+      } else {
+        orbit.enabled = orbitEnabled;
+      }
+    });
+    construct.basicControls.scene.add(controls);
+    return controls;
+  };
+
+  /**
+   * Removes the transform controls of a plane.
+   *
+   * @param {sectionPlane} entry - The section plane.
+   * @returns {void}
+   */
+  const disposeHandleControls = (entry: sectionPlane): void => {
+    entry.controls.detach();
+    entry.controls.dispose();
+    entry.controls.removeFromParent();
+  };
+
+  /**
+   * Adds a section plane. The side the normal points to stays visible.
+   *
+   * @param {THREE.Vector3} normal - The normal of the plane.
+   * @param {THREE.Vector3} point - A point on the plane; defaults to the center of the contents.
+   * @returns {number | undefined} The index of the plane, or `undefined` if the maximum number of planes is reached.
+   */
+  const addPlane = (normal: THREE.Vector3, point?: THREE.Vector3): number | undefined => {
+    const camera = construct.basicControls.camera.camera;
+    if (planes.length >= maxSectionPlanes || !camera) {
+      return undefined;
+    }
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal.clone().normalize(), point ?? contentCenter());
+    const handle = markAsHelper(new THREE.Object3D());
+    const base = { plane, handle, camera };
+    const entry: sectionPlane = Object.assign(base, { controls: createHandleControls(base, camera) });
+    construct.basicControls.scene.add(handle);
+    planes.push(entry);
+    placeHandle(entry);
+    update();
+    return planes.length - 1;
+  };
+
+  /**
+   * Removes a section plane together with its handle.
+   *
+   * @param {number} index - The index of the plane.
+   * @returns {void}
+   */
+  const removePlane = (index: number): void => {
+    const entry = planes.at(index);
+    if (!entry) {
+      return;
+    }
+    // the caps of all planes are rebuilt, so the removed cap is released first
+    entry.cap?.geometry.dispose();
+    entry.cap = undefined;
+    planes.splice(index, 1);
+    disposeHandleControls(entry);
+    entry.handle.removeFromParent();
+    update();
+  };
+
+  /**
+   * Re-applies the section planes if the cut meshes or their materials changed, e.g. after a content
+   * has been added or a material has been replaced. The controls of the handles are recreated after the camera
+   * has been replaced, e.g. by a projection switch.
+   *
+   * @returns {void}
+   */
+  const refresh = (): void => {
+    if (planes.length === 0) {
+      return;
+    }
+    const camera = construct.basicControls.camera.camera;
+    for (const entry of planes) {
+      if (camera && camera !== entry.camera) {
+        disposeHandleControls(entry);
+        entry.camera = camera;
+        entry.controls = createHandleControls(entry, camera);
+      }
+    }
+    const meshes = collectCutMeshes();
+    if (meshes.length !== cutMeshes.length || meshes.some((mesh, i) => mesh !== cutMeshes[i])) {
+      update();
+      return;
+    }
+    if (applyClipping()) {
+      construct.invalidate();
+    }
+  };
+
+  /**
+   * Marks an object as exempt from the section planes or as cut, overriding the default for helpers.
+   *
+   * @param {THREE.Object3D} object - The object.
+   * @param {boolean} exempt - `true` to exclude the object from the section.
+   * @returns {void}
+   */
+  const setExempt = (object: THREE.Object3D, exempt: boolean): void => {
+    object.userData[sectionExemptKey] = exempt;
+    update();
+  };
+
+  /**
+   * Removes all planes and the helpers of the section from the scene.
+   *
+   * @returns {void}
+   */
+  const clear = (): void => {
+    while (planes.length > 0) {
+      removePlane(planes.length - 1);
+    }
+  };
+
+  return {
+    sectionSupportContainer: {
+      addPlane,
+      addAxisPlane: (axis: sectionAxisEnum, position?: number): number | undefined => {
+        const normal = axisNormals[axis];
+        // the plane keeps the part on the negative side of the axis, so its constant equals the position
+        return addPlane(normal, position === undefined ? undefined : normal.clone().multiplyScalar(-position));
+      },
+      setPlane: (index: number, normal: THREE.Vector3, point: THREE.Vector3): void => {
+        const entry = planes.at(index);
+        if (entry) {
+          entry.plane.setFromNormalAndCoplanarPoint(normal.clone().normalize(), point);
+          placeHandle(entry);
+          update();
+        }
+      },
+      flipPlane: (index: number): void => {
+        const entry = planes.at(index);
+        if (entry) {
+          entry.plane.negate();
+          placeHandle(entry);
+          update();
+        }
+      },
+      removePlane,
+      clear,
+      getPlanes: (): THREE.Plane[] => planes.map((entry) => entry.plane.clone()),
+      setCapsEnabled: (enabled: boolean): void => {
+        capsEnabled = enabled;
+        rebuildCaps();
+        construct.invalidate();
+      },
+      setHandlesVisible: (visible: boolean): void => {
+        handlesVisible = visible;
+        for (const entry of planes) {
+          showHandle(entry.controls, visible);
+        }
+        construct.invalidate();
+      },
+      setExempt,
+      refresh,
+    },
+    dispose: (): void => {
+      clear();
+      sectionGroup.removeFromParent();
+      capMaterial.dispose();
+    },
+  };
+};
+
+/**
+ * Enhances the given scene with section support if not already present.
+ * The planes are re-applied whenever the scene is animated and removed when the scene is disposed.
+ *
+ * @param {preparedSceneReturn} scene - The prepared scene to be evaluated and potentially enhanced.
+ * @param {preparedConstructReturn | undefined} construct - The construct whose contents are cut.
+ * @returns {preparedSceneReturn} The resulting scene, enhanced with section support if applicable.
+ */
+export const addSectionSupport = (
+  scene: preparedSceneReturn,
+  construct: preparedConstructReturn | undefined,
+): preparedSceneReturn => {
+  if (hasSectionSupport(scene)) {
+    return scene;
+  }
+  if (!construct) {
+    return scene;
+  }
+  const { dispose, ...support } = sectionSupport(scene, construct);
+  return {
+    ...scene,
+    ...support,
+    animate: (renderer: THREE.WebGLRenderer, threeScene: THREE.Scene, camera: THREE.Camera): void => {
+      support.sectionSupportContainer.refresh();
+      scene.animate(renderer, threeScene, camera);
+    },
+    dispose: (): void => {
+      dispose();
+      scene.dispose();
+    },
+  };
+};
@@ -0,0 +1,84 @@
+import * as THREE from 'three';
+import { createSelection, markAsHelper, selectionChange, selectionModeEnum, setPickTarget } from './selection';
+
+const createMesh = (): THREE.Mesh => new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial());
+
+const intersection = (object: THREE.Object3D, distance: number): THREE.Intersection =>
+  ({ object, distance, point: new THREE.Vector3() }) as THREE.Intersection;
+
+describe('createSelection', () => {
+  it('should replace, toggle and clear the selection', () => {
+    const selection = createSelection();
+    const a = createMesh();
+    const b = createMesh();
+
+    selection.select([a]);
+    selection.select([b], selectionModeEnum.TOGGLE);
+    expect(selection.getSelected()).toEqual([a, b]);
+
+    selection.select([a], selectionModeEnum.TOGGLE);
+    expect(selection.getSelected()).toEqual([b]);
+
+    selection.select([a]);
+    expect(selection.getSelected()).toEqual([a]);
+
+    selection.clear();
+    expect(selection.getSelected()).toEqual([]);
+  });
+
+  it('should emit the changes of the selection', () => {
+    const onChange = jest.fn();
+    const selection = createSelection(onChange);
+    const changes: selectionChange[] = [];
+    selection.selectionChanged$.subscribe((change) => changes.push(change));
+    const a = createMesh();
+
+    selection.select([a]);
+    selection.select([a]);
+    selection.clear();
+
+    expect(changes.map((c) => [c.added.length, c.removed.length])).toEqual([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pick the nearest visible mesh that is not a helper', () => {
+    const selection = createSelection();
+    const hidden = createMesh();
+    hidden.visible = false;
+    const helper = markAsHelper(new THREE.Group()).add(createMesh());
+    const target = createMesh();
+
+    const picked = selection.pick([
+      intersection(hidden, 1),
+      intersection(helper.children[0], 2),
+      intersection(new THREE.Line(), 3),
+      intersection(target, 4),
+    ]);
+    expect(picked).toBe(target);
+    expect(selection.pick([intersection(hidden, 1)])).toBeUndefined();
+  });
+
+  it('should pick the target of a handle', () => {
+    const selection = createSelection();
+    const light = new THREE.PointLight();
+    const handle = setPickTarget(markAsHelper(createMesh()), light);
+    light.add(handle);
+
+    expect(selection.pick([intersection(handle, 1), intersection(createMesh(), 2)])).toBe(light);
+    handle.visible = false;
+    expect(selection.pick([intersection(handle, 1)])).toBeUndefined();
+  });
+
+  it('should retain only the objects fulfilling the predicate', () => {
+    const selection = createSelection();
+    const a = createMesh();
+    const b = createMesh();
+    selection.select([a, b]);
+    selection.retain((object) => object === b);
+    expect(selection.getSelected()).toEqual([b]);
+  });
+});
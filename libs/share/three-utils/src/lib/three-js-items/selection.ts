@@ -0,0 +1,255 @@
+import { BehaviorSubject, Observable } from 'rxjs';
+import * as THREE from 'three';
+
+/**
+ * Key in `userData` marking an object and its children as helper that cannot be selected
+ */
+export const helperObjectKey = 'studioHelper';
+
+/**
+ * Enum for the ways a pick changes the selection
+ *
+ * - REPLACE: The picked objects become the selection; picking nothing clears it.
+ * - ADD: The picked objects are added to the selection.
+ * - REMOVE: The picked objects are removed from the selection.
+ * - TOGGLE: Picked objects that are selected are removed, all others are added.
+ */
+export enum selectionModeEnum {
+  REPLACE,
+  ADD,
+  REMOVE,
+  TOGGLE,
+}
+
+/**
+ * Change of the selection emitted by `selectionChanged$`
+ */
+export interface selectionChange {
+  selected: THREE.Object3D[];
+  added: THREE.Object3D[];
+  removed: THREE.Object3D[];
+}
+
+/**
+ * Interface representing the selection of a prepared construct.
+ *
+ * Methods:
+ * - selectionChanged$: Emits the current selection on subscription and after every change.
+ * - getSelected / isSelected: Query the current selection.
+ * - select / clear: Change the selection.
+ * - pick: Finds the selectable object hit by a raycast, or the target of a hit handle.
+ * - retain: Removes all objects from the selection that do not fulfil the predicate.
+ * - dispose: Completes the `selectionChanged$` stream.
+ */
+export interface selectionReturn {
+  selectionChanged$: Observable<selectionChange>;
+  getSelected: () => THREE.Object3D[];
+  isSelected: (object: THREE.Object3D) => boolean;
+  select: (objects: THREE.Object3D[], mode?: selectionModeEnum) => void;
+  clear: () => void;
+  pick: (intersections: THREE.Intersection[]) => THREE.Object3D | undefined;
+  retain: (predicate: (object: THREE.Object3D) => boolean) => void;
+  dispose: () => void;
+}
+
+/**
+ * Marks an object and all its children as helper, so that they are ignored by the selection.
+ *
+ * @param {THREE.Object3D} object - The helper object, e.g. a grid or a view sphere.
+ * @returns {T} The marked object.
+ */
+export const markAsHelper = <T extends THREE.Object3D>(object: T): T => {
+  object.userData[helperObjectKey] = true;
+  return object;
+};
+
+/**
+ * Objects picked instead of the handles standing in for them in the viewport
+ */
+const pickTargets = new WeakMap<THREE.Object3D, THREE.Object3D>();
+
+/**
+ * Lets a helper stand in for another object when picked, e.g. a handle for a light that has no geometry
+ * of its own. A click on the helper or one of its children selects the target.
+ *
+ * @param {T} handle - The helper hit by the raycast.
+ * @param {THREE.Object3D} target - The object selected instead.
+ * @returns {T} The handle.
+ */
+export const setPickTarget = <T extends THREE.Object3D>(handle: T, target: THREE.Object3D): T => {
+  pickTargets.set(handle, target);
+  return handle;
+};
+
+/**
+ * Finds the object picked instead of the given object or one of its ancestors.
+ *
+ * @param {THREE.Object3D} object - The object hit by a raycast.
+ * @returns {THREE.Object3D | undefined} The pick target, or `undefined` if the object stands in for nothing.
+ */
+export const findPickTarget = (object: THREE.Object3D): THREE.Object3D | undefined => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    const target = pickTargets.get(current);
+    if (target) {
+      return target;
+    }
+    current = current.parent;
+  }
+  return undefined;
+};
+
+/**
+ * Determines whether an object is a helper, either marked with `markAsHelper` or a three.js helper
+ * such as `ArrowHelper` or `GridHelper`, or a child of one.
+ *
+ * @param {THREE.Object3D} object - The object to check.
+ * @returns {boolean} `true` if the object belongs to a helper.
+ */
+export const isHelperObject = (object: THREE.Object3D): boolean => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (current.userData[helperObjectKey] === true || current.type.endsWith('Helper')) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+};
+
+/**
+ * Determines whether an object is visible, taking the visibility of all its ancestors into account.
+ *
+ * @param {THREE.Object3D} object - The object to check.
+ * @returns {boolean} `true` if the object and all its ancestors are visible.
+ */
+export const isObjectVisible = (object: THREE.Object3D): boolean => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (!current.visible) {
+      return false;
+    }
+    current = current.parent;
+  }
+  return true;
+};
+
+/**
+ * Derives the selection mode from the modifier keys of a mouse event:
+ * Ctrl, Cmd or Shift toggle the picked object, a plain click replaces the selection.
+ *
+ * @param {MouseEvent} event - The mouse event of the pick.
+ * @returns {selectionModeEnum} The selection mode.
+ */
+export const selectionModeFromEvent = (event: MouseEvent): selectionModeEnum => {
+  return event.ctrlKey || event.metaKey || event.shiftKey ? selectionModeEnum.TOGGLE : selectionModeEnum.REPLACE;
+};
+
+/**
+ * Creates the selection of a prepared construct.
+ *
+ * @param {Function} onChange - Called after every change of the selection, e.g. to invalidate the frame.
+ * @returns {selectionReturn} The selection.
+ */
+export const createSelection = (onChange: () => void = (): void => undefined): selectionReturn => {
+  const selected = new Set<THREE.Object3D>();
+  const subject = new BehaviorSubject<selectionChange>({ selected: [], added: [], removed: [] });
+
+  /**
+   * Emits a change if objects have been added or removed.
+   *
+   * @param {THREE.Object3D[]} added - The objects added to the selection.
+   * @param {THREE.Object3D[]} removed - The objects removed from the selection.
+   * @returns {void}
+   */
+  const emit = (added: THREE.Object3D[], removed: THREE.Object3D[]): void => {
+    if (added.length === 0 && removed.length === 0) {
+      return;
+    }
+    subject.next({ selected: [...selected], added, removed });
+    onChange();
+  };
+
+  /**
+   * Changes the selection according to the selection mode.
+   *
+   * @param {THREE.Object3D[]} objects - The picked objects.
+   * @param {selectionModeEnum} mode - How the picked objects change the selection.
+   * @returns {void}
+   */
+  const select = (objects: THREE.Object3D[], mode: selectionModeEnum = selectionModeEnum.REPLACE): void => {
+    const added: THREE.Object3D[] = [];
+    const removed: THREE.Object3D[] = [];
+    if (mode === selectionModeEnum.REPLACE) {
+      for (const object of [...selected]) {
+        if (!objects.includes(object)) {
+          selected.delete(object);
+          removed.push(object);
+        }
+      }
+    }
+    for (const object of objects) {
+      const remove = mode === selectionModeEnum.REMOVE || (mode === selectionModeEnum.TOGGLE && selected.has(object));
+      if (remove && selected.delete(object)) {
+        removed.push(object);
+      } else if (!remove && !selected.has(object)) {
+        selected.add(object);
+        added.push(object);
+      }
+    }
+    emit(added, removed);
+  };
+
+  /**
+   * Removes all objects from the selection that do not fulfil the predicate.
+   *
+   * @param {Function} predicate - Returns `true` for objects that stay selected.
+   * @returns {void}
+   */
+  const retain = (predicate: (object: THREE.Object3D) => boolean): void => {
+    const removed = [...selected].filter((object) => !predicate(object));
+    for (const object of removed) {
+      selected.delete(object);
+    }
+    emit([], removed);
+  };
+
+  /**
+   * Finds the nearest visible object hit by a raycast that is not a helper. Handles registered with
+   * `setPickTarget` yield their target.
+   *
+   * @param {THREE.Intersection[]} intersections - The intersections sorted by distance.
+   * @returns {THREE.Object3D | undefined} The picked mesh or target, or `undefined` if nothing selectable was hit.
+   */
+  const pick = (intersections: THREE.Intersection[]): THREE.Object3D | undefined => {
+    for (const { object } of intersections) {
+      if (!isObjectVisible(object)) {
+        continue;
+      }
+      const target = findPickTarget(object);
+      if (target) {
+        return target;
+      }
+      if ((object as unknown) instanceof THREE.Mesh && !isHelperObject(object)) {
+        return object;
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    selectionChanged$: subject.asObservable(),
+    getSelected: (): THREE.Object3D[] => [...selected],
+    isSelected: (object: THREE.Object3D): boolean => selected.has(object),
+    select,
+    clear: (): void => {
+      select([], selectionModeEnum.REPLACE);
+    },
+    pick,
+    retain,
+    dispose: (): void => {
+      selected.clear();
+      subject.complete();
+    },
+  };
+};
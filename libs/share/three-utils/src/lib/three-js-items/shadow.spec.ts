@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import * as framing from './framing';
+import { Light, lightTypeEnum } from './light';
+import { markAsHelper } from './selection';
+import {
+  applyShadowFlags,
+  createShadowCatcher,
+  createShadows,
+  fitShadowCamera,
+  shadowQualityEnum,
+  shadowQualityPresets,
+} from './shadow';
+
+describe('shadow', () => {
+  /**
+   * Creates a box mesh of the given size at the given position.
+   *
+   * @param {number} size - The edge length of the box.
+   * @param {THREE.Vector3} position - The center of the box.
+   * @returns {THREE.Mesh} The mesh.
+   */
+  const box = (size: number, position = new THREE.Vector3()): THREE.Mesh => {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(size, size, size), new THREE.MeshStandardMaterial());
+    mesh.position.copy(position);
+    return mesh;
+  };
+
+  it('sets the shadow flags of meshes but not of helpers', () => {
+    const group = new THREE.Group();
+    const part = box(1);
+    const helper = markAsHelper(box(1));
+    group.add(part, helper);
+
+    applyShadowFlags(group, { cast: true, receive: false });
+
+    expect(part.castShadow).toBe(true);
+    expect(part.receiveShadow).toBe(false);
+    expect(helper.castShadow).toBe(false);
+  });
+
+  it('fits the shadow camera of a directional light around the content', () => {
+    const light = new THREE.DirectionalLight();
+    light.position.set(0, 10, 0);
+    const bounds = new THREE.Box3(new THREE.Vector3(-1, 0, -2), new THREE.Vector3(1, 1, 2));
+
+    expect(fitShadowCamera(light, bounds, 1)).toBe(true);
+
+    const camera = light.shadow.camera;
+    expect(camera.right - camera.left).toBeCloseTo(2);
+    expect(camera.top - camera.bottom).toBeCloseTo(4);
+    expect(camera.near).toBeCloseTo(9);
+    expect(camera.far).toBeCloseTo(10);
+    expect(fitShadowCamera(light, new THREE.Box3())).toBe(false);
+  });
+
+  it('creates a shadow catcher receiving but not casting shadows', () => {
+    const catcher = createShadowCatcher(4, 0.5);
+
+    expect(catcher.material).toBeInstanceOf(THREE.ShadowMaterial);
+    expect(catcher.receiveShadow).toBe(true);
+    expect(catcher.castShadow).toBe(false);
+    expect(catcher.scale.x).toBe(4);
+  });
+
+  it('applies the quality presets to the renderer and the lights', () => {
+    const renderer = { shadowMap: { enabled: false, type: THREE.BasicShadowMap } } as unknown as THREE.WebGLRenderer;
+    const directional = new Light({
+      type: lightTypeEnum.Directional,
+      color: 0xffffff,
+      intensity: 1,
+      position: [0, 5, 0],
+    });
+    const ambient = new Light({ type: lightTypeEnum.Ambient, color: 0xffffff, intensity: 1, position: [0, 0, 0] });
+    const lights = new Map([
+      ['directional', directional],
+      ['ambient', ambient],
+    ]);
+    const root = new THREE.Group();
+    root.add(box(1));
+    const onChange = jest.fn();
+
+    const shadows = createShadows(renderer, lights, root, shadowQualityEnum.HIGH, onChange);
+
+    const light = directional.getLight() as THREE.DirectionalLight;
+    expect(renderer.shadowMap.enabled).toBe(true);
+    expect(renderer.shadowMap.type).toBe(THREE.PCFSoftShadowMap);
+    expect(light.castShadow).toBe(true);
+    expect(light.shadow.mapSize.x).toBe(shadowQualityPresets[shadowQualityEnum.HIGH].mapSize);
+    expect(ambient.getLight()?.castShadow).toBe(false);
+
+    shadows.setQuality(shadowQualityEnum.OFF);
+
+    expect(renderer.shadowMap.enabled).toBe(false);
+    expect(light.castShadow).toBe(false);
+    expect(shadows.getQuality()).toBe(shadowQualityEnum.OFF);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('fits the directional shadow cameras to the content on update', () => {
+    const renderer = { shadowMap: { enabled: false, type: THREE.BasicShadowMap } } as unknown as THREE.WebGLRenderer;
+    const directional = new Light({
+      type: lightTypeEnum.Directional,
+      color: 0xffffff,
+      intensity: 1,
+      position: [0, 5, 0],
+    });
+    const root = new THREE.Group();
+    root.add(box(20));
+    const shadows = createShadows(renderer, new Map([['directional', directional]]), root);
+
+    shadows.update();
+
+    const camera = (directional.getLight() as THREE.DirectionalLight).shadow.camera;
+    expect(camera.right - camera.left).toBeGreaterThanOrEqual(20);
+  });
+
+  it('calculates the bounds of the content again only after it changed', () => {
+    const renderer = { shadowMap: { enabled: true, type: THREE.PCFShadowMap } } as unknown as THREE.WebGLRenderer;
+    const root = new THREE.Group();
+    const part = box(2);
+    root.add(part);
+    const shadows = createShadows(renderer, new Map(), root, shadowQualityEnum.HIGH);
+    const calculateFramingBox = jest.spyOn(framing, 'calculateFramingBox');
+
+    shadows.update();
+    shadows.update();
+    expect(calculateFramingBox).toHaveBeenCalledTimes(1);
+
+    part.position.x = 5;
+    shadows.update();
+    part.visible = false;
+    shadows.update();
+    root.add(box(1));
+    shadows.update();
+    shadows.update();
+    expect(calculateFramingBox).toHaveBeenCalledTimes(4);
+    calculateFramingBox.mockRestore();
+  });
+});
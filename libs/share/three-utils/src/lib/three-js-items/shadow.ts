@@ -0,0 +1,268 @@
+import * as THREE from 'three';
+import { calculateFramingBox } from './framing';
+import { imageExportKey } from './image-export';
+import { Light, lightShadowSettings } from './light';
+import { isHelperObject, markAsHelper } from './selection';
+
+/**
+ * Enum for the shadow quality presets
+ *
+ * - OFF: No shadows are rendered.
+ * - LOW: Hard shadows from small, unfiltered shadow maps.
+ * - MEDIUM: Filtered shadows (PCF).
+ * - HIGH: Soft filtered shadows (PCF soft) from large shadow maps.
+ */
+export enum shadowQualityEnum {
+  OFF,
+  LOW,
+  MEDIUM,
+  HIGH,
+}
+
+/**
+ * Shadow settings of a quality preset: the shadow map type of the renderer and the settings of every light
+ */
+export interface shadowQualitySettings extends lightShadowSettings {
+  type: THREE.ShadowMapType;
+}
+
+/**
+ * Settings of the shadow quality presets
+ */
+export const shadowQualityPresets: Record<shadowQualityEnum, shadowQualitySettings> = {
+  [shadowQualityEnum.OFF]: {
+    enabled: false,
+    type: THREE.PCFShadowMap,
+    mapSize: 512,
+    bias: 0,
+    normalBias: 0,
+    radius: 1,
+  },
+  [shadowQualityEnum.LOW]: {
+    enabled: true,
+    type: THREE.BasicShadowMap,
+    mapSize: 512,
+    bias: -0.0005,
+    normalBias: 0.02,
+    radius: 1,
+  },
+  [shadowQualityEnum.MEDIUM]: {
+    enabled: true,
+    type: THREE.PCFShadowMap,
+    mapSize: 1024,
+    bias: -0.0005,
+    normalBias: 0.02,
+    radius: 2,
+  },
+  [shadowQualityEnum.HIGH]: {
+    enabled: true,
+    type: THREE.PCFSoftShadowMap,
+    mapSize: 2048,
+    bias: -0.0002,
+    normalBias: 0.01,
+    radius: 1,
+  },
+};
+
+/**
+ * Whether the meshes of a content cast and receive shadows
+ */
+export interface shadowFlags {
+  cast: boolean;
+  receive: boolean;
+}
+
+/**
+ * Default shadow flags of contents: loaded models shade themselves and the ground
+ */
+export const defaultShadowFlags: shadowFlags = { cast: true, receive: true };
+
+/**
+ * Interface representing the shadows of a prepared construct.
+ *
+ * Methods:
+ * - setQuality / getQuality: Switch the shadow map type and the shadow settings of all lights.
+ * - configureLight: Applies the current quality to a light added to the scene.
+ * - update: Fits the shadow cameras of directional lights to the content; called before each rendered frame,
+ *   so that they follow moved lights as well as moved or exploded parts. The bounds of the content are only
+ *   calculated again after objects have been added, removed, hidden or moved.
+ */
+export interface shadowsReturn {
+  setQuality: (quality: shadowQualityEnum) => void;
+  getQuality: () => shadowQualityEnum;
+  configureLight: (light: Light) => void;
+  update: () => void;
+}
+
+/**
+ * Sets whether the meshes of an object cast and receive shadows. Helpers are left unchanged.
+ *
+ * @param {THREE.Object3D} object - The object, e.g. the group of a content.
+ * @param {shadowFlags} flags - Whether the meshes cast and receive shadows.
+ * @returns {void}
+ */
+export const applyShadowFlags = (object: THREE.Object3D, flags: shadowFlags): void => {
+  object.traverse((child) => {
+    if ((child as unknown) instanceof THREE.Mesh && !isHelperObject(child)) {
+      child.castShadow = flags.cast;
+      child.receiveShadow = flags.receive;
+    }
+  });
+};
+
+/**
+ * Collects the state the bounds of a content depend on: the visible objects and their world transforms.
+ *
+ * @param {THREE.Object3D} root - The group holding the content.
+ * @returns {number[]} The ids and world matrices of the visible objects.
+ */
+const boundsState = (root: THREE.Object3D): number[] => {
+  root.updateWorldMatrix(true, true);
+  const state: number[] = [];
+  root.traverseVisible((object) => {
+    state.push(object.id, ...object.matrixWorld.elements);
+  });
+  return state;
+};
+
+/**
+ * Fits the orthographic shadow camera of a directional light tightly around a bounding box, so that the
+ * resolution of the shadow map is spent on the content instead of the default 10 x 10 area.
+ *
+ * @param {THREE.DirectionalLight} light - The directional light.
+ * @param {THREE.Box3} box - The world space bounds of the shadow casting content.
+ * @param {number} margin - Factor by which the fitted area is enlarged.
+ * @returns {boolean} `true` if the camera has been fitted, `false` if the box is empty.
+ */
+export const fitShadowCamera = (light: THREE.DirectionalLight, box: THREE.Box3, margin = 1.1): boolean => {
+  if (box.isEmpty()) {
+    return false;
+  }
+  // place the camera as the renderer does before rendering the shadow map
+  const camera = light.shadow.camera;
+  light.updateWorldMatrix(true, false);
+  light.target.updateWorldMatrix(true, false);
+  camera.position.setFromMatrixPosition(light.matrixWorld);
+  camera.lookAt(new THREE.Vector3().setFromMatrixPosition(light.target.matrixWorld));
+  camera.updateMatrixWorld();
+
+  const bounds = new THREE.Box3();
+  for (const x of [box.min.x, box.max.x]) {
+    for (const y of [box.min.y, box.max.y]) {
+      for (const z of [box.min.z, box.max.z]) {
+        bounds.expandByPoint(new THREE.Vector3(x, y, z).applyMatrix4(camera.matrixWorldInverse));
+      }
+    }
+  }
+  const center = bounds.getCenter(new THREE.Vector3());
+  const half = bounds.getSize(new THREE.Vector3()).multiplyScalar(margin / 2);
+  camera.left = center.x - half.x;
+  camera.right = center.x + half.x;
+  camera.bottom = center.y - half.y;
+  camera.top = center.y + half.y;
+  // the camera looks along its negative z-axis
+  camera.near = -center.z - half.z;
+  camera.far = -center.z + half.z;
+  camera.updateProjectionMatrix();
+  return true;
+};
+
+/**
+ * Creates a transparent plane that only shows the shadows falling onto it, so that models appear to stand
+ * on the ground without hiding the background. The plane is a helper and cannot be selected, but it appears in
+ * image exports.
+ *
+ * @param {number} size - The width and depth of the plane.
+ * @param {number} opacity - The darkness of the shadows between 0 and 1.
+ * @returns {THREE.Mesh} The horizontal plane, centered at the origin.
+ */
+export const createShadowCatcher = (size = 1, opacity = 0.3): THREE.Mesh => {
+  const plane = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), new THREE.ShadowMaterial({ opacity }));
+  plane.rotation.x = -Math.PI / 2;
+  plane.scale.set(size, size, 1);
+  plane.receiveShadow = true;
+  plane.userData[imageExportKey] = true;
+  return markAsHelper(plane);
+};
+
+/**
+ * Creates the shadow handling of a construct.
+ *
+ * @param {THREE.WebGLRenderer} renderer - The renderer rendering the shadow maps.
+ * @param {Map<string, Light>} lights - The lights of the construct.
+ * @param {THREE.Object3D} root - The group holding the contents whose bounds the shadow cameras are fitted to.
+ * @param {shadowQualityEnum} quality - The initial shadow quality.
+ * @param {() => void} onChange - Called whenever the quality changes, e.g. to request a new frame.
+ * @returns {shadowsReturn} The shadow handling.
+ */
+export const createShadows = (
+  renderer: THREE.WebGLRenderer,
+  lights: Map<string, Light>,
+  root: THREE.Object3D,
+  quality: shadowQualityEnum = shadowQualityEnum.MEDIUM,
+  onChange: () => void = (): void => undefined,
+): shadowsReturn => {
+  let current = quality;
+  let bounds = new THREE.Box3();
+  let state: number[] = [];
+
+  /**
+   * Switches the shadow map type and the shadow settings of all lights.
+   *
+   * @param {shadowQualityEnum} newQuality - The shadow quality.
+   * @returns {void}
+   */
+  const setQuality = (newQuality: shadowQualityEnum): void => {
+    current = newQuality;
+    const settings = shadowQualityPresets[newQuality];
+    renderer.shadowMap.enabled = settings.enabled;
+    renderer.shadowMap.type = settings.type;
+    for (const light of lights.values()) {
+      light.configureShadow(settings);
+    }
+    // the shaders of the materials depend on the shadow map type
+    root.traverse((child) => {
+      if ((child as unknown) instanceof THREE.Mesh) {
+        const mesh = child as THREE.Mesh;
+        for (const material of mesh.material instanceof Array ? mesh.material : [mesh.material]) {
+          material.needsUpdate = true;
+        }
+      }
+    });
+    onChange();
+  };
+
+  /**
+   * Fits the shadow cameras of the shadow casting directional lights to the content. The bounds of the content
+   * are kept until its visible objects or their transforms change.
+   *
+   * @returns {void}
+   */
+  const update = (): void => {
+    if (!renderer.shadowMap.enabled) {
+      return;
+    }
+    const newState = boundsState(root);
+    if (newState.length !== state.length || newState.some((value, index) => value !== state[index])) {
+      state = newState;
+      bounds = calculateFramingBox([root]);
+    }
+    for (const light of lights.values()) {
+      const object = light.getLight();
+      if (object instanceof THREE.DirectionalLight && object.castShadow) {
+        fitShadowCamera(object, bounds);
+      }
+    }
+  };
+
+  setQuality(quality);
+
+  return {
+    setQuality,
+    getQuality: (): shadowQualityEnum => current,
+    configureLight: (light: Light): void => {
+      light.configureShadow(shadowQualityPresets[current]);
+    },
+    update,
+  };
+};
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { TransformControls } from 'three-stdlib';
+import { Light, lightTypeEnum } from './light';
+import { isHelperObject } from './selection';
+import { createTransformGizmo, transformChange, transformModeEnum } from './transform-gizmo';
+
+const getControls = (gizmo: ReturnType<typeof createTransformGizmo>): TransformControls =>
+  gizmo.object.children[0] as TransformControls;
+
+const dispatch = (
+  gizmo: ReturnType<typeof createTransformGizmo>,
+  event: { type: string; value?: boolean },
+): void => {
+  (getControls(gizmo) as unknown as THREE.EventDispatcher<Record<string, object>>).dispatchEvent(event);
+};
+
+describe('createTransformGizmo', () => {
+  const createGizmo = (onChange?: () => void): ReturnType<typeof createTransformGizmo> =>
+    createTransformGizmo(new THREE.PerspectiveCamera(), undefined as unknown as HTMLElement, onChange);
+
+  it('should keep the configuration of an attached light in sync', () => {
+    const gizmo = createGizmo();
+    const light = new Light({ type: lightTypeEnum.Point, color: 0xffffff, intensity: 1, position: [0, 0, 0] });
+    const changes: transformChange[] = [];
+    gizmo.transformChanged$.subscribe((change) => changes.push(change));
+
+    gizmo.attach(light);
+    expect(gizmo.getAttached()).toBe(light.getLight());
+    expect(gizmo.object.visible).toBe(true);
+
+    light.getLight()?.position.set(1, 2, 3);
+    dispatch(gizmo, { type: 'objectChange' });
+    expect(light.getConfig().position).toEqual([1, 2, 3]);
+    expect(changes).toEqual([{ object: light.getLight(), light }]);
+  });
+
+  it('should report dragging and hide when detached', () => {
+    const onChange = jest.fn();
+    const gizmo = createGizmo(onChange);
+    const dragging: boolean[] = [];
+    gizmo.draggingChanged$.subscribe((value) => dragging.push(value));
+
+    gizmo.attach(new THREE.Group());
+    dispatch(gizmo, { type: 'dragging-changed', value: true });
+    expect(gizmo.isDragging()).toBe(true);
+    dispatch(gizmo, { type: 'dragging-changed', value: false });
+    expect(dragging).toEqual([true, false]);
+
+    gizmo.detach();
+    expect(gizmo.getAttached()).toBeUndefined();
+    expect(gizmo.object.visible).toBe(false);
+    expect(onChange).toHaveBeenCalled();
+  });
+
+  it('should recreate the controls for a new camera and keep their configuration', () => {
+    const gizmo = createGizmo();
+    const object = new THREE.Group();
+    const camera = new THREE.OrthographicCamera();
+    const dragging: boolean[] = [];
+    gizmo.draggingChanged$.subscribe((value) => dragging.push(value));
+    gizmo.attach(object);
+    gizmo.setMode(transformModeEnum.ROTATE);
+    const oldControls = getControls(gizmo);
+    dispatch(gizmo, { type: 'dragging-changed', value: true });
+
+    gizmo.setCamera(camera);
+    const controls = getControls(gizmo);
+    expect(controls).not.toBe(oldControls);
+    expect(gizmo.object.children).toEqual([controls]);
+    expect(isHelperObject(controls)).toBe(true);
+    expect(controls).toMatchObject({ object, camera, mode: 'rotate' });
+    expect(gizmo.isDragging()).toBe(false);
+    expect(dragging).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,262 @@
+import { Observable, Subject } from 'rxjs';
+import * as THREE from 'three';
+import { TransformControls } from 'three-stdlib';
+import { Light } from './light';
+import { markAsHelper } from './selection';
+
+/**
+ * Enum for the operations of the transform gizmo
+ */
+export enum transformModeEnum {
+  TRANSLATE,
+  ROTATE,
+  SCALE,
+}
+
+/**
+ * Enum for the coordinate space the transform gizmo is aligned to
+ */
+export enum transformSpaceEnum {
+  WORLD,
+  LOCAL,
+}
+
+/**
+ * Snapping increments of the transform gizmo; missing or zero values disable snapping.
+ *
+ * - translation: Increment in world units.
+ * - rotation: Increment in radians.
+ * - scale: Increment of the scale factor.
+ */
+export interface transformSnap {
+  translation?: number;
+  rotation?: number;
+  scale?: number;
+}
+
+/**
+ * Change of a transformed object emitted by `transformChanged$`. `light` is set if the object
+ * is the light of an attached `Light`.
+ */
+export interface transformChange {
+  object: THREE.Object3D;
+  light: Light | undefined;
+}
+
+/**
+ * Interface representing the transform gizmo of a prepared construct.
+ *
+ * Methods:
+ * - object: The gizmo to be added to the scene, marked as helper.
+ * - transformChanged$: Emits while the attached object is moved, rotated or scaled.
+ * - draggingChanged$: Emits `true` when a drag starts and `false` when it ends.
+ * - attach / detach / getAttached: Bind the gizmo to an object or a `Light`.
+ * - setMode / setSpace / setSnap: Configure the gizmo.
+ * - setCamera: Recreates the controls of the gizmo for a replaced camera.
+ * - isDragging: Whether the gizmo is dragged right now.
+ * - dispose: Removes the gizmo and completes the streams.
+ */
+export interface transformGizmoReturn {
+  object: THREE.Object3D;
+  transformChanged$: Observable<transformChange>;
+  draggingChanged$: Observable<boolean>;
+  attach: (target: THREE.Object3D | Light) => void;
+  detach: () => void;
+  getAttached: () => THREE.Object3D | undefined;
+  setMode: (mode: transformModeEnum) => void;
+  getMode: () => transformModeEnum;
+  setSpace: (space: transformSpaceEnum) => void;
+  getSpace: () => transformSpaceEnum;
+  setSnap: (snap: transformSnap) => void;
+  getSnap: () => transformSnap;
+  setCamera: (camera: THREE.Camera) => void;
+  isDragging: () => boolean;
+  dispose: () => void;
+}
+
+/**
+ * Events of the transform controls that are missing in their typing
+ */
+interface transformControlsEventMap {
+  change: object;
+  objectChange: object;
+  'dragging-changed': { value: boolean };
+}
+
+const transformModes = {
+  [transformModeEnum.TRANSLATE]: 'translate',
+  [transformModeEnum.ROTATE]: 'rotate',
+  [transformModeEnum.SCALE]: 'scale',
+} as const;
+
+/**
+ * Creates a transform gizmo for moving, rotating and scaling objects and lights.
+ *
+ * @param {THREE.Camera} camera - The camera the scene is rendered with.
+ * @param {HTMLElement} domElement - The element receiving the pointer events, usually the canvas of the renderer.
+ * @param {Function} onChange - Called whenever the gizmo or the attached object changed, e.g. to invalidate the frame.
+ * @returns {transformGizmoReturn} The transform gizmo.
+ */
+export const createTransformGizmo = (
+  camera: THREE.Camera,
+  domElement: HTMLElement,
+  onChange: () => void = (): void => undefined,
+): transformGizmoReturn => {
+  const object = markAsHelper(new THREE.Group());
+  const transformChanged = new Subject<transformChange>();
+  const draggingChanged = new Subject<boolean>();
+  let attachedLight: Light | undefined;
+  let attached: THREE.Object3D | undefined;
+  let mode = transformModeEnum.TRANSLATE;
+  let space = transformSpaceEnum.WORLD;
+  let snap: transformSnap = {};
+  let dragging = false;
+  object.visible = false;
+
+  /**
+   * Forwards the changes of the attached object and keeps the configuration of an attached light in sync.
+   *
+   * @returns {void}
+   */
+  const onObjectChange = (): void => {
+    if (!attached) {
+      return;
+    }
+    if (attachedLight) {
+      attachedLight.setLightPosition(attached.position);
+      attachedLight.updateHelper();
+    }
+    transformChanged.next({ object: attached, light: attachedLight });
+  };
+
+  /**
+   * Forwards the start and the end of a drag.
+   *
+   * @param {object} event - The event of the transform controls.
+   * @param {boolean} event.value - `true` while dragging.
+   * @returns {void}
+   */
+  const onDraggingChanged = (event: { value: boolean }): void => {
+    dragging = event.value;
+    draggingChanged.next(dragging);
+  };
+
+  /**
+   * Creates the transform controls for a camera with the current configuration of the gizmo.
+   *
+   * @param {THREE.Camera} forCamera - The camera the scene is rendered with.
+   * @returns {TransformControls} The controls, added to the gizmo.
+   */
+  const createControls = (forCamera: THREE.Camera): TransformControls => {
+    const newControls = new TransformControls(forCamera, domElement);
+    const events = newControls as unknown as THREE.EventDispatcher<transformControlsEventMap>;
+    events.addEventListener('change', onChange);
+    events.addEventListener('objectChange', onObjectChange);
+    events.addEventListener('dragging-changed', onDraggingChanged);
+    newControls.setMode(transformModes[mode]);
+    newControls.setSpace(space === transformSpaceEnum.LOCAL ? 'local' : 'world');
+    newControls.setTranslationSnap(snap.translation ?? 0);
+    newControls.setRotationSnap(snap.rotation ?? 0);
+    newControls.setScaleSnap(snap.scale ?? 0);
+    if (attached) {
+      newControls.attach(attached);
+    }
+    object.add(newControls);
+    return newControls;
+  };
+
+  /**
+   * Removes transform controls from the gizmo and releases their listeners.
+   *
+   * @param {TransformControls} oldControls - The controls to dispose.
+   * @returns {void}
+   */
+  const disposeControls = (oldControls: TransformControls): void => {
+    const events = oldControls as unknown as THREE.EventDispatcher<transformControlsEventMap>;
+    events.removeEventListener('change', onChange);
+    events.removeEventListener('objectChange', onObjectChange);
+    events.removeEventListener('dragging-changed', onDraggingChanged);
+    oldControls.detach();
+    oldControls.removeFromParent();
+    oldControls.dispose();
+  };
+
+  let controls = createControls(camera);
+
+  /**
+   * Releases the attached object and hides the gizmo.
+   *
+   * @returns {void}
+   */
+  const detach = (): void => {
+    if (!attached) {
+      return;
+    }
+    attached = undefined;
+    attachedLight = undefined;
+    controls.detach();
+    object.visible = false;
+    onChange();
+  };
+
+  /**
+   * Binds the gizmo to an object or to the light of a `Light`.
+   *
+   * @param {THREE.Object3D | Light} target - The object or light to transform.
+   * @returns {void}
+   */
+  const attach = (target: THREE.Object3D | Light): void => {
+    const targetObject = target instanceof Light ? target.getLight() : target;
+    if (!targetObject) {
+      detach();
+      return;
+    }
+    attachedLight = target instanceof Light ? target : undefined;
+    attached = targetObject;
+    controls.attach(targetObject);
+    object.visible = true;
+    onChange();
+  };
+
+  return {
+    object,
+    transformChanged$: transformChanged.asObservable(),
+    draggingChanged$: draggingChanged.asObservable(),
+    attach,
+    detach,
+    getAttached: (): THREE.Object3D | undefined => attached,
+    setMode: (newMode: transformModeEnum): void => {
+      mode = newMode;
+      controls.setMode(transformModes[mode]);
+    },
+    getMode: (): transformModeEnum => mode,
+    setSpace: (newSpace: transformSpaceEnum): void => {
+      space = newSpace;
+      controls.setSpace(space === transformSpaceEnum.LOCAL ? 'local' : 'world');
+    },
+    getSpace: (): transformSpaceEnum => space,
+    setSnap: (newSnap: transformSnap): void => {
+      snap = { ...newSnap };
+      controls.setTranslationSnap(snap.translation ?? 0);
+      controls.setRotationSnap(snap.rotation ?? 0);
+      controls.setScaleSnap(snap.scale ?? 0);
+    },
+    getSnap: (): transformSnap => ({ ...snap }),
+    setCamera: (newCamera: THREE.Camera): void => {
+      // the camera of the transform controls can only be set on construction
+      disposeControls(controls);
+      if (dragging) {
+        onDraggingChanged({ value: false });
+      }
+      controls = createControls(newCamera);
+      onChange();
+    },
+    isDragging: (): boolean => dragging,
+    dispose: (): void => {
+      disposeControls(controls);
+      object.removeFromParent();
+      transformChanged.complete();
+      draggingChanged.complete();
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import * as THREE from 'three';
+import { calculateViewCubeRegionView, findViewCubeRegion } from './view-cube';
+
+describe('view cube regions', () => {
+  const box = new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(2, 2, 2));
+
+  it('should find the face, edge and corner regions of a point on the cube', () => {
+    expect(findViewCubeRegion(new THREE.Vector3(2, 1.2, 0.9), box)?.toArray()).toEqual([1, 0, 0]);
+    expect(findViewCubeRegion(new THREE.Vector3(2, 1.9, 1), box)?.toArray()).toEqual([1, 1, 0]);
+    expect(findViewCubeRegion(new THREE.Vector3(0.1, 0, 1.95), box)?.toArray()).toEqual([-1, -1, 1]);
+  });
+
+  it('should not find a region at the center or with a threshold beyond the faces', () => {
+    expect(findViewCubeRegion(new THREE.Vector3(1, 1, 1), box)).toBeUndefined();
+    expect(findViewCubeRegion(new THREE.Vector3(2, 1, 1), box, 1)).toBeUndefined();
+  });
+
+  it('should keep the distance to the target and tilt the up direction for top and bottom views', () => {
+    const view = { position: new THREE.Vector3(1, 2, 5), target: new THREE.Vector3(1, 2, 1) };
+
+    const front = calculateViewCubeRegionView(new THREE.Vector3(1, 0, 1), view);
+    expect(front.position.distanceTo(view.target)).toBeCloseTo(4);
+    expect(front.up?.toArray()).toEqual([0, 1, 0]);
+
+    const top = calculateViewCubeRegionView(new THREE.Vector3(0, 1, 0), view);
+    expect(top.position.toArray()).toEqual([1, 6, 1]);
+    expect(top.up?.toArray()).toEqual([0, 0, -1]);
+    expect(calculateViewCubeRegionView(new THREE.Vector3(0, -1, 0), view).up?.toArray()).toEqual([0, 0, 1]);
+    expect(top.target).not.toBe(view.target);
+  });
+});
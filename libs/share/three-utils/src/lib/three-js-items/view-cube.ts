@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+import { cameraView } from './construct';
+
+/**
+ * Part of the half edge length at which a point on a face of a view cube counts as edge or corner region
+ */
+export const viewCubeRegionThreshold = 0.6;
+
+/**
+ * Determines the face, edge or corner region of a view cube containing a point on its surface.
+ *
+ * @param {THREE.Vector3} point - The point in the coordinates of the cube, e.g. a raycast hit.
+ * @param {THREE.Box3} box - The bounds of the cube in the same coordinates.
+ * @param {number} threshold - The part of the half edge length at which an edge or corner region starts.
+ * @returns {THREE.Vector3 | undefined} The direction of the region with components -1, 0 or 1, or `undefined`
+ * if the point is at the center of the cube.
+ */
+export const findViewCubeRegion = (
+  point: THREE.Vector3,
+  box: THREE.Box3,
+  threshold = viewCubeRegionThreshold,
+): THREE.Vector3 | undefined => {
+  const center = box.getCenter(new THREE.Vector3());
+  const half = box.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+  const region = point.clone().sub(center).divide(half);
+  region.set(
+    Math.abs(region.x) > threshold ? Math.sign(region.x) : 0,
+    Math.abs(region.y) > threshold ? Math.sign(region.y) : 0,
+    Math.abs(region.z) > threshold ? Math.sign(region.z) : 0,
+  );
+  return region.lengthSq() > 0 ? region : undefined;
+};
+
+/**
+ * Calculates the camera view looking at the target from the direction of a view cube region. The distance
+ * to the target is kept. Looking straight down or up, the up direction leaves the y axis.
+ *
+ * @param {THREE.Vector3} region - The direction of the region with components -1, 0 or 1.
+ * @param {cameraView} view - The current camera view.
+ * @returns {cameraView} The view of the region.
+ */
+export const calculateViewCubeRegionView = (region: THREE.Vector3, view: cameraView): cameraView => {
+  const distance = view.position.distanceTo(view.target);
+  const direction = region.clone().normalize();
+  const up =
+    Math.abs(direction.y) > 0.999 ? new THREE.Vector3(0, 0, -Math.sign(direction.y)) : new THREE.Vector3(0, 1, 0);
+  return {
+    target: view.target.clone(),
+    position: view.target.clone().add(direction.multiplyScalar(distance)),
+    up,
+  };
+};
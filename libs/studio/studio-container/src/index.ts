@@ -1 +1,3 @@
 export * from './lib/studio-container/studio-container.component';
+export * from './lib/scene-tree/scene-tree.component';
+export * from './lib/property-inspector/property-inspector.component';
@@ -1,5 +1,6 @@
 import {
   calculateBoundingBox,
+  disposeObject,
   glbLoader,
   interfaceAnalyseResult,
   preparedSceneReturn,
@@ -104,6 +105,15 @@ export const cube = async (): Promise<preparedSceneReturn> => {
     console.log('reCalculateDimensions -- ', dimension);
   };
 
+  /**
+   * Releases the geometries, materials and textures of the cube.
+   *
+   * @returns {void}
+   */
+  const dispose = (): void => {
+    disposeObject(cube);
+  };
+
   await glb();
   analyseScene();
 
@@ -116,5 +126,6 @@ export const cube = async (): Promise<preparedSceneReturn> => {
     updateCameraWindowSize,
     reCalculateDimensions,
     boundingBox: undefined,
+    dispose,
   };
 };
@@ -1,17 +1,20 @@
 import {
   calculateBoundingBox,
-  glbLoader,
+  disposeObject,
   interfaceAnalyseResult,
+  modelLoader,
+  modelLoaderResult,
+  modelLoadOptions,
   preparedConstructReturn,
   preparedSceneReturn,
 } from '@three-js-studio/three-utils';
 import * as THREE from 'three';
-import { GLTF } from 'three-stdlib';
 
 /**
- * Asynchronously loads and prepares a 3D scene from a GLB (Binary glTF) file.
+ * Asynchronously loads and prepares a 3D scene from a GLB (Binary glTF) file or any other model format
+ * supported by `modelLoader` (STL, OBJ, PLY, 3MF, FBX, Collada).
  *
- * This function takes the path to a GLB file, optionally applies a material to the loaded meshes,
+ * This function takes the path to a model file, optionally applies a material to the loaded meshes,
  * and sets up various functionalities to be used with the loaded scene. It returns an object
  * containing methods for interacting with the scene, such as animation, visibility control,
  * material setting, and scene analysis.
@@ -19,42 +22,43 @@ import { GLTF } from 'three-stdlib';
  * The function internally loads the GLB file, builds the scene with the provided material
  * (if available), and processes the scene's bounding box for further interaction.
  *
- * @param {string} path - The file path to the GLB file to be loaded and processed.
+ * @param {string} path - The file path to the model file to be loaded and processed.
  * @param {THREE.MeshPhysicalMaterial | undefined} [_material=undefined] - An optional custom material
  *        to override the default materials in the loaded scene.
  * @param {preparedConstructReturn} construct - The prepared construct object containing the renderer,
+ * @param {modelLoadOptions} options - Progress callback, abort signal and cache usage of the model load.
  * @returns {Promise<preparedSceneReturn>} A promise that resolves to an object with utility functions
  *          and properties for managing and interacting with the loaded 3D scene.
  */
 export const glbScene = async (
   path: string,
   construct: preparedConstructReturn | undefined = undefined,
+  options: modelLoadOptions = {},
 ): Promise<preparedSceneReturn> => {
   const glbContainer: THREE.Group = new THREE.Group();
   const name = path;
   let analyseBoundingBoxResult: interfaceAnalyseResult | undefined = undefined;
 
   /**
-   * Asynchronously loads a GLB (Binary glTF) file and adds it to a designated container.
+   * Asynchronously loads a model file (GLB or any other format supported by `modelLoader`) and adds it
+   * to a designated container.
    *
-   * The function utilizes a loader to fetch and decode the GLB file. Once loaded,
+   * The function utilizes a loader to fetch and decode the model file. Once loaded,
    * the corresponding scene is appended to a container object, and the container's
    * name is set to a pre-defined value.
    *
    * The function does not return any value but relies on side effects to modify
-   * the `glbContainer` object with the loaded scene. It ensures that the loader
-   * properly handles undefined values or missing scenes within the GLB file.
+   * the `glbContainer` object with the loaded scene.
    *
    * @async
    * @function
    * @returns {Promise<void>} A promise that resolves when the GLB file is loaded and processed.
    */
   const glb = async (): Promise<void> => {
-    await glbLoader(undefined, path).then((gltf: GLTF | undefined) => {
-      if (gltf?.scene) {
-        glbContainer.add(gltf.scene);
-        glbContainer.name = name;
-      }
+    await modelLoader({ url: path }, options).then((model: modelLoaderResult) => {
+      glbContainer.add(model.group);
+      glbContainer.name = name;
+      glbContainer.animations = model.animations;
     });
   };
 
@@ -125,6 +129,15 @@ export const glbScene = async (
     console.log('reCalculateDimensions -- ', dimension);
   };
 
+  /**
+   * Releases the geometries, materials and textures of the loaded model and detaches it from the construct.
+   *
+   * @returns {void}
+   */
+  const dispose = (): void => {
+    disposeObject(glbContainer);
+  };
+
   await glb();
   analyseScene();
 
@@ -137,5 +150,6 @@ export const glbScene = async (
     updateCameraWindowSize,
     reCalculateDimensions,
     boundingBox: analyseBoundingBoxResult,
+    dispose,
   };
 };
@@ -1,4 +1,10 @@
-import { interfaceAnalyseResult, preparedSceneReturn } from '@three-js-studio/three-utils';
+import {
+  createShadowCatcher,
+  disposeObject,
+  interfaceAnalyseResult,
+  markAsHelper,
+  preparedSceneReturn,
+} from '@three-js-studio/three-utils';
 import * as THREE from 'three';
 
 /**
@@ -22,7 +28,10 @@ export const ground = (_scene: THREE.Scene): preparedSceneReturn => {
   const planeGeometry = new THREE.PlaneGeometry(1, 1);
   const planeMaterial = new THREE.MeshStandardMaterial({ color: 0x808088, side: THREE.DoubleSide });
   const plane = new THREE.Mesh(planeGeometry, planeMaterial);
-  const contentGroup = new THREE.Group();
+  // the ground grid is a helper and cannot be selected
+  const contentGroup = markAsHelper(new THREE.Group());
+  // shows the shadows of the models on the ground
+  const shadowCatcher = createShadowCatcher();
 
   plane.rotation.x = -Math.PI / 2;
   plane.position.z = 0; //-0.55;
@@ -94,6 +103,7 @@ export const ground = (_scene: THREE.Scene): preparedSceneReturn => {
    */
   const visible = (vis: boolean): void => {
     gridHelper.visible = vis;
+    shadowCatcher.visible = vis;
   };
 
   /**
@@ -123,6 +133,20 @@ export const ground = (_scene: THREE.Scene): preparedSceneReturn => {
     gridHelper = createRectangularGrid(gridSizeX, gridSizeZ, gridSizeX * 10, gridSizeZ * 10);
     gridHelper.position.y = dimensions.boundingBox.min.y * 1.2;
     contentGroup.add(gridHelper);
+    shadowCatcher.scale.set(gridSizeX, gridSizeZ, 1);
+    shadowCatcher.position.y = gridHelper.position.y;
+    contentGroup.add(shadowCatcher);
+  };
+
+  /**
+   * Releases the plane and the grid lines of the ground.
+   *
+   * @returns {void}
+   */
+  const dispose = (): void => {
+    disposeObject(contentGroup);
+    disposeObject(shadowCatcher);
+    disposeObject(plane);
   };
 
   analyseScene();
@@ -135,5 +159,6 @@ export const ground = (_scene: THREE.Scene): preparedSceneReturn => {
     updateCameraWindowSize,
     reCalculateDimensions,
     boundingBox: undefined,
+    dispose,
   };
 };
@@ -1,18 +1,57 @@
 import {
   blue,
+  calculateViewCubeRegionView,
   createTextLabel,
+  disposeObject,
+  findViewCubeRegion,
   glbLoader,
   green,
   interfaceAnalyseResult,
   Light,
   lightTypeEnum,
+  markAsHelper,
+  preparedConstructReturn,
   preparedSceneReturn,
   red,
+  viewCubeRegionThreshold,
   zeroPosition,
 } from '@three-js-studio/three-utils';
 import * as THREE from 'three';
 import { GLTF } from 'three-stdlib';
 
+/**
+ * Interface for the CAD-style navigation of the view cube.
+ *
+ * Methods:
+ * - navigate: Animates the main camera to the face, edge or corner of the cube under the pointer.
+ * - hover: Highlights the face, edge or corner of the cube under the pointer.
+ * - roll: Rolls the main camera by 90 degrees.
+ * - home: Animates back to the initial view.
+ */
+export interface handleViewCubeSupport {
+  viewCubeSupportContainer: {
+    navigate: (event: MouseEvent) => boolean;
+    hover: (event: MouseEvent) => boolean;
+    roll: (clockwise: boolean) => void;
+    home: () => void;
+  };
+}
+
+/**
+ * Determines if the given object is of type `handleViewCubeSupport`.
+ *
+ * @param {unknown} obj - The object to be checked.
+ * @returns {boolean} A boolean indicating whether the object is of type `handleViewCubeSupport`.
+ */
+export const hasViewCubeSupport = (obj: unknown): obj is handleViewCubeSupport => {
+  if (obj === undefined) {
+    return false;
+  }
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-expect-error
+  return (obj as object).viewCubeSupportContainer !== undefined;
+};
+
 /**
  * Constructs and prepares a rotation cube with a 3D scene, camera, lighting, and interaction methods.
  *
@@ -20,17 +59,33 @@ import { GLTF } from 'three-stdlib';
  * It implements necessary utilities, including lighting, camera setup, and the ability to animate,
  * update the viewport, and toggle visibility of the cube.
  *
- * @returns {preparedSceneReturn} An object containing methods for animating the cube,
+ * Clicking one of the 26 face, edge or corner regions of the cube animates the main camera around the
+ * OrbitControls target to the corresponding view.
+ *
+ * @param {preparedConstructReturn} construct - The prepared construct whose camera is navigated by the cube.
+ * @returns {preparedSceneReturn & handleViewCubeSupport} An object containing methods for animating the cube,
  * changing its visibility, and updating the camera window size:
  * - `animate`: A method to synchronize the camera's orientation with the cube.
  * - `visible`: A method to set the visibility of the cube.
  * - `updateCameraWindowSize`: A method to adjust the camera's dimensions based on given viewport parameters.
  */
-export const constructRotationCube = (): preparedSceneReturn => {
-  const groupCube: THREE.Group = new THREE.Group();
+export const constructRotationCube = (
+  construct: preparedConstructReturn | undefined = undefined,
+): preparedSceneReturn & handleViewCubeSupport => {
+  const groupCube: THREE.Group = markAsHelper(new THREE.Group());
   const cube: THREE.Group = new THREE.Group();
   const cubeScene: THREE.Scene = new THREE.Scene();
   const cubeCamera: THREE.OrthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 2000);
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  // bounds of the cube model in the coordinates of groupCube, known once the model is loaded
+  let cubeBox: THREE.Box3 | undefined;
+  let hoveredRegion: THREE.Vector3 | undefined;
+  const regionMarker = new THREE.Mesh(
+    new THREE.BoxGeometry(1, 1, 1),
+    new THREE.MeshBasicMaterial({ color: 0x4fc3f7, transparent: true, opacity: 0.6 }),
+  );
+  regionMarker.visible = false;
 
   const standardLight = new Light({
     type: lightTypeEnum.Directional,
@@ -64,7 +119,16 @@ export const constructRotationCube = (): preparedSceneReturn => {
         // cube is 50x50x50 (1 scale 50)
         cube.scale.set(50, 50, 50);
         groupCube.add(cube);
+        // the bounds are taken without the rotation mirroring the camera
+        const rotation = cubeScene.quaternion.clone();
+        cubeScene.quaternion.identity();
+        cubeScene.updateMatrixWorld(true);
+        cubeBox = new THREE.Box3().setFromObject(cube);
+        cubeScene.quaternion.copy(rotation);
+        cubeScene.updateMatrixWorld(true);
+        groupCube.add(regionMarker);
         finishRotationCube(groupCube);
+        construct?.invalidate();
       }
     });
   };
@@ -133,6 +197,83 @@ export const constructRotationCube = (): preparedSceneReturn => {
     createTextLabel('helvetiker_regular.typeface.json', 'Z', new THREE.Vector3(-20, -20, 50), blue as number, qube);
   };
 
+  /**
+   * Determines the face, edge or corner region of the cube under the pointer.
+   *
+   * @param {MouseEvent} event - The mouse event.
+   * @returns {THREE.Vector3 | undefined} The direction of the region with components -1, 0 or 1, or `undefined`
+   * if the pointer is not over the cube.
+   */
+  const pickRegion = (event: MouseEvent): THREE.Vector3 | undefined => {
+    if (!construct || !cubeBox || !groupCube.visible) {
+      return undefined;
+    }
+    const rect = construct.renderer.domElement.getBoundingClientRect();
+    pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    raycaster.setFromCamera(pointer, cubeCamera);
+    const hit = raycaster.intersectObject(cube, true).at(0);
+    if (!hit) {
+      return undefined;
+    }
+    return findViewCubeRegion(groupCube.worldToLocal(hit.point.clone()), cubeBox);
+  };
+
+  /**
+   * Places the marker over the given region of the cube.
+   *
+   * @param {THREE.Vector3 | undefined} region - The region to mark, or `undefined` to hide the marker.
+   * @returns {void}
+   */
+  const markRegion = (region: THREE.Vector3 | undefined): void => {
+    const unchanged = region && hoveredRegion ? region.equals(hoveredRegion) : region === hoveredRegion;
+    if (unchanged) {
+      return;
+    }
+    hoveredRegion = region?.clone();
+    regionMarker.visible = region !== undefined;
+    if (region && cubeBox) {
+      const center = cubeBox.getCenter(new THREE.Vector3());
+      const half = cubeBox.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+      // a region spans from the threshold to slightly outside of the cube, the middle part spans the threshold
+      const outer = 1.02;
+      for (const axis of ['x', 'y', 'z'] as const) {
+        const size = region[axis] === 0 ? 2 * viewCubeRegionThreshold : outer - viewCubeRegionThreshold;
+        const offset = region[axis] * (viewCubeRegionThreshold + outer) * 0.5;
+        regionMarker.scale[axis] = size * half[axis];
+        regionMarker.position[axis] = center[axis] + offset * half[axis];
+      }
+    }
+    construct?.invalidate();
+  };
+
+  /**
+   * Animates the main camera to the view of the cube region under the pointer.
+   *
+   * @param {MouseEvent} event - The click event.
+   * @returns {boolean} `true` if the pointer was over the cube.
+   */
+  const navigate = (event: MouseEvent): boolean => {
+    const region = pickRegion(event);
+    if (!region || !construct) {
+      return false;
+    }
+    construct.animateCamera(calculateViewCubeRegionView(region, construct.getCameraView()));
+    return true;
+  };
+
+  /**
+   * Highlights the cube region under the pointer.
+   *
+   * @param {MouseEvent} event - The mouse move event.
+   * @returns {boolean} `true` if the pointer is over the cube.
+   */
+  const hover = (event: MouseEvent): boolean => {
+    const region = pickRegion(event);
+    markRegion(region);
+    return region !== undefined;
+  };
+
   /**
    * A function that manages the rendering process for a 3D scene.
    *
@@ -174,6 +315,16 @@ export const constructRotationCube = (): preparedSceneReturn => {
     console.log('reCalculateDimensions -- ', dimensions);
   };
 
+  /**
+   * Releases the cube model, its arrows, labels and the lights of the separate cube scene.
+   *
+   * @returns {void}
+   */
+  const dispose = (): void => {
+    disposeObject(cubeScene);
+    standardLight.dispose();
+  };
+
   glb();
 
   console.log('cube-Scene -- ', groupCube, cubeScene);
@@ -184,5 +335,16 @@ export const constructRotationCube = (): preparedSceneReturn => {
     updateCameraWindowSize,
     reCalculateDimensions,
     boundingBox: undefined,
+    dispose,
+    viewCubeSupportContainer: {
+      navigate,
+      hover,
+      roll: (clockwise: boolean): void => {
+        construct?.rollCamera(clockwise ? -Math.PI / 2 : Math.PI / 2);
+      },
+      home: (): void => {
+        construct?.homeCamera();
+      },
+    },
   };
 };
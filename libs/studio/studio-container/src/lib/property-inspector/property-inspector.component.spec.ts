@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { PropertyInspectorComponent } from './property-inspector.component';
+
+describe('PropertyInspectorComponent', () => {
+  let component: PropertyInspectorComponent;
+  let fixture: ComponentFixture<PropertyInspectorComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PropertyInspectorComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PropertyInspectorComponent);
+    fixture.componentRef.setInput('fields', []);
+    fixture.componentRef.setInput('values', {});
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
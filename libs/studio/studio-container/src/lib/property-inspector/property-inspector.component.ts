@@ -0,0 +1,120 @@
+import { CommonModule } from '@angular/common';
+import { ChangeDetectionStrategy, Component, input, output } from '@angular/core';
+import { propertyField, propertyFieldTypeEnum, propertyValue } from '@three-js-studio/three-utils';
+
+/**
+ * A property changed in the property inspector
+ */
+export interface propertyChange {
+  key: string;
+  value: propertyValue;
+}
+
+/**
+ * Panel editing the properties of the selected light, material or of the camera. The fields are generated
+ * from the property schemas; the container applies the changes and passes the current values in again.
+ */
+@Component({
+  selector: 'hss-property-inspector',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './property-inspector.component.html',
+  styleUrl: './property-inspector.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PropertyInspectorComponent {
+  /**
+   * The name of the edited object.
+   */
+  readonly title = input<string>('');
+
+  /**
+   * The fields of the edited object.
+   */
+  readonly fields = input.required<propertyField[]>();
+
+  /**
+   * The current values by the key of the property.
+   */
+  readonly values = input.required<Record<string, propertyValue>>();
+
+  /**
+   * Emits every change of a value.
+   */
+  readonly valueChanged = output<propertyChange>();
+
+  /**
+   * The input types of the fields, used by the template.
+   */
+  readonly propertyFieldTypeEnum = propertyFieldTypeEnum;
+
+  /**
+   * Formats a color value for a color input.
+   *
+   * @param {propertyValue | undefined} value - The color as number.
+   *
+   * @returns {string} The color as `#rrggbb`.
+   */
+  colorValue(value: propertyValue | undefined): string {
+    return `#${(typeof value === 'number' ? value : 0).toString(16).padStart(6, '0')}`;
+  }
+
+  /**
+   * Reads a component of a vector value.
+   *
+   * @param {propertyValue | undefined} value - The vector.
+   * @param {number} index - The index of the component.
+   *
+   * @returns {number} The component, or 0 if the value is no vector.
+   */
+  vectorValue(value: propertyValue | undefined, index: number): number {
+    return value instanceof Array ? (value[index] ?? 0) : 0;
+  }
+
+  /**
+   * Reports the value of a number or color input.
+   *
+   * @param {propertyField} field - The edited field.
+   * @param {Event} event - The input or change event of the input.
+   *
+   * @return {void} Does not return a value.
+   */
+  changeNumber(field: propertyField, event: Event): void {
+    const text = (event.target as HTMLInputElement).value;
+    const value = field.type === propertyFieldTypeEnum.COLOR ? parseInt(text.slice(1), 16) : parseFloat(text);
+    if (!Number.isNaN(value)) {
+      this.valueChanged.emit({ key: field.key, value });
+    }
+  }
+
+  /**
+   * Reports the state of a checkbox.
+   *
+   * @param {propertyField} field - The edited field.
+   * @param {Event} event - The change event of the checkbox.
+   *
+   * @return {void} Does not return a value.
+   */
+  changeBoolean(field: propertyField, event: Event): void {
+    this.valueChanged.emit({ key: field.key, value: (event.target as HTMLInputElement).checked });
+  }
+
+  /**
+   * Reports a changed component of a vector.
+   *
+   * @param {propertyField} field - The edited field.
+   * @param {number} index - The index of the component.
+   * @param {Event} event - The change event of the input.
+   *
+   * @return {void} Does not return a value.
+   */
+  changeVector(field: propertyField, index: number, event: Event): void {
+    const current = this.values()[field.key];
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (current instanceof Array && !Number.isNaN(value)) {
+      const vector = [...current];
+      vector[index] = value;
+      this.valueChanged.emit({ key: field.key, value: vector });
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { CommonModule } from '@angular/common';
+import { ChangeDetectionStrategy, Component, input, output, signal } from '@angular/core';
+import { sceneTreeNode, sceneTreeNodeTypeEnum } from '@three-js-studio/three-utils';
+
+/**
+ * A node of the scene tree together with the pointer event that selected it
+ */
+export interface sceneTreeNodeSelection {
+  node: sceneTreeNode;
+  event: MouseEvent;
+}
+
+/**
+ * Panel listing the constructed scenes, contents and lights of the studio with the groups and meshes of
+ * every model. The panel only displays the tree; changes are reported to the container, which applies them
+ * to the construct and passes the rebuilt tree in again.
+ */
+@Component({
+  selector: 'hss-scene-tree',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './scene-tree.component.html',
+  styleUrl: './scene-tree.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SceneTreeComponent {
+  /**
+   * The root nodes of the tree.
+   */
+  readonly nodes = input.required<sceneTreeNode[]>();
+
+  /**
+   * Emits when a node has been clicked.
+   */
+  readonly nodeSelected = output<sceneTreeNodeSelection>();
+
+  /**
+   * Emits when the visibility of a node has been toggled.
+   */
+  readonly visibilityToggled = output<sceneTreeNode>();
+
+  /**
+   * Emits the node and its new name after a rename.
+   */
+  readonly nodeRenamed = output<{ node: sceneTreeNode; name: string }>();
+
+  /**
+   * Emits when a node has been deleted.
+   */
+  readonly nodeDeleted = output<sceneTreeNode>();
+
+  /**
+   * Id of the node being renamed, or `undefined` if no node is renamed.
+   */
+  readonly renaming = signal<string | undefined>(undefined);
+
+  /**
+   * Ids of the collapsed nodes.
+   */
+  readonly collapsed = signal<ReadonlySet<string>>(new Set<string>());
+
+  /**
+   * The kinds of nodes, used by the template.
+   */
+  readonly sceneTreeNodeTypeEnum = sceneTreeNodeTypeEnum;
+
+  /**
+   * Expands or collapses the children of a node.
+   *
+   * @param {sceneTreeNode} node - The node.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleCollapsed(node: sceneTreeNode): void {
+    const collapsed = new Set(this.collapsed());
+    if (!collapsed.delete(node.id)) {
+      collapsed.add(node.id);
+    }
+    this.collapsed.set(collapsed);
+  }
+
+  /**
+   * Ends the rename of a node and reports the new name if it is not empty.
+   *
+   * @param {sceneTreeNode} node - The renamed node.
+   * @param {string} name - The entered name.
+   *
+   * @return {void} Does not return a value.
+   */
+  finishRename(node: sceneTreeNode, name: string): void {
+    if (this.renaming() !== node.id) {
+      return;
+    }
+    this.renaming.set(undefined);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== node.name) {
+      this.nodeRenamed.emit({ node, name: trimmed });
+    }
+  }
+}
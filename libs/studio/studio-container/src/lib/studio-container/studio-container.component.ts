@@ -1,25 +1,73 @@
 import { CommonModule } from '@angular/common';
-import { ChangeDetectionStrategy, Component, ElementRef, HostListener, OnInit, viewChild } from '@angular/core';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  HostListener,
+  OnDestroy,
+  OnInit,
+  signal,
+  viewChild,
+} from '@angular/core';
 import {
   addAnalyseSupport,
+  addAnimationSupport,
   addEffectSupport,
+  addExplodeSupport,
   addMaterialSupport,
   addMouseSupport,
+  addSectionSupport,
+  buildSceneTree,
+  cameraTypeEnum,
   construct,
+  deleteSceneTreeNode,
+  detectEnvironmentFormat,
+  EnvironmentError,
+  environmentErrorEnum,
+  environmentSourceEnum,
+  explodeModeEnum,
+  getPropertyFields,
+  getPropertyValues,
   handleMouseSupport,
+  hasAnimationSupport,
   hasEffectsSupport,
+  hasExplodeSupport,
   hasMaterialSupport,
   hasMouseSupport,
-  Light,
-  lightTypeEnum,
+  hasSectionSupport,
+  imageFormatEnum,
+  lightingRigPresets,
+  measurementToolEnum,
+  measurementUnitEnum,
+  ModelLoaderError,
+  modelLoaderErrorEnum,
+  modelLoadOptions,
   prepareConstruct,
+  renameSceneTreeNode,
+  renderModeEnum,
+  sceneTreeNode,
+  sectionAxisEnum,
+  selectionModeFromEvent,
+  selectSceneTreeNode,
+  setPropertyValue,
+  setSceneTreeNodeVisible,
+  shadowQualityEnum,
   preparedConstructReturn,
   preparedSceneReturn,
+  propertyField,
+  propertyTarget,
+  propertyTargetTypeEnum,
+  propertyValue,
+  transformModeEnum,
+  transformSpaceEnum,
 } from '@three-js-studio/three-utils';
+import { Subscription } from 'rxjs';
 import * as THREE from 'three';
 import { glbScene } from '../prepared-scenes/glb-scene';
 import { ground } from '../prepared-scenes/ground';
-import { constructRotationCube } from '../prepared-scenes/rotation-cube';
+import { constructRotationCube, hasViewCubeSupport } from '../prepared-scenes/rotation-cube';
+import { PropertyInspectorComponent, propertyChange } from '../property-inspector/property-inspector.component';
+import { SceneTreeComponent, sceneTreeNodeSelection } from '../scene-tree/scene-tree.component';
 
 /**
  * Represents the container component for the studio.
@@ -27,12 +75,12 @@ import { constructRotationCube } from '../prepared-scenes/rotation-cube';
 @Component({
   selector: 'hss-studio-container',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, SceneTreeComponent, PropertyInspectorComponent],
   templateUrl: './studio-container.component.html',
   styleUrl: './studio-container.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class StudioContainerComponent implements OnInit {
+export class StudioContainerComponent implements OnInit, OnDestroy {
   /**
    * Represents a reference to a canvas element in the HTML DOM.
    */
@@ -45,6 +93,102 @@ export class StudioContainerComponent implements OnInit {
 
   #actualConstructedScene = '';
 
+  /**
+   * Controls the model load of the latest scene switch, so that a newer switch can abort it.
+   */
+  #sceneLoad: AbortController | undefined = undefined;
+
+  /**
+   * Progress of the running model load between 0 and 1, or `undefined` if nothing is loading.
+   */
+  readonly loadProgress = signal<number | undefined>(undefined);
+
+  /**
+   * Message of the latest failed model or environment load, or `undefined` if the last load succeeded.
+   */
+  readonly loadError = signal<string | undefined>(undefined);
+
+  /**
+   * Names of the saved camera bookmarks.
+   */
+  readonly bookmarks = signal<string[]>([]);
+
+  /**
+   * Names of the preset and saved lighting rigs.
+   */
+  readonly lightingRigs = signal<string[]>([]);
+
+  /**
+   * The operations of the transform gizmo, used by the template.
+   */
+  readonly transformModeEnum = transformModeEnum;
+
+  /**
+   * The interactive measurement tools, used by the template.
+   */
+  readonly measurementToolEnum = measurementToolEnum;
+
+  /**
+   * The axes of the section planes, used by the template.
+   */
+  readonly sectionAxisEnum = sectionAxisEnum;
+
+  /**
+   * The latest measurement formatted with its unit, or `undefined` if there is none.
+   */
+  readonly measurementText = signal<string | undefined>(undefined);
+
+  /**
+   * The constructed scenes, contents and lights shown in the scene tree panel.
+   */
+  readonly sceneTree = signal<sceneTreeNode[]>([]);
+
+  /**
+   * The name of the object edited in the property inspector.
+   */
+  readonly propertyTitle = signal<string>('');
+
+  /**
+   * The fields of the object edited in the property inspector.
+   */
+  readonly propertyFields = signal<propertyField[]>([]);
+
+  /**
+   * The current values of the object edited in the property inspector.
+   */
+  readonly propertyValues = signal<Record<string, propertyValue>>({});
+
+  /**
+   * The object edited in the property inspector: the selected light or the material of the selected mesh,
+   * the camera if nothing is selected.
+   */
+  #propertyTarget: propertyTarget | undefined = undefined;
+
+  /**
+   * Rebuilds the scene tree and the property inspector whenever the selection in the viewport changes.
+   */
+  #selectionSubscription: Subscription | undefined = undefined;
+
+  /**
+   * Keeps the bookmark buttons in sync with the bookmarks of the construct, e.g. after a scene document import.
+   */
+  #bookmarksSubscription: Subscription | undefined = undefined;
+
+  /**
+   * Keeps the lighting rig buttons in sync with the rigs of the construct, e.g. after a scene document import.
+   */
+  #lightingRigsSubscription: Subscription | undefined = undefined;
+
+  /**
+   * Position of the last pointerdown event, used to tell clicks from camera drags.
+   */
+  #pointerDown: { x: number; y: number } | undefined = undefined;
+
+  /**
+   * Whether the helpers of the lights are shown.
+   */
+  #lightHelpersVisible = true;
+
   /**
    * Initializes the component and prepares the construct if the canvas element is available.
    *
@@ -59,9 +203,37 @@ export class StudioContainerComponent implements OnInit {
     }
 
     const constConstruct = construct(1, 1);
-    this.#preparedConstruct = prepareConstruct(constConstruct, this.canvasElement()?.nativeElement);
+    this.#preparedConstruct = prepareConstruct(constConstruct, this.canvasElement()?.nativeElement, {
+      renderMode: renderModeEnum.ON_DEMAND,
+    });
+    // the physical materials need something to reflect; the room works without any download
+    this.#preparedConstruct?.environment.useRoomEnvironment();
     this.#updateRendererSize();
     this.#testFunction();
+    this.#selectionSubscription = this.#preparedConstruct?.selection.selectionChanged$.subscribe(() => {
+      this.#refreshSceneTree();
+      this.#inspectSelection();
+    });
+    this.#bookmarksSubscription = this.#preparedConstruct?.bookmarks.bookmarksChanged$.subscribe((names) => {
+      this.bookmarks.set(names);
+    });
+    this.#lightingRigsSubscription = this.#preparedConstruct?.lightingRigs.lightingRigsChanged$.subscribe((names) => {
+      this.lightingRigs.set(names);
+    });
+  }
+
+  /**
+   * Releases the prepared construct including the renderer, the animation loop and all GPU resources.
+   *
+   * @return {void} Does not return a value.
+   */
+  ngOnDestroy(): void {
+    this.#sceneLoad?.abort();
+    this.#selectionSubscription?.unsubscribe();
+    this.#bookmarksSubscription?.unsubscribe();
+    this.#lightingRigsSubscription?.unsubscribe();
+    this.#preparedConstruct?.dispose();
+    this.#preparedConstruct = undefined;
   }
 
   /**
@@ -75,7 +247,20 @@ export class StudioContainerComponent implements OnInit {
   }
 
   /**
-   * Handles the 'click' event on the host element.
+   * Remembers where the pointer was pressed, so that the end of a camera drag is not treated as a click.
+   *
+   * @param {PointerEvent} event - The pointer event.
+   *
+   * @return {void}
+   */
+  @HostListener('pointerdown', ['$event'])
+  onPointerDown(event: PointerEvent): void {
+    this.#pointerDown = { x: event.clientX, y: event.clientY };
+  }
+
+  /**
+   * Handles the 'click' event on the host element. Only clicks on the canvas that did not end a camera drag
+   * are handled: a click on the rotation cube navigates the camera, any other click changes the selection.
    *
    * @param {MouseEvent} _event - The mouse event triggering the click.
    *
@@ -83,14 +268,24 @@ export class StudioContainerComponent implements OnInit {
    */
   @HostListener('click', ['$event'])
   onClick(_event: MouseEvent): void {
-    let scene = this.#preparedConstruct?.getConstructedScene(this.#actualConstructedScene);
-    if (hasMouseSupport(scene)) {
-      (scene as handleMouseSupport).mouseSupportContainer.onClick(_event, scene);
+    const down = this.#pointerDown;
+    this.#pointerDown = undefined;
+    const prep = this.#preparedConstruct;
+    if (!prep || _event.target !== prep.renderer.domElement) {
+      return;
+    }
+    if (down && Math.hypot(_event.clientX - down.x, _event.clientY - down.y) > 3) {
+      return;
+    }
+    const cube = prep.getConstructedScene('rotationCube');
+    if (hasViewCubeSupport(cube) && cube.viewCubeSupportContainer.navigate(_event)) {
+      return;
     }
-    scene = this.#preparedConstruct?.getConstructedScene('rotationCube');
+    const scene = prep.getConstructedScene(this.#actualConstructedScene);
     if (hasMouseSupport(scene)) {
       (scene as handleMouseSupport).mouseSupportContainer.onClick(_event, scene);
     }
+    this.#updateMeasurementText();
   }
 
   /**
@@ -102,15 +297,18 @@ export class StudioContainerComponent implements OnInit {
    */
   @HostListener('mousemove', ['$event'])
   onMouseMove(_event: MouseEvent): void {
-    let scene = this.#preparedConstruct?.getConstructedScene(this.#actualConstructedScene);
-    if (hasMaterialSupport(scene)) {
-      if (hasMouseSupport(scene)) {
-        (scene as handleMouseSupport).mouseSupportContainer.onMouseMove(_event, scene);
-      }
-      scene = this.#preparedConstruct?.getConstructedScene('rotationCube');
-      if (hasMouseSupport(scene)) {
-        (scene as handleMouseSupport).mouseSupportContainer.onMouseMove(_event, scene);
-      }
+    const prep = this.#preparedConstruct;
+    if (!prep) {
+      return;
+    }
+    const cube = prep.getConstructedScene('rotationCube');
+    if (hasViewCubeSupport(cube) && cube.viewCubeSupportContainer.hover(_event)) {
+      prep.highlight.setHover(undefined);
+      return;
+    }
+    const scene = prep.getConstructedScene(this.#actualConstructedScene);
+    if (hasMouseSupport(scene)) {
+      (scene as handleMouseSupport).mouseSupportContainer.onMouseMove(_event, scene);
     }
   }
 
@@ -146,7 +344,7 @@ export class StudioContainerComponent implements OnInit {
    * A test function to demonstrate the usage of the prepared construct.
    *
    * This function retrieves content based on a specified parameter, creates a ground floor mesh object,
-   * a 3D view sphere, and adds light sources to the scene. It also initializes the camera position,
+   * a 3D view sphere, and applies the three-point lighting rig. It also initializes the camera position,
    * sets up the animation loop, and prepares the orbit controls for the scene.
    *
    * @return {Promise<void>} A Promise that resolves when the function completes.
@@ -155,34 +353,12 @@ export class StudioContainerComponent implements OnInit {
     console.log('testFunction');
 
     // this.#preparedConstruct?.addConstructedScene('ground', ground());
-    this.#preparedConstruct?.addConstructedScene('rotationCube', constructRotationCube());
+    this.#preparedConstruct?.addConstructedScene('rotationCube', constructRotationCube(this.#preparedConstruct));
     const groundFloor = ground(this.#preparedConstruct?.basicControls.scene ?? new THREE.Scene());
     this.#preparedConstruct?.addConstructedScene('ground', groundFloor);
 
-    const ambientLight = new Light({
-      type: lightTypeEnum.Ambient,
-      color: 0x7f7e80,
-      intensity: 0.7 * Math.PI,
-      position: [0, 0, 0],
-    });
-    const hemisphereLight = new Light({
-      type: lightTypeEnum.Hemisphere,
-      color: 0xfbfcff,
-      skyColor: 0xfbfcff,
-      groundColor: 0x7e7a80,
-      intensity: 0.32 * Math.PI,
-      position: [0, 10, 0],
-    });
-    const directionalLight = new Light({
-      type: lightTypeEnum.Directional,
-      color: 0xffffff,
-      intensity: 0.3 * Math.PI,
-      position: [5, 10, 10],
-    });
-
-    this.#preparedConstruct?.addLight('ambient', ambientLight);
-    this.#preparedConstruct?.addLight('hemisphere', hemisphereLight);
-    this.#preparedConstruct?.addLight('direct', directionalLight);
+    // the three-point rig replaces the standard light of the construct without a crossfade
+    void this.#preparedConstruct?.lightingRigs.apply(lightingRigPresets[0].name, 0);
     this.#preparedConstruct?.switchAllLights(true, true);
 
     if (this.#preparedConstruct) {
@@ -218,6 +394,495 @@ export class StudioContainerComponent implements OnInit {
     this.#preparedConstruct?.resetConstructedScene();
   }
 
+  /**
+   * Frames the selected objects, or all contents if nothing is selected.
+   *
+   * @return {void} Does not return a value.
+   */
+  fitView(): void {
+    const prep = this.#preparedConstruct;
+    if (prep && !prep.fitSelection()) {
+      prep.fitAll();
+    }
+  }
+
+  /**
+   * Saves the current view as a new camera bookmark.
+   *
+   * @return {void} Does not return a value.
+   */
+  saveBookmark(): void {
+    this.#preparedConstruct?.saveBookmark();
+  }
+
+  /**
+   * Animates the camera to a saved bookmark.
+   *
+   * @param {string} name - The name of the bookmark.
+   *
+   * @return {void} Does not return a value.
+   */
+  goToBookmark(name: string): void {
+    this.#preparedConstruct?.goToBookmark(name);
+  }
+
+  /**
+   * Sets the operation of the transform gizmo.
+   *
+   * @param {transformModeEnum} mode - Translate, rotate or scale.
+   *
+   * @return {void} Does not return a value.
+   */
+  setTransformMode(mode: transformModeEnum): void {
+    this.#preparedConstruct?.transformGizmo.setMode(mode);
+  }
+
+  /**
+   * Toggles the transform gizmo between world and local space.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleTransformSpace(): void {
+    const gizmo = this.#preparedConstruct?.transformGizmo;
+    gizmo?.setSpace(
+      gizmo.getSpace() === transformSpaceEnum.WORLD ? transformSpaceEnum.LOCAL : transformSpaceEnum.WORLD,
+    );
+  }
+
+  /**
+   * Toggles snapping of the transform gizmo to increments of 0.25 units, 15 degrees and 0.25 scale.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleTransformSnap(): void {
+    const gizmo = this.#preparedConstruct?.transformGizmo;
+    if (gizmo) {
+      const snapped = gizmo.getSnap().translation !== undefined;
+      gizmo.setSnap(snapped ? {} : { translation: 0.25, rotation: THREE.MathUtils.degToRad(15), scale: 0.25 });
+    }
+  }
+
+  /**
+   * Selects the first light with a helper, e.g. the key light of the three-point rig, so that it can be moved
+   * with the transform gizmo.
+   *
+   * @return {void} Does not return a value.
+   */
+  selectLight(): void {
+    const prep = this.#preparedConstruct;
+    const entry = [...(prep?.basicControls.lights.entries() ?? [])].find(([, light]) => light.getHelper());
+    if (prep && entry) {
+      prep.selectLight(entry[0]);
+    }
+  }
+
+  /**
+   * Replaces all lights by the lights of a rig with a crossfade. The scene tree and the property inspector
+   * are refreshed once the previous lights are gone.
+   *
+   * @param {string} name - The name of the lighting rig.
+   *
+   * @return {void} Does not return a value.
+   */
+  applyLightingRig(name: string): void {
+    void this.#preparedConstruct?.lightingRigs.apply(name).then(() => {
+      this.#refreshSceneTree();
+      this.#inspectSelection();
+    });
+  }
+
+  /**
+   * Saves the current lights as a new custom lighting rig.
+   *
+   * @return {void} Does not return a value.
+   */
+  saveLightingRig(): void {
+    const rigs = this.#preparedConstruct?.lightingRigs;
+    if (rigs) {
+      const custom = rigs.list().filter((rig) => !rigs.isPreset(rig.name));
+      rigs.save(`Lighting ${String(custom.length + 1)}`);
+    }
+  }
+
+  /**
+   * Shows or hides the helpers of all lights; hidden helpers cannot be picked in the viewport.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleLightHelpers(): void {
+    this.#lightHelpersVisible = !this.#lightHelpersVisible;
+    for (const light of this.#preparedConstruct?.basicControls.lights.values() ?? []) {
+      light.switch(light.isOn(), this.#lightHelpersVisible);
+    }
+    this.#preparedConstruct?.invalidate();
+  }
+
+  /**
+   * Activates an interactive measurement tool; clicks on the model then pick the measured points.
+   *
+   * @param {measurementToolEnum} tool - The measurement tool, or NONE to select objects again.
+   *
+   * @return {void} Does not return a value.
+   */
+  setMeasurementTool(tool: measurementToolEnum): void {
+    this.#preparedConstruct?.measurements.setTool(tool);
+  }
+
+  /**
+   * Measures the bounding box dimensions of the selected object, or of the current scene if nothing is selected.
+   *
+   * @return {void} Does not return a value.
+   */
+  measureDimensions(): void {
+    const prep = this.#preparedConstruct;
+    const object =
+      prep?.selection.getSelected().at(-1) ?? prep?.getConstructedScene(this.#actualConstructedScene)?.contentGroup;
+    if (prep && object) {
+      prep.measurements.addDimensions(object);
+      this.#updateMeasurementText();
+    }
+  }
+
+  /**
+   * Switches the measurements to the next unit: mm, cm, m and inch.
+   *
+   * @return {void} Does not return a value.
+   */
+  cycleMeasurementUnit(): void {
+    const measurements = this.#preparedConstruct?.measurements;
+    if (measurements) {
+      const units = [measurementUnitEnum.MM, measurementUnitEnum.CM, measurementUnitEnum.M, measurementUnitEnum.IN];
+      const unit = units[(units.indexOf(measurements.getOptions().unit) + 1) % units.length];
+      measurements.setOptions({ unit });
+      this.#updateMeasurementText();
+    }
+  }
+
+  /**
+   * Removes all measurements.
+   *
+   * @return {void} Does not return a value.
+   */
+  clearMeasurements(): void {
+    this.#preparedConstruct?.measurements.clear();
+    this.#updateMeasurementText();
+  }
+
+  /**
+   * Shows the latest measurement.
+   *
+   * @return {void} Does not return a value.
+   */
+  #updateMeasurementText(): void {
+    const measurements = this.#preparedConstruct?.measurements;
+    const latest = measurements?.list().at(-1);
+    this.measurementText.set(latest ? measurements?.format(latest) : undefined);
+  }
+
+  /**
+   * Cuts the current scene with a section plane through its center, perpendicular to the given axis.
+   *
+   * @param {sectionAxisEnum} axis - The axis the plane is perpendicular to.
+   *
+   * @return {void} Does not return a value.
+   */
+  addSectionPlane(axis: sectionAxisEnum): void {
+    const scene = this.#preparedConstruct?.getConstructedScene(this.#actualConstructedScene);
+    if (hasSectionSupport(scene)) {
+      scene.sectionSupportContainer.addAxisPlane(axis);
+    }
+  }
+
+  /**
+   * Flips the latest section plane, showing the other part of the cut.
+   *
+   * @return {void} Does not return a value.
+   */
+  flipSectionPlane(): void {
+    const scene = this.#preparedConstruct?.getConstructedScene(this.#actualConstructedScene);
+    if (hasSectionSupport(scene)) {
+      scene.sectionSupportContainer.flipPlane(scene.sectionSupportContainer.getPlanes().length - 1);
+    }
+  }
+
+  /**
+   * Removes all section planes of the current scene.
+   *
+   * @return {void} Does not return a value.
+   */
+  clearSectionPlanes(): void {
+    const scene = this.#preparedConstruct?.getConstructedScene(this.#actualConstructedScene);
+    if (hasSectionSupport(scene)) {
+      scene.sectionSupportContainer.clear();
+    }
+  }
+
+  /**
+   * Explodes the parts of the current scene or assembles them again.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleExplode(): void {
+    const scene = this.#preparedConstruct?.getConstructedScene(this.#actualConstructedScene);
+    if (hasExplodeSupport(scene)) {
+      const container = scene.explodeSupportContainer;
+      container.explode(container.getFactor() > 0 ? 0 : 1);
+    }
+  }
+
+  /**
+   * Switches the exploded view between moving the parts by hierarchy level and radially.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleExplodeMode(): void {
+    const scene = this.#preparedConstruct?.getConstructedScene(this.#actualConstructedScene);
+    if (hasExplodeSupport(scene)) {
+      const container = scene.explodeSupportContainer;
+      container.setMode(
+        container.getMode() === explodeModeEnum.HIERARCHY ? explodeModeEnum.RADIAL : explodeModeEnum.HIERARCHY,
+      );
+    }
+  }
+
+  /**
+   * Steps the shadow quality through off, low, medium and high.
+   *
+   * @return {void} Does not return a value.
+   */
+  cycleShadowQuality(): void {
+    const shadows = this.#preparedConstruct?.shadows;
+    shadows?.setQuality(
+      shadows.getQuality() === shadowQualityEnum.HIGH ? shadowQualityEnum.OFF : shadows.getQuality() + 1,
+    );
+  }
+
+  /**
+   * Switches the environment map between the procedural room and none.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleEnvironment(): void {
+    const environment = this.#preparedConstruct?.environment;
+    if (environment?.getSource() === environmentSourceEnum.NONE) {
+      environment.useRoomEnvironment();
+    } else {
+      environment?.clear();
+    }
+  }
+
+  /**
+   * Shows the environment map as background or restores the background color.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleEnvironmentBackground(): void {
+    const environment = this.#preparedConstruct?.environment;
+    environment?.setOptions({ background: !environment.getOptions().background });
+  }
+
+  /**
+   * Steps the blur of the environment background through none, light and strong.
+   *
+   * @return {void} Does not return a value.
+   */
+  cycleEnvironmentBlur(): void {
+    const environment = this.#preparedConstruct?.environment;
+    if (environment) {
+      const blurriness = environment.getOptions().backgroundBlurriness;
+      environment.setOptions({ backgroundBlurriness: blurriness >= 0.5 ? 0 : blurriness + 0.25 });
+    }
+  }
+
+  /**
+   * Loads an HDR, EXR or image panorama chosen by the user as environment map. A failed load is shown
+   * through `loadError`.
+   *
+   * @param {Event} event - The change event of the file input.
+   *
+   * @return {Promise<void>} A promise that resolves when the environment map is applied.
+   */
+  async loadEnvironmentFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.item(0);
+    if (!file || !this.#preparedConstruct) {
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    this.loadError.set(undefined);
+    try {
+      await this.#preparedConstruct.environment.loadEquirectangular(url, detectEnvironmentFormat(file.name));
+    } catch (error) {
+      if (!(error instanceof EnvironmentError)) {
+        throw error;
+      }
+      if (error.reason !== environmentErrorEnum.ABORTED) {
+        this.loadError.set(`${file.name}: ${error.message}`);
+      }
+    } finally {
+      URL.revokeObjectURL(url);
+      input.value = '';
+    }
+  }
+
+  /**
+   * Selects the object of a scene tree node in the viewport; Ctrl, Cmd or Shift toggle it.
+   *
+   * @param {sceneTreeNodeSelection} selection - The clicked node and the click event.
+   *
+   * @return {void} Does not return a value.
+   */
+  selectSceneTreeNode(selection: sceneTreeNodeSelection): void {
+    if (this.#preparedConstruct) {
+      selectSceneTreeNode(this.#preparedConstruct, selection.node, selectionModeFromEvent(selection.event));
+    }
+  }
+
+  /**
+   * Shows or hides the object of a scene tree node.
+   *
+   * @param {sceneTreeNode} node - The node.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleSceneTreeNodeVisibility(node: sceneTreeNode): void {
+    if (this.#preparedConstruct) {
+      setSceneTreeNodeVisible(this.#preparedConstruct, node, !node.visible);
+      this.#refreshSceneTree();
+    }
+  }
+
+  /**
+   * Renames the object of a scene tree node.
+   *
+   * @param {object} rename - The node and its new name.
+   * @param {sceneTreeNode} rename.node - The renamed node.
+   * @param {string} rename.name - The new name.
+   *
+   * @return {void} Does not return a value.
+   */
+  renameSceneTreeNode(rename: { node: sceneTreeNode; name: string }): void {
+    renameSceneTreeNode(rename.node, rename.name);
+    this.#refreshSceneTree();
+  }
+
+  /**
+   * Deletes the constructed scene, content or light of a scene tree node.
+   *
+   * @param {sceneTreeNode} node - The node.
+   *
+   * @return {void} Does not return a value.
+   */
+  deleteSceneTreeNode(node: sceneTreeNode): void {
+    if (this.#preparedConstruct && deleteSceneTreeNode(this.#preparedConstruct, node)) {
+      this.#refreshSceneTree();
+    }
+  }
+
+  /**
+   * Applies a property changed in the property inspector to the edited light, material or camera.
+   *
+   * @param {propertyChange} change - The changed property.
+   *
+   * @return {void} Does not return a value.
+   */
+  changeProperty(change: propertyChange): void {
+    const prep = this.#preparedConstruct;
+    const target = this.#propertyTarget;
+    if (!prep || !target || !setPropertyValue(target, change.key, change.value)) {
+      return;
+    }
+    if (target.type === propertyTargetTypeEnum.MATERIAL) {
+      // the highlighted copies of the material take over the change
+      prep.highlight.refresh();
+    }
+    prep.invalidate();
+    this.propertyValues.set(getPropertyValues(target));
+  }
+
+  /**
+   * Shows the properties of the selected light or of the material of the selected mesh in the property
+   * inspector, or the properties of the camera if nothing editable is selected.
+   *
+   * @return {void} Does not return a value.
+   */
+  #inspectSelection(): void {
+    const prep = this.#preparedConstruct;
+    const object = prep?.selection.getSelected().at(-1);
+    let title = 'Camera';
+    let target: propertyTarget | undefined = prep
+      ? { type: propertyTargetTypeEnum.CAMERA, camera: prep.basicControls.camera }
+      : undefined;
+    for (const [key, light] of prep && object ? prep.basicControls.lights : []) {
+      if (light.getLight() === object) {
+        title = key;
+        target = { type: propertyTargetTypeEnum.LIGHT, light };
+      }
+    }
+    if (prep && (object as unknown) instanceof THREE.Mesh) {
+      const mesh = object as THREE.Mesh;
+      const original = prep.highlight.getOriginalMaterial(mesh);
+      const material = original instanceof Array ? original.at(0) : original;
+      if (material instanceof THREE.MeshStandardMaterial) {
+        title = mesh.name || 'Material';
+        target = { type: propertyTargetTypeEnum.MATERIAL, material };
+      }
+    }
+    this.#propertyTarget = target;
+    this.propertyTitle.set(target ? title : '');
+    this.propertyFields.set(target ? getPropertyFields(target) : []);
+    this.propertyValues.set(target ? getPropertyValues(target) : {});
+  }
+
+  /**
+   * Rebuilds the scene tree from the current state of the construct.
+   *
+   * @return {void} Does not return a value.
+   */
+  #refreshSceneTree(): void {
+    this.sceneTree.set(this.#preparedConstruct ? buildSceneTree(this.#preparedConstruct) : []);
+  }
+
+  /**
+   * Toggles the camera between perspective and orthographic projection.
+   *
+   * @return {void} Does not return a value.
+   */
+  toggleProjection(): void {
+    const prep = this.#preparedConstruct;
+    if (prep) {
+      prep.setProjection(
+        prep.getProjection() === cameraTypeEnum.PERSPECTIVE ? cameraTypeEnum.ORTHOGRAPHIC : cameraTypeEnum.PERSPECTIVE,
+      );
+    }
+  }
+
+  /**
+   * Rolls the camera by 90 degrees around its viewing direction.
+   *
+   * @param {boolean} clockwise - Whether the view is rolled clockwise.
+   *
+   * @return {void} Does not return a value.
+   */
+  rollView(clockwise: boolean): void {
+    const cube = this.#preparedConstruct?.getConstructedScene('rotationCube');
+    if (hasViewCubeSupport(cube)) {
+      cube.viewCubeSupportContainer.roll(clockwise);
+    }
+  }
+
+  /**
+   * Animates back to the initial view via the home button of the rotation cube.
+   *
+   * @return {void} Does not return a value.
+   */
+  homeView(): void {
+    const cube = this.#preparedConstruct?.getConstructedScene('rotationCube');
+    if (hasViewCubeSupport(cube)) {
+      cube.viewCubeSupportContainer.home();
+    }
+  }
+
   /**
    * Handles the click event to change the color and material properties of a specific 3D object in the scene.
    * Updates the material of the designated 3D model with predefined properties such as color, roughness, clearcoat, and metalness.
@@ -235,6 +900,34 @@ export class StudioContainerComponent implements OnInit {
         metalness: 0.9,
       });
       scene.materialSupportContainer.changeMaterial(mesh);
+      this.#preparedConstruct?.invalidate();
+    }
+  }
+
+  /**
+   * Exports the current view as transparent PNG in full HD without the ground grid and the rotation cube
+   * and offers it as download.
+   *
+   * @return {Promise<void>} A promise that resolves when the download has been triggered.
+   */
+  async clickExportImage(): Promise<void> {
+    const blob = await this.#preparedConstruct?.exportImage({
+      width: 1920,
+      height: 1080,
+      format: imageFormatEnum.PNG,
+      transparentBackground: true,
+      excludeConstructedScenes: ['ground', 'rotationCube'],
+    });
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'studio.png';
+      link.click();
+      // the download starts asynchronously, so the URL has to stay valid for a while
+      setTimeout(() => {
+        URL.revokeObjectURL(url);
+      }, 40_000);
     }
   }
 
@@ -279,14 +972,38 @@ export class StudioContainerComponent implements OnInit {
    * @return {Promise<void>} Resolves when the scene switching process is complete.
    */
   async #sitchToScene(key: string): Promise<void> {
+    this.#sceneLoad?.abort();
+    this.#sceneLoad = undefined;
     this.#preparedConstruct?.switchAllConstructedScenes(false);
     let scene: preparedSceneReturn | undefined = this.#preparedConstruct?.getConstructedScene(key);
     if (!scene) {
-      if (key.includes('lotus')) {
-        scene = await glbScene(key, this.#preparedConstruct);
-      } else {
-        scene = await glbScene(key, this.#preparedConstruct);
-        scene = addMouseSupport(scene, this.#preparedConstruct);
+      const sceneLoad = new AbortController();
+      this.#sceneLoad = sceneLoad;
+      const options: modelLoadOptions = {
+        signal: sceneLoad.signal,
+        onProgress: ({ loaded, total }) => {
+          this.loadProgress.set(total > 0 ? loaded / total : undefined);
+        },
+      };
+      this.loadError.set(undefined);
+      try {
+        scene = await glbScene(key, this.#preparedConstruct, options);
+      } catch (error) {
+        if (!(error instanceof ModelLoaderError)) {
+          throw error;
+        }
+        if (error.reason !== modelLoaderErrorEnum.ABORTED) {
+          this.loadError.set(`${key}: ${error.message}`);
+        }
+        return;
+      } finally {
+        if (this.#sceneLoad === sceneLoad) {
+          this.#sceneLoad = undefined;
+          this.loadProgress.set(undefined);
+        }
+      }
+      scene = addMouseSupport(scene, this.#preparedConstruct);
+      if (!key.includes('lotus')) {
         scene = addMaterialSupport(scene, this.#preparedConstruct);
         if (hasMaterialSupport(scene)) {
           scene.materialSupportContainer.setMaterial(
@@ -302,6 +1019,15 @@ export class StudioContainerComponent implements OnInit {
         scene = addAnalyseSupport(scene, this.#preparedConstruct);
       }
       scene = addEffectSupport(scene, this.#preparedConstruct);
+      scene = addAnimationSupport(scene, this.#preparedConstruct);
+      scene = addSectionSupport(scene, this.#preparedConstruct);
+      scene = addExplodeSupport(scene, this.#preparedConstruct);
+      if (hasAnimationSupport(scene)) {
+        const [firstClip] = scene.animationSupportContainer.clips();
+        if (firstClip) {
+          scene.animationSupportContainer.play(firstClip);
+        }
+      }
       this.#preparedConstruct?.addConstructedScene(key, scene);
     }
     const groundFloor = this.#preparedConstruct?.getConstructedScene('ground');
@@ -315,6 +1041,8 @@ export class StudioContainerComponent implements OnInit {
     this.#preparedConstruct?.resetConstructedScene();
     groundFloor?.visible(true);
     scene.visible(true);
+    // the camera is moved to a distance that suits the size of the model
+    this.#preparedConstruct?.fitContent(key);
     rotationCube?.visible(true);
 
     if (hasEffectsSupport(scene) && scene.contentGroup && rotationCube?.contentGroup && groundFloor?.contentGroup) {
@@ -323,5 +1051,6 @@ export class StudioContainerComponent implements OnInit {
         1000,
       );
     }
+    this.#refreshSceneTree();
   }
 }